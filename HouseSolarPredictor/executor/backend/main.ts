@@ -1,10 +1,20 @@
 import { ConfigService } from "./src/services/config.ts";
 import { DatabaseService } from "./src/services/database.ts";
 import { ScheduleService } from "./src/services/schedule.ts";
+import { validateScheduleText } from "./src/services/schedule-validator.ts";
 import { MqttService } from "./src/services/mqtt.ts";
+import { createInverterDriver } from "./src/services/drivers/index.ts";
 import { InverterController } from "./src/services/inverter-controller.ts";
 import { WebSocketService } from "./src/services/websocket.ts";
+import { MqttStatePublisher } from "./src/services/mqtt-state-publisher.ts";
+import { TelemetryRecorder } from "./src/services/telemetry-recorder.ts";
+import { TariffService } from "./src/services/tariff-service.ts";
+import { ForecastActualsService } from "./src/services/forecast-actuals-service.ts";
+import { MAX_ENERGY_REPORT_DAYS } from "./src/services/energy-integrator.ts";
+import { actualsToCsv, MAX_ACTUALS_DAYS } from "./src/services/forecast-actuals.ts";
 import { Logger } from "./src/logger.ts";
+import { parseManualOverrideRequest } from "./src/services/manual-override.ts";
+import type { ManualOverride, ManualOverrideRequest, ShadowModeComparison, TelemetryResolution } from "@shared";
 
 import * as Sentry from "https://deno.land/x/sentry/index.mjs";
 import PlainDate = Temporal.PlainDate;
@@ -13,9 +23,13 @@ class SolarInverterApp {
   private configService: ConfigService;
   private databaseService: DatabaseService;
   private scheduleService: ScheduleService;
+  private tariffService: TariffService;
+  private forecastActualsService: ForecastActualsService;
   private mqttService: MqttService;
   private inverterController: InverterController;
   private webSocketService: WebSocketService;
+  private statePublisher?: MqttStatePublisher;
+  private telemetryRecorder?: TelemetryRecorder;
   private httpServer?: Deno.HttpServer;
   public logger: Logger;
 
@@ -30,16 +44,37 @@ class SolarInverterApp {
     const config = this.configService.getConfig();
     
     this.databaseService = new DatabaseService(config.dbPath || "data/solar_system.db");
-    this.scheduleService = new ScheduleService(config.schedulePath);
-    this.mqttService = new MqttService(config.mqtt);
+    this.tariffService = new TariffService(
+      this.databaseService,
+      this.configService.getTariffConfig(),
+      this.configService.getTariffImportConfig()
+    );
+    this.forecastActualsService = new ForecastActualsService(
+      this.databaseService,
+      this.configService.getMeteringConfig().exportSign,
+      this.configService.getForecastActualsConfig()
+    );
+    this.scheduleService = new ScheduleService(config.schedulePath, this.tariffService, this.configService.getScheduleValidationConfig(), this.databaseService);
+    this.mqttService = new MqttService(config.mqtt, this.databaseService);
+
+    const telemetryRecordingConfig = this.configService.getTelemetryRecordingConfig();
+    if (telemetryRecordingConfig.enabled) {
+      const recorder = new TelemetryRecorder(this.databaseService, telemetryRecordingConfig);
+      this.mqttService.onAnyMessage((topic, message) => recorder.record(topic, message));
+      this.telemetryRecorder = recorder;
+    }
     
+    const inverterDriver = createInverterDriver(this.configService.getInverterDriverConfig(), this.mqttService);
+    this.logger.log(`Using ${inverterDriver.getName()} inverter driver`);
+
     this.inverterController = new InverterController(
-      this.mqttService,
+      inverterDriver,
       this.scheduleService,
       this.databaseService,
       config.retryAttempts,
       config.retryDelayMinutes,
-      this.configService
+      this.configService,
+      this.tariffService
     );
     
     this.webSocketService = new WebSocketService(
@@ -47,6 +82,11 @@ class SolarInverterApp {
       this.databaseService,
       this.scheduleService
     );
+
+    const statePublishingConfig = this.configService.getStatePublishingConfig();
+    if (statePublishingConfig.enabled) {
+      this.statePublisher = new MqttStatePublisher(this.mqttService, this.inverterController, statePublishingConfig);
+    }
   }
 
   async start(): Promise<void> {
@@ -59,13 +99,31 @@ class SolarInverterApp {
       await this.mqttService.connect();
       this.logger.logSignificant("MQTT_CONNECTED");
       
+      // Import price files first, so segments without prices can use them
+      if (this.configService.getTariffImportConfig().enabled) {
+        this.logger.log("Importing tariff price files...");
+        await this.tariffService.start();
+      }
+
       // Load schedule
       this.logger.log("Loading schedule...");
       await this.scheduleService.loadSchedule();
       
+      this.telemetryRecorder?.start();
+
+      if (this.configService.getForecastActualsConfig().enabled) {
+        this.logger.log("Writing forecast actuals...");
+        await this.forecastActualsService.start();
+      }
+
       // Start inverter controller
       this.logger.log("Starting inverter controller...");
       await this.inverterController.start();
+
+      if (this.statePublisher) {
+        this.logger.log("Starting MQTT state publishing...");
+        await this.statePublisher.start();
+      }
       
       // Start HTTP server
       this.logger.log("Starting HTTP server...");
@@ -119,7 +177,10 @@ class SolarInverterApp {
     try {
       switch (path) {
         case "/api/status":
-          return this.jsonResponse(this.inverterController.getState());
+          return this.jsonResponse({
+            ...this.inverterController.getState(),
+            mqtt: this.mqttService.getStatus()
+          });
 
         case "/api/metrics":
         {
@@ -138,6 +199,11 @@ class SolarInverterApp {
         }
 
         case "/api/schedule": {
+          if (request.method === "POST") {
+            const author = url.searchParams.get("author") || "api";
+            const result = await this.scheduleService.uploadSchedule(await request.text(), author);
+            return this.jsonResponse(result, result.revision ? 200 : 400);
+          }
           const scheduleDateParam = url.searchParams.get("date");
           const targetDate = Temporal.PlainDate.from(scheduleDateParam!);
           this.logger.log(`Fetching schedule for date: ${targetDate.toString()}`);
@@ -145,6 +211,44 @@ class SolarInverterApp {
           return this.jsonResponse(scheduleData);
         }
 
+        case "/api/schedule/validate":
+          if (request.method === "POST") {
+            // Checks a schedule before it is written over the live one
+            return this.jsonResponse(validateScheduleText(await request.text(), this.configService.getScheduleValidationConfig()));
+          }
+          return this.jsonResponse({
+            file: await this.scheduleService.validateFile(),
+            running: this.scheduleService.getValidationReport(),
+            rejectedReload: this.scheduleService.getRejectedReload()
+          });
+
+        case "/api/schedule/revisions": {
+          const atParam = url.searchParams.get("at");
+          if (!atParam) {
+            return this.jsonResponse(this.scheduleService.getRevisions());
+          }
+          let at: Temporal.Instant;
+          try {
+            at = Temporal.Instant.from(atParam);
+          } catch (error) {
+            if (!(error instanceof RangeError)) {
+              throw error;
+            }
+            return this.jsonResponse({ error: "at must be a time with an offset such as 2025-06-01T12:00:00Z" }, 400);
+          }
+          const revision = this.scheduleService.getRevisionAt(at);
+          if (!revision) {
+            return this.jsonResponse({ error: `No schedule revision was in force at ${atParam}` }, 404);
+          }
+          return this.jsonResponse(revision);
+        }
+
+        case "/api/schedule/rollback":
+          if (request.method === "POST") {
+            return await this.handleScheduleRollbackRequest(request);
+          }
+          break;
+
         case "/api/retry":
           if (request.method === "POST") {
             await this.inverterController.retry();
@@ -152,6 +256,115 @@ class SolarInverterApp {
           }
           break;
 
+        case "/api/protections":
+          return this.jsonResponse(this.inverterController.getProtectionInfo());
+
+        case "/api/protections/history": {
+          const historyDate = this.requireDateParam(url, "date");
+          if (historyDate instanceof Response) {
+            return historyDate;
+          }
+          return this.jsonResponse(this.databaseService.getProtectionEvents(historyDate));
+        }
+
+        case "/api/telemetry/outages": {
+          const outageDate = this.requireDateParam(url, "date");
+          if (outageDate instanceof Response) {
+            return outageDate;
+          }
+          return this.jsonResponse(this.databaseService.getTelemetryOutages(outageDate));
+        }
+
+        case "/api/telemetry/topics":
+          if (!this.telemetryRecorder) {
+            return this.jsonResponse({ error: "Telemetry recording is disabled" }, 404);
+          }
+          return this.jsonResponse(this.telemetryRecorder.getTopics());
+
+        case "/api/telemetry/history": {
+          if (!this.telemetryRecorder) {
+            return this.jsonResponse({ error: "Telemetry recording is disabled" }, 404);
+          }
+          const topic = url.searchParams.get("topic");
+          const resolution = url.searchParams.get("resolution") ?? undefined;
+          if (!topic) {
+            return this.jsonResponse({ error: "topic is required" }, 400);
+          }
+          if (resolution !== undefined && !["raw", "1m", "5m", "30m"].includes(resolution)) {
+            return this.jsonResponse({ error: "resolution must be raw, 1m, 5m or 30m" }, 400);
+          }
+          const historyHours = Number(url.searchParams.get("hours") ?? "24");
+          if (!Number.isFinite(historyHours) || historyHours <= 0) {
+            return this.jsonResponse({ error: "hours must be a positive number" }, 400);
+          }
+          return this.jsonResponse(this.telemetryRecorder.getHistory(topic, historyHours, resolution as TelemetryResolution | undefined));
+        }
+
+        case "/api/energy": {
+          const energyRange = this.requireDateRangeParams(url, MAX_ENERGY_REPORT_DAYS);
+          if (energyRange instanceof Response) {
+            return energyRange;
+          }
+          return this.jsonResponse(this.inverterController.getEnergyReport(energyRange.from, energyRange.to));
+        }
+
+        case "/api/adherence": {
+          const adherenceDate = this.requireDateParam(url, "date");
+          if (adherenceDate instanceof Response) {
+            return adherenceDate;
+          }
+          return this.jsonResponse(this.inverterController.getAdherenceReport(adherenceDate));
+        }
+
+        case "/api/replan":
+          return this.jsonResponse(this.inverterController.getReplan());
+
+        case "/api/forecast/actuals": {
+          const actualsRange = this.requireDateRangeParams(url, MAX_ACTUALS_DAYS);
+          if (actualsRange instanceof Response) {
+            return actualsRange;
+          }
+          const actuals = this.forecastActualsService.getActuals(actualsRange.from, actualsRange.to);
+          if (url.searchParams.get("format") === "csv") {
+            return new Response(actualsToCsv(actuals.slots), {
+              headers: { "Content-Type": "text/csv", "Access-Control-Allow-Origin": "*" }
+            });
+          }
+          return this.jsonResponse(actuals);
+        }
+
+        case "/api/tariff/prices": {
+          const pricesDate = this.requireDateParam(url, "date");
+          if (pricesDate instanceof Response) {
+            return pricesDate;
+          }
+          return this.jsonResponse(this.tariffService.getDayPrices(pricesDate));
+        }
+
+        case "/api/tariff/imports":
+          return this.jsonResponse(this.tariffService.getImports());
+
+        case "/api/override":
+          return await this.handleOverrideRequest(request);
+
+        case "/api/inverter":
+          return this.jsonResponse(this.inverterController.getInverterDriverInfo());
+
+        case "/api/shadow-mode":
+          return await this.handleShadowModeRequest(request);
+
+        case "/api/shadow-mode/actions": {
+          const shadowDate = this.requireDateParam(url, "date");
+          if (shadowDate instanceof Response) {
+            return shadowDate;
+          }
+          const comparison: ShadowModeComparison = {
+            shadowActions: this.databaseService.getShadowActions(shadowDate),
+            liveActions: this.databaseService.getControlActions(shadowDate)
+          };
+          return this.jsonResponse(comparison);
+        }
+
         default:
           return new Response("Not Found", { status: 404 });
       }
@@ -163,6 +376,76 @@ class SolarInverterApp {
     return new Response("Method Not Allowed", { status: 405 });
   }
 
+  private async handleScheduleRollbackRequest(request: Request): Promise<Response> {
+    let body: { revisionId?: unknown; author?: unknown };
+    try {
+      body = await request.json();
+    } catch {
+      body = {};
+    }
+    if (typeof body.revisionId !== "number" || !Number.isInteger(body.revisionId)) {
+      return this.jsonResponse({ error: "Body must be {\"revisionId\": number, \"author\": string}" }, 400);
+    }
+
+    const author = typeof body.author === "string" && body.author !== "" ? body.author : "api";
+    const result = this.scheduleService.rollback(body.revisionId, author);
+    if (!result) {
+      return this.jsonResponse({ error: `Schedule revision ${body.revisionId} not found` }, 404);
+    }
+    return this.jsonResponse(result, result.revision ? 200 : 400);
+  }
+
+  private async handleShadowModeRequest(request: Request): Promise<Response> {
+    switch (request.method) {
+      case "GET":
+        return this.jsonResponse({ enabled: this.inverterController.isShadowMode() });
+
+      case "POST": {
+        let enabled: unknown;
+        try {
+          enabled = (await request.json() as { enabled?: unknown }).enabled;
+        } catch {
+          enabled = undefined;
+        }
+        if (typeof enabled !== "boolean") {
+          return this.jsonResponse({ error: "Body must be {\"enabled\": true|false}" }, 400);
+        }
+        await this.inverterController.setShadowMode(enabled);
+        return this.jsonResponse({ success: true, enabled });
+      }
+
+      default:
+        return new Response("Method Not Allowed", { status: 405 });
+    }
+  }
+
+  private async handleOverrideRequest(request: Request): Promise<Response> {
+    switch (request.method) {
+      case "GET":
+        return this.jsonResponse(this.inverterController.getManualOverride());
+
+      case "POST": {
+        let override: ManualOverride;
+        try {
+          const body = await request.json() as ManualOverrideRequest;
+          override = parseManualOverrideRequest(body);
+        } catch (error) {
+          return this.jsonResponse({ error: (error as Error).message }, 400);
+        }
+        const saved = await this.inverterController.setManualOverride(override);
+        return this.jsonResponse({ success: true, override: saved });
+      }
+
+      case "DELETE": {
+        const cleared = await this.inverterController.clearManualOverride();
+        return this.jsonResponse({ success: cleared, message: cleared ? "Override cleared" : "No override active" });
+      }
+
+      default:
+        return new Response("Method Not Allowed", { status: 405 });
+    }
+  }
+
   private async handleStaticFiles(request: Request): Promise<Response> {
     const url = new URL(request.url);
     let filePath = url.pathname;
@@ -224,13 +507,46 @@ class SolarInverterApp {
     }
   }
 
+  // The YYYY-MM-DD date in a query parameter, or a 400 response when it's missing or not a date
+  private requireDateParam(url: URL, name: string): PlainDate | Response {
+    const value = url.searchParams.get(name);
+    if (value === null) {
+      return this.jsonResponse({ error: `${name} is required` }, 400);
+    }
+    try {
+      return PlainDate.from(value, { overflow: "reject" });
+    } catch {
+      return this.jsonResponse({ error: `${name} must be a date such as 2025-06-01` }, 400);
+    }
+  }
+
+  // The from and to dates in query parameters, with to defaulting to from, or a 400 response when
+  // either isn't a date, they're the wrong way round or they cover more than maxDays
+  private requireDateRangeParams(url: URL, maxDays: number): { from: PlainDate; to: PlainDate } | Response {
+    const from = this.requireDateParam(url, "from");
+    if (from instanceof Response) {
+      return from;
+    }
+    const to = url.searchParams.has("to") ? this.requireDateParam(url, "to") : from;
+    if (to instanceof Response) {
+      return to;
+    }
+    if (PlainDate.compare(from, to) > 0) {
+      return this.jsonResponse({ error: "from must not be after to" }, 400);
+    }
+    if (from.until(to).days >= maxDays) {
+      return this.jsonResponse({ error: `from and to can cover at most ${maxDays} days` }, 400);
+    }
+    return { from, to };
+  }
+
   private jsonResponse(data: any, status: number = 200): Response {
     return new Response(JSON.stringify(data), {
       status,
       headers: {
         "Content-Type": "application/json",
         "Access-Control-Allow-Origin": "*",
-        "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+        "Access-Control-Allow-Methods": "GET, POST, DELETE, OPTIONS",
         "Access-Control-Allow-Headers": "Content-Type",
       },
     });
@@ -244,6 +560,11 @@ class SolarInverterApp {
       // Stop services in reverse order
       this.webSocketService?.stop();
       this.inverterController?.stop();
+      await this.statePublisher?.stop().catch(error => this.logger.logException(error as Error));
+      this.telemetryRecorder?.stop();
+      this.tariffService?.stop();
+      this.scheduleService?.stop();
+      this.forecastActualsService?.stop();
       this.mqttService?.disconnect();
       
       if (this.httpServer) {
@@ -0,0 +1,100 @@
+import {AdherenceReport, SegmentAdherence} from "@shared";
+import {DatabaseService} from "./database.ts";
+import {ScheduleService} from "./schedule.ts";
+import {EnergyIntegrator} from "./energy-integrator.ts";
+import {Logger} from "../logger.ts";
+import {MAX_READING_HOLD_MS, scoreSegment, summarizeAdherence} from "./adherence.ts";
+import {TIME_ZONE} from "../time-zone.ts";
+
+const SETTLE_MS = 60_000; // wait for the readings either side of a segment's end before scoring it
+
+/**
+ * Scores each schedule segment against what actually happened once it has ended, and stores the
+ * results for the daily and weekly adherence summaries
+ */
+export class AdherenceTracker {
+  private readonly databaseService: DatabaseService;
+  private readonly scheduleService: ScheduleService;
+  private readonly energyIntegrator: EnergyIntegrator;
+  private readonly chargeRateControlled: boolean;
+  private readonly logger: Logger;
+  private scoredUntil: number | null; // end of the last segment scored, epoch ms
+
+  constructor(databaseService: DatabaseService, scheduleService: ScheduleService, energyIntegrator: EnergyIntegrator, chargeRateControlled: boolean) {
+    this.databaseService = databaseService;
+    this.scheduleService = scheduleService;
+    this.energyIntegrator = energyIntegrator;
+    this.chargeRateControlled = chargeRateControlled;
+    this.logger = new Logger();
+    this.scoredUntil = databaseService.getLatestSegmentAdherenceEnd();
+  }
+
+  /**
+   * Scores the segments that have ended since the last call
+   */
+  scoreEndedSegments(now: number = Temporal.Now.instant().epochMilliseconds): SegmentAdherence[] {
+    const settled = now - SETTLE_MS;
+    // Carry on from the last scored segment, or from now rather than scoring a whole schedule with no readings
+    const scoredUntil = this.scoredUntil ??= settled;
+    const ended = this.scheduleService.getAllSegments()
+      .filter(segment => {
+        const end = segment.time.segmentEnd.epochMilliseconds;
+        return end > scoredUntil && end <= settled;
+      })
+      .sort((a, b) => a.time.segmentEnd.epochMilliseconds - b.time.segmentEnd.epochMilliseconds);
+    if (ended.length === 0) {
+      return [];
+    }
+
+    this.energyIntegrator.flush(now);
+    const scored = ended.map(segment => {
+      const start = segment.time.segmentStart.epochMilliseconds;
+      const end = segment.time.segmentEnd.epochMilliseconds;
+      const energy = this.databaseService.getSegmentEnergy(start, end)
+        .find(entry => entry.segmentStart === start && entry.segmentEnd === end) ?? null;
+      // A reading from just before the start stands for the segment's first moments
+      const metrics = this.databaseService.getMetricsBetween(start - MAX_READING_HOLD_MS, end);
+
+      const adherence = scoreSegment(segment, metrics, energy, this.chargeRateControlled, now);
+      this.databaseService.saveSegmentAdherence(adherence);
+      this.logger.logSignificant("SEGMENT_ADHERENCE_SCORED", {
+        segmentStart: segment.time.segmentStart.toZonedDateTimeISO(TIME_ZONE).toPlainDateTime().toString(),
+        mode: segment.mode,
+        coveredSeconds: adherence.coveredSeconds,
+        workModeMatchSeconds: adherence.workModeMatchSeconds,
+        chargeRateMatchSeconds: adherence.chargeRateMatchSeconds,
+        batteryErrorKwh: adherence.batteryErrorKwh,
+        costDelta: adherence.costDelta
+      });
+      return adherence;
+    });
+
+    this.scoredUntil = ended[ended.length - 1].time.segmentEnd.epochMilliseconds;
+    return scored;
+  }
+
+  /**
+   * A day's scored segments with summaries for the day and for its Monday to Sunday week
+   */
+  getReport(date: Temporal.PlainDate): AdherenceReport {
+    const monday = date.subtract({ days: date.dayOfWeek - 1 });
+    const sunday = monday.add({ days: 6 });
+    const weekSegments = this.databaseService.getSegmentAdherence(startOfDay(monday), startOfDay(sunday.add({ days: 1 })));
+    const segmentsOn = (day: Temporal.PlainDate) => weekSegments.filter(segment =>
+      segment.segmentStart >= startOfDay(day) && segment.segmentStart < startOfDay(day.add({ days: 1 })));
+
+    const weekDays = Array.from({ length: 7 }, (_, index) => monday.add({ days: index }))
+      .map(day => summarizeAdherence(day.toString(), day.toString(), segmentsOn(day)));
+    return {
+      date: date.toString(),
+      segments: segmentsOn(date),
+      day: weekDays[date.dayOfWeek - 1],
+      week: summarizeAdherence(monday.toString(), sunday.toString(), weekSegments),
+      weekDays
+    };
+  }
+}
+
+function startOfDay(date: Temporal.PlainDate): number {
+  return date.toZonedDateTime({ timeZone: TIME_ZONE }).epochMilliseconds;
+}
@@ -0,0 +1,124 @@
+import {assertAlmostEquals, assertEquals} from "@std/assert";
+import {MetricInstance, OutputsMode, SegmentEnergy} from "@shared";
+import {scoreSegment, summarizeAdherence} from "./adherence.ts";
+import {AdherenceTracker} from "./adherence-tracker.ts";
+import {DatabaseService} from "./database.ts";
+import {EnergyIntegrator} from "./energy-integrator.ts";
+import {ScheduleService} from "./schedule.ts";
+import type {BackendTimeSegment} from "../../time/backend-time-segment.ts";
+
+const START = Temporal.Instant.from("2025-06-02T09:00:00Z").epochMilliseconds;
+const MINUTE = 60_000;
+
+const SEGMENT: BackendTimeSegment = {
+  time: {
+    segmentStart: Temporal.Instant.fromEpochMilliseconds(START),
+    segmentEnd: Temporal.Instant.fromEpochMilliseconds(START + 30 * MINUTE)
+  },
+  expectedSolarGeneration: 1.5,
+  gridPrice: 0.25,
+  exportPrice: 0.15,
+  expectedConsumption: 0.5,
+  startBatteryChargeKwh: 4,
+  endBatteryChargeKwh: 5,
+  mode: OutputsMode.ChargeSolarOnly,
+  wastedSolarGeneration: 0,
+  actualGridUsage: 0.4,
+  cost: { poundsAmount: 0.1 } as unknown as number
+};
+
+function metric(minute: number, workModePriority: MetricInstance["workModePriority"], batteryChargeRate: number, batteryChargePercent = 50): MetricInstance {
+  return {
+    timestamp: START + minute * MINUTE,
+    batteryChargeRate,
+    workModePriority,
+    loadPower: 0,
+    gridPower: 0,
+    batteryPower: 0,
+    batteryCurrent: 0,
+    batteryChargePercent,
+    batteryCapacity: 10,
+    solarPower: 0
+  };
+}
+
+const ENERGY: SegmentEnergy = {
+  segmentStart: START,
+  segmentEnd: START + 30 * MINUTE,
+  importKwh: 0.6,
+  exportKwh: 0,
+  solarKwh: 1.2,
+  loadKwh: 0.7,
+  batteryChargeKwh: 1,
+  batteryDischargeKwh: 0,
+  coveredSeconds: 1800,
+  cost: { importCost: 0.15, exportRevenue: 0, netCost: 0.15 }
+};
+
+Deno.test("scores time-weighted matches, end battery and forecast errors for a segment", () => {
+  const adherence = scoreSegment(SEGMENT, [
+    metric(-1, "Battery first", 0),
+    metric(10, "Load first", 0),
+    metric(20, "Battery first", 100),
+    metric(29, "Battery first", 0, 46)
+  ], ENERGY, false, START + 31 * MINUTE);
+
+  // Readings hold for at most five minutes, so 4-10, 15-20 and 25-29 have none
+  assertEquals(adherence.coveredSeconds, 15 * 60);
+  assertEquals(adherence.workModeMatchSeconds, 10 * 60);
+  assertEquals(adherence.chargeRateMatchSeconds, 10 * 60);
+  assertAlmostEquals(adherence.actualEndBatteryKwh!, 4.6);
+  assertAlmostEquals(adherence.batteryErrorKwh!, -0.4);
+  assertAlmostEquals(adherence.solarErrorKwh!, -0.3);
+  assertAlmostEquals(adherence.loadErrorKwh!, 0.2);
+  assertEquals(adherence.plannedCost, 0.1);
+  assertAlmostEquals(adherence.costDelta!, 0.05);
+
+  const withoutEnergy = scoreSegment(SEGMENT, [], null, false, START + 31 * MINUTE);
+  assertEquals([withoutEnergy.coveredSeconds, withoutEnergy.actualEndBatteryKwh, withoutEnergy.costDelta], [0, null, null]);
+});
+
+Deno.test("accepts any charge rate while charge rate control steers a grid charge", () => {
+  const gridCharge = { ...SEGMENT, mode: OutputsMode.ChargeFromGridAndSolar };
+  const metrics = [metric(0, "Battery first", 40), metric(5, "Battery first", 60), metric(10, "Battery first", 0)];
+
+  assertEquals(scoreSegment(gridCharge, metrics, null, true, 0).chargeRateMatchSeconds, 10 * 60);
+  assertEquals(scoreSegment(gridCharge, metrics, null, false, 0).chargeRateMatchSeconds, 0);
+});
+
+Deno.test("summarises segments, costing only those with recorded energy", () => {
+  const scored = scoreSegment(SEGMENT, [metric(0, "Battery first", 0), metric(5, "Load first", 0)], ENERGY, false, 0);
+  const unrecorded = scoreSegment(SEGMENT, [], null, false, 0);
+  const summary = summarizeAdherence("2025-06-02", "2025-06-02", [scored, unrecorded]);
+
+  assertEquals(summary.segmentCount, 2);
+  assertEquals(summary.workModeMatchPercent, 50);
+  assertEquals(summary.chargeRateMatchPercent, 100);
+  assertAlmostEquals(summary.plannedCost, 0.1);
+  assertAlmostEquals(summary.costDelta, 0.05);
+  assertEquals(summarizeAdherence("2025-06-03", "2025-06-03", []).workModeMatchPercent, null);
+});
+
+Deno.test("scores each segment once after it ends and reports its day and week", () => {
+  const database = new DatabaseService(":memory:");
+  database.insertMetric(metric(0, "Battery first", 0));
+  const schedule = { getAllSegments: () => [SEGMENT] } as unknown as ScheduleService;
+  const integrator = { flush: () => {} } as unknown as EnergyIntegrator;
+
+  // A tracker starting before the segment ends picks it up once it has settled
+  const tracker = new AdherenceTracker(database, schedule, integrator, false);
+  const end = START + 30 * MINUTE;
+  assertEquals(tracker.scoreEndedSegments(end).length, 0);
+  assertEquals(tracker.scoreEndedSegments(end + 2 * MINUTE).length, 1);
+  assertEquals(tracker.scoreEndedSegments(end + 3 * MINUTE).length, 0);
+
+  // 2025-06-02 is a Monday
+  const report = tracker.getReport(Temporal.PlainDate.from("2025-06-04"));
+  assertEquals(report.segments, []);
+  assertEquals(report.week.from, "2025-06-02");
+  assertEquals(report.week.segmentCount, 1);
+  assertEquals(report.weekDays.map(day => day.segmentCount), [1, 0, 0, 0, 0, 0, 0]);
+  assertEquals(report.week.workModeMatchPercent, 100);
+
+  database.close();
+});
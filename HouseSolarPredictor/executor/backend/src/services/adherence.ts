@@ -0,0 +1,118 @@
+import {AdherenceSummary, MetricInstance, OutputsMode, SegmentAdherence, SegmentEnergy} from "@shared";
+import type {BackendTimeSegment} from "../../time/backend-time-segment.ts";
+import {settingsForMode} from "./mode-settings.ts";
+
+export const MAX_READING_HOLD_MS = 5 * 60_000; // a reading stands for at most this long, so outages don't count as matching
+const CHARGE_RATE_TOLERANCE = 5; // percentage points
+
+/**
+ * Scores a finished segment against the readings recorded during it. Each reading stands until
+ * the next one, so the match figures are time-weighted. While charge rate control is steering a
+ * grid charge the planned rate moves, so any non-zero rate counts as matching.
+ */
+export function scoreSegment(
+  segment: BackendTimeSegment,
+  metrics: MetricInstance[],
+  energy: SegmentEnergy | null,
+  chargeRateControlled: boolean,
+  scoredAt: number
+): SegmentAdherence {
+  const start = segment.time.segmentStart.epochMilliseconds;
+  const end = segment.time.segmentEnd.epochMilliseconds;
+  const planned = settingsForMode(segment.mode);
+  const closedLoop = chargeRateControlled && segment.mode === OutputsMode.ChargeFromGridAndSolar;
+
+  let coveredMs = 0;
+  let workModeMatchMs = 0;
+  let chargeRateMatchMs = 0;
+  metrics.forEach((metric, index) => {
+    const until = Math.min(metrics[index + 1]?.timestamp ?? end, end, metric.timestamp + MAX_READING_HOLD_MS);
+    const duration = Math.max(0, until - Math.max(metric.timestamp, start));
+    coveredMs += duration;
+    if (metric.workModePriority === planned.workMode) {
+      workModeMatchMs += duration;
+    }
+    const rateMatches = closedLoop
+      ? metric.batteryChargeRate > 0
+      : Math.abs(metric.batteryChargeRate - planned.chargeRate) <= CHARGE_RATE_TOLERANCE;
+    if (rateMatches) {
+      chargeRateMatchMs += duration;
+    }
+  });
+
+  const last = metrics[metrics.length - 1];
+  const actualEndBatteryKwh = last && last.batteryCapacity > 0 && end - last.timestamp <= MAX_READING_HOLD_MS
+    ? (last.batteryChargePercent / 100) * last.batteryCapacity
+    : null;
+  const plannedCost = plannedCostOf(segment);
+  const actualCost = energy ? energy.cost.netCost : null;
+
+  return {
+    segmentStart: start,
+    segmentEnd: end,
+    mode: segment.mode,
+    plannedWorkMode: planned.workMode,
+    plannedChargeRate: planned.chargeRate,
+    coveredSeconds: coveredMs / 1000,
+    workModeMatchSeconds: workModeMatchMs / 1000,
+    chargeRateMatchSeconds: chargeRateMatchMs / 1000,
+    plannedEndBatteryKwh: segment.endBatteryChargeKwh,
+    actualEndBatteryKwh,
+    batteryErrorKwh: difference(actualEndBatteryKwh, segment.endBatteryChargeKwh),
+    forecastSolarKwh: segment.expectedSolarGeneration,
+    actualSolarKwh: energy ? energy.solarKwh : null,
+    solarErrorKwh: difference(energy?.solarKwh ?? null, segment.expectedSolarGeneration),
+    forecastLoadKwh: segment.expectedConsumption,
+    actualLoadKwh: energy ? energy.loadKwh : null,
+    loadErrorKwh: difference(energy?.loadKwh ?? null, segment.expectedConsumption),
+    plannedCost,
+    actualCost,
+    costDelta: difference(actualCost, plannedCost),
+    scoredAt
+  };
+}
+
+/**
+ * Totals for a set of scored segments. Match percentages are of the time with readings, and costs
+ * only count segments with recorded energy so the planned and actual costs compare like for like.
+ */
+export function summarizeAdherence(from: string, to: string, segments: SegmentAdherence[]): AdherenceSummary {
+  const covered = sum(segments, segment => segment.coveredSeconds);
+  const batteryErrors = segments.flatMap(segment => segment.batteryErrorKwh === null ? [] : [Math.abs(segment.batteryErrorKwh)]);
+  const costed = segments.filter(segment => segment.actualCost !== null);
+
+  return {
+    from,
+    to,
+    segmentCount: segments.length,
+    workModeMatchPercent: covered > 0 ? 100 * sum(segments, segment => segment.workModeMatchSeconds) / covered : null,
+    chargeRateMatchPercent: covered > 0 ? 100 * sum(segments, segment => segment.chargeRateMatchSeconds) / covered : null,
+    meanAbsBatteryErrorKwh: batteryErrors.length > 0 ? batteryErrors.reduce((total, error) => total + error, 0) / batteryErrors.length : null,
+    solarErrorKwh: sum(segments, segment => segment.solarErrorKwh ?? 0),
+    loadErrorKwh: sum(segments, segment => segment.loadErrorKwh ?? 0),
+    plannedCost: sum(costed, segment => segment.plannedCost),
+    actualCost: sum(costed, segment => segment.actualCost!),
+    costDelta: sum(costed, segment => segment.costDelta!)
+  };
+}
+
+// Schedules carry the planner's cost as a number or as { poundsAmount }; without one, the planned grid use is priced
+function plannedCostOf(segment: BackendTimeSegment): number {
+  const cost = segment.cost as unknown;
+  if (typeof cost === "number" && Number.isFinite(cost)) {
+    return cost;
+  }
+  const poundsAmount = (cost as { poundsAmount?: unknown } | undefined)?.poundsAmount;
+  if (typeof poundsAmount === "number" && Number.isFinite(poundsAmount)) {
+    return poundsAmount;
+  }
+  return segment.actualGridUsage * segment.gridPrice;
+}
+
+function difference(actual: number | null, planned: number): number | null {
+  return actual === null ? null : actual - planned;
+}
+
+function sum<T>(items: T[], value: (item: T) => number): number {
+  return items.reduce((total, item) => total + value(item), 0);
+}
@@ -0,0 +1,111 @@
+import {assertEquals} from "@std/assert";
+import {MetricInstance, OutputsMode} from "@shared";
+import {ChargeRateController} from "./charge-rate-controller.ts";
+import {ChargeRateControlConfig} from "../types/chargeRateControlConfig.ts";
+import {BackendTimeSegment} from "../../time/backend-time-segment.ts";
+
+const CONFIG: ChargeRateControlConfig = {
+  enabled: true,
+  maxChargePowerKw: 5,
+  gain: 10,
+  deadbandPercent: 1,
+  minChangePercent: 10,
+  minPublishIntervalSeconds: 300
+};
+
+const SEGMENT_START = Temporal.Instant.from("2025-06-01T01:00:00Z");
+
+// 10 kWh battery planned to go from 2 kWh to 3.25 kWh over half an hour: 2.5 kW, so 50% feedforward
+const SEGMENT: BackendTimeSegment = {
+  time: {
+    segmentStart: SEGMENT_START,
+    segmentEnd: SEGMENT_START.add({ minutes: 30 })
+  },
+  expectedSolarGeneration: 0,
+  gridPrice: 0.07,
+  exportPrice: 0,
+  expectedConsumption: 0.2,
+  startBatteryChargeKwh: 2,
+  endBatteryChargeKwh: 3.25,
+  mode: OutputsMode.ChargeFromGridAndSolar,
+  wastedSolarGeneration: 0,
+  actualGridUsage: 0,
+  cost: 0
+};
+
+function metrics(batteryChargePercent: number): MetricInstance {
+  return {
+    timestamp: 0,
+    batteryChargeRate: 100,
+    workModePriority: "Battery first",
+    loadPower: 300,
+    gridPower: 2800,
+    batteryPower: 2500,
+    batteryCurrent: 50,
+    batteryChargePercent,
+    batteryCapacity: 10,
+    solarPower: 0
+  };
+}
+
+function at(minutes: number): Temporal.Instant {
+  return SEGMENT_START.add({ minutes });
+}
+
+Deno.test("uses the planned charge power when on the line", () => {
+  const controller = new ChargeRateController(CONFIG);
+  const decision = controller.calculate(SEGMENT, metrics(20), at(0));
+  assertEquals(decision.chargeRate, 50);
+  assertEquals(decision.changed, true);
+});
+
+Deno.test("ignores errors inside the deadband", () => {
+  const controller = new ChargeRateController(CONFIG);
+  assertEquals(controller.calculate(SEGMENT, metrics(19.5), at(0)).chargeRate, 50);
+});
+
+Deno.test("charges harder when behind the line and eases off when ahead", () => {
+  assertEquals(new ChargeRateController(CONFIG).calculate(SEGMENT, metrics(17), at(0)).chargeRate, 80);
+  assertEquals(new ChargeRateController(CONFIG).calculate(SEGMENT, metrics(23), at(0)).chargeRate, 20);
+});
+
+Deno.test("clamps between 0 and 100", () => {
+  assertEquals(new ChargeRateController(CONFIG).calculate(SEGMENT, metrics(5), at(0)).chargeRate, 100);
+  assertEquals(new ChargeRateController(CONFIG).calculate(SEGMENT, metrics(40), at(0)).chargeRate, 0);
+});
+
+Deno.test("holds the published rate until the publish interval has passed", () => {
+  const controller = new ChargeRateController(CONFIG);
+  controller.calculate(SEGMENT, metrics(20), at(0));
+
+  const early = controller.calculate(SEGMENT, metrics(15.5), at(2));
+  assertEquals(early.chargeRate, 50);
+  assertEquals(early.changed, false);
+
+  // at 5 minutes the plan expects 22.08%, so 18% is about 4% behind
+  const later = controller.calculate(SEGMENT, metrics(18), at(5));
+  assertEquals(later.changed, true);
+  assertEquals(later.chargeRate, 91);
+});
+
+Deno.test("skips changes smaller than the minimum step", () => {
+  const controller = new ChargeRateController(CONFIG);
+  controller.calculate(SEGMENT, metrics(20), at(0));
+
+  // at 12 minutes the plan expects 25%, so 23.5% is 1.5% behind
+  const decision = controller.calculate(SEGMENT, metrics(23.5), at(12));
+  assertEquals(decision.chargeRate, 65);
+
+  // at 18 minutes the plan expects 27.5%: 1.2% behind wants 62%, only 3% away from what was published
+  const small = controller.calculate(SEGMENT, metrics(26.3), at(18));
+  assertEquals(small.targetChargeRate, 62);
+  assertEquals(small.chargeRate, 65);
+  assertEquals(small.changed, false);
+});
+
+Deno.test("publishes again straight away after a reset", () => {
+  const controller = new ChargeRateController(CONFIG);
+  controller.calculate(SEGMENT, metrics(20), at(0));
+  controller.reset();
+  assertEquals(controller.calculate(SEGMENT, metrics(17), at(1)).changed, true);
+});
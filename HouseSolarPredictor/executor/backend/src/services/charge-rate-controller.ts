@@ -0,0 +1,90 @@
+import {MetricInstance} from "@shared";
+import {BackendTimeSegment} from "../../time/backend-time-segment.ts";
+import {ChargeRateControlConfig} from "../types/chargeRateControlConfig.ts";
+import {getExpectedBatteryKwh} from "./planned-battery-trajectory.ts";
+
+export interface ChargeRateDecision {
+  chargeRate: number;
+  changed: boolean; // true when a new rate should be published
+  targetChargeRate: number; // rate the controller would pick without rate limiting
+  errorPercent: number; // state of charge behind plan (negative when ahead)
+}
+
+/**
+ * Closed-loop grid charge rate that keeps the battery on the planned charge line for the segment.
+ *
+ * The rate is the charge power the plan needs (feedforward) plus a proportional correction for
+ * how far behind or ahead of the line the battery is. Small errors inside the deadband are
+ * ignored, and a new rate is only published when it has moved far enough and enough time has
+ * passed since the last change.
+ */
+export class ChargeRateController {
+  private readonly config: ChargeRateControlConfig;
+  private lastRate: number | null = null;
+  private lastChangeTime = 0;
+
+  constructor(config: ChargeRateControlConfig) {
+    this.config = config;
+  }
+
+  isEnabled(): boolean {
+    return this.config.enabled;
+  }
+
+  calculate(
+    segment: BackendTimeSegment,
+    currentMetrics: MetricInstance,
+    now: Temporal.Instant = Temporal.Now.instant()
+  ): ChargeRateDecision {
+    const capacityKwh = currentMetrics.batteryCapacity;
+    if (capacityKwh <= 0) {
+      // Can't work out where the battery is against the plan, so charge as the open-loop mode would
+      return this.applyRateLimit(100, 0, now);
+    }
+
+    const segmentHours = segment.time.segmentStart.until(segment.time.segmentEnd).total("hours");
+    const plannedChargeKw = (segment.endBatteryChargeKwh - segment.startBatteryChargeKwh) / segmentHours;
+    const feedforwardRate = (plannedChargeKw / this.config.maxChargePowerKw) * 100;
+
+    const currentKwh = (currentMetrics.batteryChargePercent / 100) * capacityKwh;
+    const expectedKwh = getExpectedBatteryKwh(segment, now);
+    const errorPercent = ((expectedKwh - currentKwh) / capacityKwh) * 100;
+    const correction = Math.abs(errorPercent) <= this.config.deadbandPercent ? 0 : this.config.gain * errorPercent;
+
+    const targetRate = Math.round(Math.max(0, Math.min(100, feedforwardRate + correction)));
+    return this.applyRateLimit(targetRate, errorPercent, now);
+  }
+
+  /**
+   * Forgets the last published rate, so the next calculation publishes straight away
+   */
+  reset(): void {
+    this.lastRate = null;
+    this.lastChangeTime = 0;
+  }
+
+  private applyRateLimit(targetRate: number, errorPercent: number, now: Temporal.Instant): ChargeRateDecision {
+    const nowMs = now.epochMilliseconds;
+
+    if (this.lastRate === null || this.shouldPublish(targetRate, nowMs)) {
+      const changed = this.lastRate !== targetRate;
+      if (changed) {
+        this.lastRate = targetRate;
+        this.lastChangeTime = nowMs;
+      }
+      return { chargeRate: targetRate, changed, targetChargeRate: targetRate, errorPercent };
+    }
+
+    return { chargeRate: this.lastRate, changed: false, targetChargeRate: targetRate, errorPercent };
+  }
+
+  private shouldPublish(targetRate: number, nowMs: number): boolean {
+    if (nowMs - this.lastChangeTime < this.config.minPublishIntervalSeconds * 1000) {
+      return false;
+    }
+
+    // Always let the rate reach fully off or fully on, even by a small step
+    const reachesLimit = (targetRate === 0 || targetRate === 100) && targetRate !== this.lastRate;
+    return reachesLimit || Math.abs(targetRate - this.lastRate!) >= this.config.minChangePercent;
+  }
+}
@@ -0,0 +1,129 @@
+import {assertEquals} from "@std/assert";
+import {ControlAction} from "@shared";
+import {CommandResult, CommandTracker, parseInverterResponse} from "./command-tracker.ts";
+import {DatabaseService} from "./database.ts";
+
+function workModeAction(): ControlAction {
+  return {
+    timestamp: Temporal.Now.instant().epochMilliseconds,
+    actionType: "work_mode",
+    targetValue: "Battery first",
+    success: false,
+    retryCount: 0
+  };
+}
+
+function chargeRateAction(rate: number): ControlAction {
+  return { ...workModeAction(), actionType: "charge_rate", targetValue: rate.toString() };
+}
+
+function setup(timeoutSeconds = 60) {
+  const database = new DatabaseService(":memory:");
+  const tracker = new CommandTracker(database, timeoutSeconds);
+  const results: CommandResult[] = [];
+  tracker.onComplete(result => results.push(result));
+  return { database, tracker, results };
+}
+
+function storedAction(database: DatabaseService): ControlAction {
+  return database.getRecentControlActions(1)[0]!;
+}
+
+Deno.test("classifies Solar Assistant responses", () => {
+  assertEquals(parseInverterResponse("Saved"), "ack");
+  assertEquals(parseInverterResponse("OK"), "ack");
+  assertEquals(parseInverterResponse("Error: value out of range"), "nack");
+  assertEquals(parseInverterResponse("Failed to write setting"), "nack");
+  assertEquals(parseInverterResponse("Could not reach inverter"), "nack");
+  assertEquals(parseInverterResponse("Working on it"), "unknown");
+});
+
+Deno.test("records a command as sent", () => {
+  const { database, tracker } = setup();
+  tracker.start(workModeAction());
+
+  assertEquals(storedAction(database).status, "sent");
+  assertEquals(tracker.getPending()?.status, "sent");
+  tracker.cancel();
+  database.close();
+});
+
+Deno.test("a positive response acknowledges but does not confirm", () => {
+  const { database, tracker, results } = setup();
+  tracker.start(workModeAction());
+  tracker.handleResponse("Saved");
+
+  assertEquals(results.length, 0);
+  assertEquals(tracker.getPending()?.status, "acknowledged");
+  const stored = storedAction(database);
+  assertEquals(stored.status, "acknowledged");
+  assertEquals(stored.acknowledgedAt !== undefined, true);
+  tracker.cancel();
+  database.close();
+});
+
+Deno.test("confirms when the state topic echoes the new value", () => {
+  const { database, tracker, results } = setup();
+  tracker.start(workModeAction());
+  tracker.handleResponse("Saved");
+  tracker.handleStateUpdate("work_mode", "Load first");
+  assertEquals(results.length, 0);
+
+  tracker.handleStateUpdate("work_mode", "Battery first");
+  assertEquals(results.length, 1);
+  assertEquals(results[0]!.success, true);
+  assertEquals(results[0]!.status, "confirmed");
+  assertEquals(tracker.getPending(), undefined);
+
+  const stored = storedAction(database);
+  assertEquals(stored.status, "confirmed");
+  assertEquals(Boolean(stored.success), true);
+  assertEquals(stored.completedAt !== undefined, true);
+  database.close();
+});
+
+Deno.test("confirms a charge rate within 1% without waiting for a response", () => {
+  const { database, tracker, results } = setup();
+  tracker.start(chargeRateAction(50));
+  tracker.handleStateUpdate("work_mode", "50");
+  tracker.handleStateUpdate("charge_rate", "40");
+  assertEquals(results.length, 0);
+
+  tracker.handleStateUpdate("charge_rate", "50.4");
+  assertEquals(results[0]?.status, "confirmed");
+  database.close();
+});
+
+Deno.test("rejects on a negative response", () => {
+  const { database, tracker, results } = setup();
+  tracker.start(chargeRateAction(100));
+  tracker.handleResponse("Error: setting not supported");
+
+  assertEquals(results.length, 1);
+  assertEquals(results[0]!.success, false);
+  assertEquals(results[0]!.status, "rejected");
+  assertEquals(storedAction(database).status, "rejected");
+  database.close();
+});
+
+Deno.test("ignores responses that can't be classified", () => {
+  const { database, tracker, results } = setup();
+  tracker.start(workModeAction());
+  assertEquals(tracker.handleResponse("Queued"), "unknown");
+
+  assertEquals(results.length, 0);
+  assertEquals(storedAction(database).status, "sent");
+  tracker.cancel();
+  database.close();
+});
+
+Deno.test("times out when nothing confirms the command", async () => {
+  const { database, tracker, results } = setup(0.05);
+  tracker.start(workModeAction());
+  await new Promise(resolve => setTimeout(resolve, 100));
+
+  assertEquals(results.length, 1);
+  assertEquals(results[0]!.status, "timed_out");
+  assertEquals(storedAction(database).status, "timed_out");
+  database.close();
+});
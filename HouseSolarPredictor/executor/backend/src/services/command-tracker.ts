@@ -0,0 +1,135 @@
+import {ControlAction, ControlActionStatus} from "@shared";
+import {DatabaseService} from "./database.ts";
+
+export type InverterResponse = "ack" | "nack" | "unknown";
+
+export interface CommandResult {
+  action: ControlAction;
+  success: boolean;
+  status: ControlActionStatus;
+  message: string;
+}
+
+/**
+ * Classifies a Solar Assistant `response_message` payload ("Saved", "Error: ...", etc.)
+ */
+export function parseInverterResponse(message: string): InverterResponse {
+  const text = message.trim().toLowerCase();
+  if (/\b(error|fail|failed|failure|invalid|denied|rejected|unable|cannot|timeout|timed out)\b/.test(text) ||
+      text.includes("could not")) {
+    return "nack";
+  }
+  if (/\b(saved|success|successful|ok|done|accepted)\b/.test(text)) {
+    return "ack";
+  }
+  return "unknown";
+}
+
+/**
+ * Follows a single command from publish to completion.
+ *
+ * A command is confirmed as soon as the matching state topic reports the new value, rejected on a
+ * negative response message and timed out if neither happens in time. A positive response message
+ * on its own only marks the command acknowledged; the state echo is what confirms it. Every step
+ * is persisted to control_actions.
+ */
+export class CommandTracker {
+  private readonly databaseService: DatabaseService;
+  private readonly timeoutMs: number;
+  private pending: ControlAction | null = null;
+  private timeoutTimer?: ReturnType<typeof setTimeout>;
+  private completionHandler: (result: CommandResult) => void = () => {};
+
+  constructor(databaseService: DatabaseService, timeoutSeconds: number) {
+    this.databaseService = databaseService;
+    this.timeoutMs = timeoutSeconds * 1000;
+  }
+
+  onComplete(handler: (result: CommandResult) => void): void {
+    this.completionHandler = handler;
+  }
+
+  /**
+   * Records a command that is about to be published and starts its timeout
+   */
+  start(action: ControlAction): ControlAction {
+    this.cancel();
+
+    const sent: ControlAction = { ...action, status: "sent", success: false };
+    const id = this.databaseService.insertControlAction(sent);
+    this.pending = { ...sent, id };
+
+    this.timeoutTimer = setTimeout(() => {
+      this.complete("timed_out", `No confirmation within ${this.timeoutMs / 1000}s`);
+    }, this.timeoutMs);
+
+    return this.pending;
+  }
+
+  handleResponse(message: string): InverterResponse {
+    const response = parseInverterResponse(message);
+    if (!this.pending) {
+      return response;
+    }
+
+    if (response === "nack") {
+      this.complete("rejected", `Inverter response: ${message}`);
+    } else if (response === "ack" && this.pending.status === "sent") {
+      this.pending = { ...this.pending, status: "acknowledged", acknowledgedAt: Temporal.Now.instant().epochMilliseconds };
+      this.databaseService.updateControlActionStatus(this.pending.id!, "acknowledged", `Inverter response: ${message}`);
+    }
+
+    return response;
+  }
+
+  /**
+   * Checks a state topic update against the pending command, confirming it when they match
+   */
+  handleStateUpdate(actionType: ControlAction["actionType"], value: string): void {
+    if (!this.pending || this.pending.actionType !== actionType) {
+      return;
+    }
+
+    const matches = actionType === "charge_rate"
+      ? Math.abs(parseFloat(value) - parseFloat(this.pending.targetValue)) < 1 // Allow 1% tolerance
+      : value === this.pending.targetValue;
+
+    if (matches) {
+      const label = actionType === "charge_rate" ? "Charge rate" : "Work mode";
+      this.complete("confirmed", `${label} confirmed at ${value}`);
+    }
+  }
+
+  getPending(): ControlAction | undefined {
+    return this.pending ?? undefined;
+  }
+
+  /**
+   * Stops tracking the pending command without reporting an outcome
+   */
+  cancel(): void {
+    if (this.timeoutTimer !== undefined) {
+      clearTimeout(this.timeoutTimer);
+      this.timeoutTimer = undefined;
+    }
+    this.pending = null;
+  }
+
+  private complete(status: ControlActionStatus, message: string): void {
+    const action = this.pending;
+    if (!action) {
+      return;
+    }
+
+    this.cancel();
+    this.databaseService.updateControlActionStatus(action.id!, status, message);
+
+    const success = status === "confirmed";
+    this.completionHandler({
+      action: { ...action, status, success, responseMessage: message, completedAt: Temporal.Now.instant().epochMilliseconds },
+      success,
+      status,
+      message
+    });
+  }
+}
@@ -1,4 +1,159 @@
 import {AppConfig} from "../types/appConfig.ts";
+import {MqttConfig} from "../types/mqttConfig.ts";
+import {ProtectionsConfig} from "../types/protectionsConfig.ts";
+import {MeteringConfig} from "../types/meteringConfig.ts";
+import {TelemetryWatchdogConfig} from "../types/telemetryWatchdogConfig.ts";
+import {ChargeRateControlConfig} from "../types/chargeRateControlConfig.ts";
+import {InverterDriverConfig, SolarAssistantDriverConfig} from "../types/inverterDriverConfig.ts";
+import {StatePublishingConfig} from "../types/statePublishingConfig.ts";
+import {TelemetryRecordingConfig} from "../types/telemetryRecordingConfig.ts";
+import {TariffConfig} from "../types/tariffConfig.ts";
+import {TariffImportConfig} from "../types/tariffImportConfig.ts";
+import {ScheduleValidationConfig} from "../types/scheduleValidationConfig.ts";
+import {ForecastActualsConfig} from "../types/forecastActualsConfig.ts";
+import {ReplanningConfig} from "../types/replanningConfig.ts";
+
+const DEFAULT_PROTECTIONS_CONFIG: ProtectionsConfig = {
+  battery: {
+    enabled: true,
+    activationPercent: 2,
+    deactivationPercent: 3,
+    minChargeRate: 1
+  },
+  wastedSolar: {
+    enabled: true,
+    activationPercent: 97,
+    deactivationPercent: 95,
+    startHour: 8,
+    endHour: 18
+  },
+  batteryOvercharge: {
+    enabled: true,
+    activationThresholdPercent: 10,
+    deactivationThresholdPercent: 5
+  },
+  gridExport: {
+    enabled: false,
+    exportLimitKw: 3.68,
+    releaseKw: 3.0,
+    sustainSeconds: 60
+  },
+  gridImport: {
+    enabled: false,
+    importLimitKw: 15,
+    headroomKw: 1,
+    stepPercent: 10,
+    averagingSeconds: 60
+  }
+};
+
+const DEFAULT_METERING_CONFIG: MeteringConfig = {
+  exportSign: -1
+};
+
+const DEFAULT_TELEMETRY_WATCHDOG_CONFIG: TelemetryWatchdogConfig = {
+  enabled: false,
+  maxAgeSeconds: 120,
+  metricMaxAgeSeconds: {},
+  action: "hold",
+  safeWorkMode: "Battery first",
+  safeChargeRate: 0
+};
+
+const DEFAULT_CHARGE_RATE_CONTROL_CONFIG: ChargeRateControlConfig = {
+  enabled: false,
+  maxChargePowerKw: 5,
+  gain: 10,
+  deadbandPercent: 1,
+  minChangePercent: 10,
+  minPublishIntervalSeconds: 300
+};
+
+const DEFAULT_STATE_PUBLISHING_CONFIG: StatePublishingConfig = {
+  enabled: false,
+  baseTopic: "solar_executor",
+  discoveryPrefix: "homeassistant",
+  deviceName: "Solar Executor",
+  intervalSeconds: 10,
+  overrideDurationMinutes: 60
+};
+
+const DEFAULT_TELEMETRY_RECORDING_CONFIG: TelemetryRecordingConfig = {
+  enabled: false,
+  flushIntervalSeconds: 10,
+  rollupIntervalMinutes: 5,
+  maxHoldSeconds: 300,
+  rawRetentionHours: 48,
+  oneMinuteRetentionDays: 14,
+  fiveMinuteRetentionDays: 90,
+  thirtyMinuteRetentionDays: 730
+};
+
+const DEFAULT_TARIFF_CONFIG: TariffConfig = {
+  standingChargePerDay: 0,
+  vatPercent: 0,
+  importPrice: 0,
+  exportPrice: 0,
+  bands: []
+};
+
+const DEFAULT_TARIFF_IMPORT_CONFIG: TariffImportConfig = {
+  enabled: false,
+  importDirectory: "tariffs/import",
+  exportDirectory: "tariffs/export",
+  pollIntervalSeconds: 60,
+  priceUnit: "pounds"
+};
+
+const DEFAULT_SCHEDULE_VALIDATION_CONFIG: ScheduleValidationConfig = {
+  batteryCapacityKwh: 0,
+  minPrice: -1,
+  maxPrice: 1
+};
+
+const DEFAULT_FORECAST_ACTUALS_CONFIG: ForecastActualsConfig = {
+  enabled: false,
+  outputPath: "actuals/actuals.json",
+  days: 7,
+  writeIntervalMinutes: 30
+};
+
+const DEFAULT_REPLANNING_CONFIG: ReplanningConfig = {
+  enabled: false,
+  driftThresholdPercent: 15,
+  maxChargePowerKw: 5,
+  maxDischargePowerKw: 5,
+  reservePercent: 10
+};
+
+const DEFAULT_SOLAR_ASSISTANT_CONFIG: SolarAssistantDriverConfig = {
+  inverters: ["inverter_1"],
+  batteries: ["battery_1"],
+  topics: {
+    batteryChargeRate: "solar_assistant/{inverter}/battery_first_charge_rate/state",
+    workModePriority: "solar_assistant/{inverter}/work_mode_priority/state",
+    loadPower: "solar_assistant/{inverter}/load_power/state",
+    gridPower: "solar_assistant/{inverter}/grid_power/state",
+    batteryPower: "solar_assistant/total/battery_power/state",
+    batteryCurrent: "solar_assistant/{battery}/current/state",
+    batteryChargePercent: "solar_assistant/{battery}/state_of_charge/state",
+    batteryCapacity: "solar_assistant/{battery}/capacity/state"
+  },
+  responseTopic: "solar_assistant/set/response_message/state",
+  workModeTopic: "solar_assistant/{inverter}/work_mode_priority/set",
+  chargeRateTopic: "solar_assistant/{inverter}/battery_first_charge_rate/set"
+};
+
+const WATCHED_METRICS = [
+  "batteryChargeRate",
+  "workModePriority",
+  "loadPower",
+  "gridPower",
+  "batteryPower",
+  "batteryCurrent",
+  "batteryChargePercent",
+  "batteryCapacity"
+];
 
 export class ConfigService {
   private config: AppConfig;
@@ -11,6 +166,32 @@ export class ConfigService {
     try {
       const configText = Deno.readTextFileSync(configPath);
       const config = JSON.parse(configText) as AppConfig;
+      config.metering = { ...DEFAULT_METERING_CONFIG, ...config.metering };
+      config.protections = this.applyProtectionDefaults(config.protections);
+      config.telemetryWatchdog = {
+        ...DEFAULT_TELEMETRY_WATCHDOG_CONFIG,
+        ...config.telemetryWatchdog,
+        metricMaxAgeSeconds: { ...config.telemetryWatchdog?.metricMaxAgeSeconds }
+      };
+      config.chargeRateControl = { ...DEFAULT_CHARGE_RATE_CONTROL_CONFIG, ...config.chargeRateControl };
+      config.inverter = {
+        ...config.inverter,
+        driver: config.inverter?.driver ?? "solarAssistant",
+        solarAssistant: {
+          ...DEFAULT_SOLAR_ASSISTANT_CONFIG,
+          ...config.inverter?.solarAssistant,
+          topics: { ...DEFAULT_SOLAR_ASSISTANT_CONFIG.topics, ...config.inverter?.solarAssistant?.topics }
+        }
+      };
+      config.statePublishing = { ...DEFAULT_STATE_PUBLISHING_CONFIG, ...config.statePublishing };
+      config.telemetryRecording = { ...DEFAULT_TELEMETRY_RECORDING_CONFIG, ...config.telemetryRecording };
+      config.tariff = { ...DEFAULT_TARIFF_CONFIG, ...config.tariff };
+      config.tariffImport = { ...DEFAULT_TARIFF_IMPORT_CONFIG, ...config.tariffImport };
+      config.scheduleValidation = { ...DEFAULT_SCHEDULE_VALIDATION_CONFIG, ...config.scheduleValidation };
+      config.forecastActuals = { ...DEFAULT_FORECAST_ACTUALS_CONFIG, ...config.forecastActuals };
+      config.replanning = { ...DEFAULT_REPLANNING_CONFIG, ...config.replanning };
+      config.shadowMode = config.shadowMode ?? false;
+      config.commandTimeoutSeconds = config.commandTimeoutSeconds ?? 60;
 
       this.validateConfig(config);
       
@@ -47,6 +228,316 @@ export class ConfigService {
         current = current[key];
       }
     }
+
+    this.requireRange('commandTimeoutSeconds', config.commandTimeoutSeconds, 5, 600);
+    if (typeof config.shadowMode !== 'boolean') {
+      throw new Error('shadowMode must be true or false');
+    }
+
+    this.validateMqttConfig(config.mqtt);
+    this.validateInverterDriverConfig(config.inverter);
+    this.validateMeteringConfig(config.metering);
+    this.validateProtectionsConfig(config.protections);
+    this.validateTelemetryWatchdogConfig(config.telemetryWatchdog);
+    this.validateChargeRateControlConfig(config.chargeRateControl);
+    this.validateStatePublishingConfig(config.statePublishing);
+    this.validateTelemetryRecordingConfig(config.telemetryRecording);
+    this.validateTariffConfig(config.tariff);
+    this.validateTariffImportConfig(config.tariffImport);
+    this.validateScheduleValidationConfig(config.scheduleValidation);
+    this.validateForecastActualsConfig(config.forecastActuals);
+    this.validateReplanningConfig(config.replanning);
+  }
+
+  private applyProtectionDefaults(protections: Partial<ProtectionsConfig> | undefined): ProtectionsConfig {
+    return {
+      battery: { ...DEFAULT_PROTECTIONS_CONFIG.battery, ...protections?.battery },
+      wastedSolar: { ...DEFAULT_PROTECTIONS_CONFIG.wastedSolar, ...protections?.wastedSolar },
+      batteryOvercharge: { ...DEFAULT_PROTECTIONS_CONFIG.batteryOvercharge, ...protections?.batteryOvercharge },
+      gridExport: { ...DEFAULT_PROTECTIONS_CONFIG.gridExport, ...protections?.gridExport },
+      gridImport: { ...DEFAULT_PROTECTIONS_CONFIG.gridImport, ...protections?.gridImport }
+    };
+  }
+
+  private validateMeteringConfig(metering: MeteringConfig): void {
+    if (metering.exportSign !== 1 && metering.exportSign !== -1) {
+      throw new Error('metering.exportSign must be 1 or -1');
+    }
+  }
+
+  private validateProtectionsConfig(protections: ProtectionsConfig): void {
+    for (const [name, section] of Object.entries(protections)) {
+      if (typeof section.enabled !== 'boolean') {
+        throw new Error(`protections.${name}.enabled must be true or false`);
+      }
+      for (const [key, value] of Object.entries(section)) {
+        if (key !== 'enabled' && (typeof value !== 'number' || !Number.isFinite(value))) {
+          throw new Error(`protections.${name}.${key} must be a number`);
+        }
+      }
+    }
+
+    const { battery, wastedSolar, batteryOvercharge, gridExport, gridImport } = protections;
+    this.requireRange('protections.battery.activationPercent', battery.activationPercent, 0, 100);
+    this.requireRange('protections.battery.deactivationPercent', battery.deactivationPercent, 0, 100);
+    this.requireRange('protections.battery.minChargeRate', battery.minChargeRate, 0, 100);
+    if (battery.deactivationPercent <= battery.activationPercent) {
+      throw new Error('protections.battery.deactivationPercent must be above activationPercent');
+    }
+
+    this.requireRange('protections.wastedSolar.activationPercent', wastedSolar.activationPercent, 0, 100);
+    this.requireRange('protections.wastedSolar.deactivationPercent', wastedSolar.deactivationPercent, 0, 100);
+    this.requireRange('protections.wastedSolar.startHour', wastedSolar.startHour, 0, 23);
+    this.requireRange('protections.wastedSolar.endHour', wastedSolar.endHour, 0, 23);
+    if (wastedSolar.deactivationPercent >= wastedSolar.activationPercent) {
+      throw new Error('protections.wastedSolar.deactivationPercent must be below activationPercent');
+    }
+    if (wastedSolar.startHour > wastedSolar.endHour) {
+      throw new Error('protections.wastedSolar.startHour must not be after endHour');
+    }
+
+    this.requireRange('protections.batteryOvercharge.activationThresholdPercent', batteryOvercharge.activationThresholdPercent, 0, 100);
+    this.requireRange('protections.batteryOvercharge.deactivationThresholdPercent', batteryOvercharge.deactivationThresholdPercent, 0, 100);
+    if (batteryOvercharge.deactivationThresholdPercent >= batteryOvercharge.activationThresholdPercent) {
+      throw new Error('protections.batteryOvercharge.deactivationThresholdPercent must be below activationThresholdPercent');
+    }
+
+    this.requireRange('protections.gridExport.exportLimitKw', gridExport.exportLimitKw, 0, 100);
+    this.requireRange('protections.gridExport.releaseKw', gridExport.releaseKw, 0, 100);
+    this.requireRange('protections.gridExport.sustainSeconds', gridExport.sustainSeconds, 0, 3600);
+    if (gridExport.releaseKw >= gridExport.exportLimitKw) {
+      throw new Error('protections.gridExport.releaseKw must be below exportLimitKw');
+    }
+
+    this.requireRange('protections.gridImport.importLimitKw', gridImport.importLimitKw, 0, 100);
+    this.requireRange('protections.gridImport.headroomKw', gridImport.headroomKw, 0, gridImport.importLimitKw);
+    this.requireRange('protections.gridImport.stepPercent', gridImport.stepPercent, 1, 100);
+    this.requireRange('protections.gridImport.averagingSeconds', gridImport.averagingSeconds, 1, 600);
+  }
+
+  private validateTelemetryWatchdogConfig(watchdog: TelemetryWatchdogConfig): void {
+    if (typeof watchdog.enabled !== 'boolean') {
+      throw new Error('telemetryWatchdog.enabled must be true or false');
+    }
+    this.requireRange('telemetryWatchdog.maxAgeSeconds', watchdog.maxAgeSeconds, 10, 86400);
+    for (const [metric, maxAge] of Object.entries(watchdog.metricMaxAgeSeconds)) {
+      if (!WATCHED_METRICS.includes(metric)) {
+        throw new Error(`telemetryWatchdog.metricMaxAgeSeconds.${metric} is not a known metric. Must be one of: ${WATCHED_METRICS.join(", ")}`);
+      }
+      this.requireRange(`telemetryWatchdog.metricMaxAgeSeconds.${metric}`, maxAge, 10, 86400);
+    }
+    if (watchdog.action !== 'hold' && watchdog.action !== 'safeMode') {
+      throw new Error('telemetryWatchdog.action must be "hold" or "safeMode"');
+    }
+    if (watchdog.safeWorkMode !== 'Battery first' && watchdog.safeWorkMode !== 'Load first') {
+      throw new Error('telemetryWatchdog.safeWorkMode must be "Battery first" or "Load first"');
+    }
+    this.requireRange('telemetryWatchdog.safeChargeRate', watchdog.safeChargeRate, 0, 100);
+  }
+
+  private validateMqttConfig(mqtt: MqttConfig): void {
+    const protocol = mqtt.protocol ?? 'mqtt';
+    if (!['mqtt', 'mqtts', 'ws', 'wss'].includes(protocol)) {
+      throw new Error('mqtt.protocol must be "mqtt", "mqtts", "ws" or "wss"');
+    }
+    this.requireRange('mqtt.port', mqtt.port, 1, 65535);
+    this.requireRange('mqtt.commandMaxAgeSeconds', mqtt.commandMaxAgeSeconds ?? 300, 1, 86400);
+    this.requireRange('mqtt.reconnectMinDelaySeconds', mqtt.reconnectMinDelaySeconds ?? 5, 1, 3600);
+    this.requireRange('mqtt.reconnectMaxDelaySeconds', mqtt.reconnectMaxDelaySeconds ?? 300, mqtt.reconnectMinDelaySeconds ?? 5, 86400);
+
+    const passwordSources = [mqtt.password, mqtt.passwordFile, mqtt.passwordEnv].filter(source => source !== undefined);
+    if (passwordSources.length > 1) {
+      throw new Error('Set only one of mqtt.password, mqtt.passwordFile and mqtt.passwordEnv');
+    }
+
+    if (mqtt.tls) {
+      if (protocol !== 'mqtts' && protocol !== 'wss') {
+        throw new Error('mqtt.tls is only used with the "mqtts" and "wss" protocols');
+      }
+      if (Boolean(mqtt.tls.certPath) !== Boolean(mqtt.tls.keyPath)) {
+        throw new Error('mqtt.tls.certPath and mqtt.tls.keyPath must be set together');
+      }
+    }
+  }
+
+  private validateInverterDriverConfig(inverter: InverterDriverConfig): void {
+    if (inverter.driver === 'solarAssistant') {
+      this.validateSolarAssistantConfig(inverter.solarAssistant);
+      return;
+    }
+    if (inverter.driver !== 'genericMqtt') {
+      throw new Error('inverter.driver must be "solarAssistant" or "genericMqtt"');
+    }
+
+    const generic = inverter.genericMqtt;
+    if (!generic) {
+      throw new Error('inverter.genericMqtt is required when inverter.driver is "genericMqtt"');
+    }
+    for (const metric of WATCHED_METRICS) {
+      const source = generic.telemetry?.[metric as keyof typeof generic.telemetry];
+      if (!source?.topic) {
+        throw new Error(`inverter.genericMqtt.telemetry.${metric}.topic is required`);
+      }
+    }
+    for (const [name, command] of [['workMode', generic.workMode], ['chargeRate', generic.chargeRate]] as const) {
+      if (name === 'chargeRate' && command === undefined) {
+        continue;
+      }
+      if (!command?.topic || !command.payloadTemplate?.includes('{{value}}')) {
+        throw new Error(`inverter.genericMqtt.${name} needs a topic and a payloadTemplate containing {{value}}`);
+      }
+    }
+    this.requireRange('inverter.genericMqtt.minChargeRate', generic.minChargeRate ?? 0, 0, 100);
+    this.requireRange('inverter.genericMqtt.maxChargeRate', generic.maxChargeRate ?? 100, generic.minChargeRate ?? 0, 100);
+  }
+
+  private validateSolarAssistantConfig(solarAssistant: SolarAssistantDriverConfig): void {
+    for (const list of ['inverters', 'batteries'] as const) {
+      const names = solarAssistant[list];
+      if (!Array.isArray(names) || names.length === 0 || names.some(name => typeof name !== 'string' || name === '')) {
+        throw new Error(`inverter.solarAssistant.${list} must list at least one device name`);
+      }
+      if (new Set(names).size !== names.length) {
+        throw new Error(`inverter.solarAssistant.${list} must not repeat a device name`);
+      }
+    }
+
+    for (const [metric, topic] of Object.entries(solarAssistant.topics)) {
+      if (!WATCHED_METRICS.includes(metric)) {
+        throw new Error(`inverter.solarAssistant.topics.${metric} is not a known metric. Must be one of: ${WATCHED_METRICS.join(", ")}`);
+      }
+      if (typeof topic !== 'string' || topic === '') {
+        throw new Error(`inverter.solarAssistant.topics.${metric} must be a topic`);
+      }
+      if (topic.includes('{inverter}') && topic.includes('{battery}')) {
+        throw new Error(`inverter.solarAssistant.topics.${metric} can't contain both {inverter} and {battery}`);
+      }
+    }
+
+    if (solarAssistant.inverters.length > 1) {
+      for (const field of ['workModeTopic', 'chargeRateTopic'] as const) {
+        if (!solarAssistant[field].includes('{inverter}')) {
+          throw new Error(`inverter.solarAssistant.${field} must contain {inverter} when there is more than one inverter`);
+        }
+      }
+    }
+  }
+
+  private validateChargeRateControlConfig(control: ChargeRateControlConfig): void {
+    if (typeof control.enabled !== 'boolean') {
+      throw new Error('chargeRateControl.enabled must be true or false');
+    }
+    this.requireRange('chargeRateControl.maxChargePowerKw', control.maxChargePowerKw, 0.1, 100);
+    this.requireRange('chargeRateControl.gain', control.gain, 0, 100);
+    this.requireRange('chargeRateControl.deadbandPercent', control.deadbandPercent, 0, 50);
+    this.requireRange('chargeRateControl.minChangePercent', control.minChangePercent, 0, 100);
+    this.requireRange('chargeRateControl.minPublishIntervalSeconds', control.minPublishIntervalSeconds, 0, 3600);
+  }
+
+  private validateStatePublishingConfig(publishing: StatePublishingConfig): void {
+    if (typeof publishing.enabled !== 'boolean') {
+      throw new Error('statePublishing.enabled must be true or false');
+    }
+    for (const field of ['baseTopic', 'discoveryPrefix'] as const) {
+      const topic = publishing[field];
+      if (typeof topic !== 'string' || topic === '' || /[#+]/.test(topic) || topic.endsWith('/')) {
+        throw new Error(`statePublishing.${field} must be a topic without wildcards or a trailing /`);
+      }
+    }
+    this.requireRange('statePublishing.intervalSeconds', publishing.intervalSeconds, 1, 3600);
+    this.requireRange('statePublishing.overrideDurationMinutes', publishing.overrideDurationMinutes, 1, 48 * 60);
+  }
+
+  private validateTelemetryRecordingConfig(recording: TelemetryRecordingConfig): void {
+    if (typeof recording.enabled !== 'boolean') {
+      throw new Error('telemetryRecording.enabled must be true or false');
+    }
+    this.requireRange('telemetryRecording.flushIntervalSeconds', recording.flushIntervalSeconds, 1, 600);
+    this.requireRange('telemetryRecording.rollupIntervalMinutes', recording.rollupIntervalMinutes, 1, 60);
+    this.requireRange('telemetryRecording.maxHoldSeconds', recording.maxHoldSeconds, 1, 3600);
+    this.requireRange('telemetryRecording.rawRetentionHours', recording.rawRetentionHours, 1, 24 * 90);
+    this.requireRange('telemetryRecording.oneMinuteRetentionDays', recording.oneMinuteRetentionDays, 1, 3650);
+    this.requireRange('telemetryRecording.fiveMinuteRetentionDays', recording.fiveMinuteRetentionDays, 1, 3650);
+    this.requireRange('telemetryRecording.thirtyMinuteRetentionDays', recording.thirtyMinuteRetentionDays, 1, 3650);
+  }
+
+  private validateTariffConfig(tariff: TariffConfig): void {
+    for (const key of ['standingChargePerDay', 'vatPercent', 'importPrice', 'exportPrice'] as const) {
+      if (typeof tariff[key] !== 'number' || !Number.isFinite(tariff[key])) {
+        throw new Error(`tariff.${key} must be a number`);
+      }
+    }
+    this.requireRange('tariff.standingChargePerDay', tariff.standingChargePerDay, 0, Number.MAX_VALUE);
+    this.requireRange('tariff.vatPercent', tariff.vatPercent, 0, 100);
+
+    if (!Array.isArray(tariff.bands)) {
+      throw new Error('tariff.bands must be a list');
+    }
+    tariff.bands.forEach((band, index) => {
+      for (const key of ['start', 'end'] as const) {
+        // Bands line up with the half-hour schedule segments
+        if (typeof band[key] !== 'string' || !/^([01]\d|2[0-3]):(00|30)$/.test(band[key])) {
+          throw new Error(`tariff.bands[${index}].${key} must be a time on the hour or half hour, like "07:30"`);
+        }
+      }
+      if (typeof band.importPrice !== 'number' || !Number.isFinite(band.importPrice)) {
+        throw new Error(`tariff.bands[${index}].importPrice must be a number`);
+      }
+      if (band.exportPrice !== undefined && (typeof band.exportPrice !== 'number' || !Number.isFinite(band.exportPrice))) {
+        throw new Error(`tariff.bands[${index}].exportPrice must be a number`);
+      }
+    });
+  }
+
+  private validateTariffImportConfig(tariffImport: TariffImportConfig): void {
+    if (typeof tariffImport.enabled !== 'boolean') {
+      throw new Error('tariffImport.enabled must be true or false');
+    }
+    for (const key of ['importDirectory', 'exportDirectory'] as const) {
+      if (typeof tariffImport[key] !== 'string' || tariffImport[key] === '') {
+        throw new Error(`tariffImport.${key} must be a directory path`);
+      }
+    }
+    this.requireRange('tariffImport.pollIntervalSeconds', tariffImport.pollIntervalSeconds, 5, 86400);
+    if (tariffImport.priceUnit !== 'pounds' && tariffImport.priceUnit !== 'pence') {
+      throw new Error('tariffImport.priceUnit must be "pounds" or "pence"');
+    }
+  }
+
+  private validateScheduleValidationConfig(scheduleValidation: ScheduleValidationConfig): void {
+    this.requireRange('scheduleValidation.batteryCapacityKwh', scheduleValidation.batteryCapacityKwh, 0, 1000);
+    this.requireRange('scheduleValidation.minPrice', scheduleValidation.minPrice, -100, 100);
+    this.requireRange('scheduleValidation.maxPrice', scheduleValidation.maxPrice, scheduleValidation.minPrice, 100);
+  }
+
+  private validateForecastActualsConfig(forecastActuals: ForecastActualsConfig): void {
+    if (typeof forecastActuals.enabled !== 'boolean') {
+      throw new Error('forecastActuals.enabled must be true or false');
+    }
+    if (typeof forecastActuals.outputPath !== 'string' || !/\.(json|csv)$/i.test(forecastActuals.outputPath)) {
+      throw new Error('forecastActuals.outputPath must be a .json or .csv file path');
+    }
+    this.requireRange('forecastActuals.days', forecastActuals.days, 1, 366);
+    this.requireRange('forecastActuals.writeIntervalMinutes', forecastActuals.writeIntervalMinutes, 1, 1440);
+  }
+
+  private validateReplanningConfig(replanning: ReplanningConfig): void {
+    if (typeof replanning.enabled !== 'boolean') {
+      throw new Error('replanning.enabled must be true or false');
+    }
+    this.requireRange('replanning.driftThresholdPercent', replanning.driftThresholdPercent, 1, 100);
+    this.requireRange('replanning.maxChargePowerKw', replanning.maxChargePowerKw, 0.1, 100);
+    this.requireRange('replanning.maxDischargePowerKw', replanning.maxDischargePowerKw, 0.1, 100);
+    this.requireRange('replanning.reservePercent', replanning.reservePercent, 0, 100);
+  }
+
+  private requireRange(field: string, value: unknown, min: number, max: number): void {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      throw new Error(`${field} must be a number`);
+    }
+    if (value < min || value > max) {
+      throw new Error(`${field} must be between ${min} and ${max}`);
+    }
   }
 
   getConfig(): AppConfig {
@@ -84,4 +575,60 @@ export class ConfigService {
   getLogLevel(): string {
     return this.config.logLevel || "INFO";
   }
+
+  getInverterDriverConfig(): InverterDriverConfig {
+    return this.config.inverter;
+  }
+
+  getMeteringConfig(): MeteringConfig {
+    return this.config.metering;
+  }
+
+  getProtectionsConfig(): ProtectionsConfig {
+    return this.config.protections;
+  }
+
+  getTelemetryWatchdogConfig(): TelemetryWatchdogConfig {
+    return this.config.telemetryWatchdog;
+  }
+
+  getCommandTimeoutSeconds(): number {
+    return this.config.commandTimeoutSeconds;
+  }
+
+  isShadowMode(): boolean {
+    return this.config.shadowMode;
+  }
+
+  getChargeRateControlConfig(): ChargeRateControlConfig {
+    return this.config.chargeRateControl;
+  }
+
+  getStatePublishingConfig(): StatePublishingConfig {
+    return this.config.statePublishing;
+  }
+
+  getTelemetryRecordingConfig(): TelemetryRecordingConfig {
+    return this.config.telemetryRecording;
+  }
+
+  getTariffConfig(): TariffConfig {
+    return this.config.tariff;
+  }
+
+  getTariffImportConfig(): TariffImportConfig {
+    return this.config.tariffImport;
+  }
+
+  getScheduleValidationConfig(): ScheduleValidationConfig {
+    return this.config.scheduleValidation;
+  }
+
+  getForecastActualsConfig(): ForecastActualsConfig {
+    return this.config.forecastActuals;
+  }
+
+  getReplanningConfig(): ReplanningConfig {
+    return this.config.replanning;
+  }
 }
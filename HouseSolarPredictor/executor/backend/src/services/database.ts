@@ -1,9 +1,53 @@
 import { DatabaseSync } from "node:sqlite";
-import {ControlAction, MetricInstance} from "@shared";
+import {
+  ControlAction,
+  ControlActionStatus,
+  CostBreakdown,
+  DailyEnergy,
+  EnergyTotals,
+  InverterMode,
+  ManualOverride,
+  MetricInstance,
+  OutputsMode,
+  ProtectionAction,
+  ProtectionEvent,
+  ScheduleRevision,
+  SegmentAdherence,
+  ScheduleRevisionSource,
+  ScheduleRevisionWithSchedule,
+  SegmentEnergy,
+  ShadowAction,
+  TariffDirection,
+  TelemetryOutage,
+  TelemetryRollup,
+  TelemetryRollupResolution,
+  TelemetrySample
+} from "@shared";
 import {MetricList} from "@shared";
+import {QueuedMqttMessage} from "../types/queuedMqttMessage.ts";
+import {TariffFileSlot} from "./tariff-file.ts";
+
+const TELEMETRY_ROLLUP_TABLES: Record<TelemetryRollupResolution, string> = {
+  "1m": "telemetry_rollup_1m",
+  "5m": "telemetry_rollup_5m",
+  "30m": "telemetry_rollup_30m"
+};
+
+const ENERGY_COLUMNS = [
+  "import_kwh",
+  "export_kwh",
+  "solar_kwh",
+  "load_kwh",
+  "battery_charge_kwh",
+  "battery_discharge_kwh",
+  "covered_seconds",
+  "import_cost",
+  "export_revenue"
+];
 
 export class DatabaseService {
   private db: DatabaseSync;
+  private telemetryTopicIds: Map<string, number> = new Map();
 
   constructor(dbPath: string) {
     this.db = new DatabaseSync(dbPath);
@@ -37,7 +81,10 @@ export class DatabaseService {
         target_value TEXT NOT NULL,
         success BOOLEAN,
         response_message TEXT,
-        retry_count INTEGER DEFAULT 0
+        retry_count INTEGER DEFAULT 0,
+        status TEXT,
+        acknowledged_at INTEGER,
+        completed_at INTEGER
       )
     `);
 
@@ -51,6 +98,181 @@ export class DatabaseService {
       )
     `);
 
+    // Create manual overrides table
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS manual_overrides (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        created_at INTEGER NOT NULL,
+        start_time INTEGER NOT NULL,
+        end_time INTEGER NOT NULL,
+        mode TEXT NOT NULL,
+        charge_rate REAL,
+        reason TEXT,
+        ended_at INTEGER,
+        end_reason TEXT
+      )
+    `);
+
+    // Create protection events table
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS protection_events (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        timestamp INTEGER NOT NULL,
+        protection_name TEXT NOT NULL,
+        event_type TEXT NOT NULL,
+        planned_work_mode TEXT NOT NULL,
+        planned_charge_rate REAL NOT NULL,
+        override_work_mode TEXT,
+        override_charge_rate REAL,
+        battery_charge_percent REAL,
+        min_charge_rate REAL,
+        max_charge_rate REAL,
+        outcome TEXT,
+        reason TEXT
+      )
+    `);
+
+    // Create telemetry outages table
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS telemetry_outages (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        metric TEXT NOT NULL,
+        last_seen_at INTEGER NOT NULL,
+        started_at INTEGER NOT NULL,
+        ended_at INTEGER
+      )
+    `);
+
+    // Create shadow actions table
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS shadow_actions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        timestamp INTEGER NOT NULL,
+        work_mode TEXT NOT NULL,
+        charge_rate REAL NOT NULL,
+        current_work_mode TEXT,
+        current_charge_rate REAL,
+        battery_charge_percent REAL
+      )
+    `);
+
+    // Create outbound MQTT command queue table (latest command per topic)
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS mqtt_command_queue (
+        topic TEXT PRIMARY KEY,
+        message TEXT NOT NULL,
+        retain INTEGER NOT NULL DEFAULT 0,
+        queued_at INTEGER NOT NULL
+      )
+    `);
+
+    // Create raw telemetry tables: every MQTT reading, with topics stored once and referenced by id
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS telemetry_topics (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        topic TEXT NOT NULL UNIQUE
+      )
+    `);
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS telemetry_raw (
+        topic_id INTEGER NOT NULL,
+        timestamp INTEGER NOT NULL,
+        value REAL,
+        text_value TEXT
+      )
+    `);
+
+    // Create telemetry rollup tables, one per resolution
+    for (const table of Object.values(TELEMETRY_ROLLUP_TABLES)) {
+      this.db.exec(`
+        CREATE TABLE IF NOT EXISTS ${table} (
+          topic_id INTEGER NOT NULL,
+          bucket_start INTEGER NOT NULL,
+          sample_count INTEGER NOT NULL,
+          covered_ms INTEGER NOT NULL,
+          min_value REAL NOT NULL,
+          max_value REAL NOT NULL,
+          avg_value REAL NOT NULL,
+          integral REAL NOT NULL,
+          PRIMARY KEY (topic_id, bucket_start)
+        ) WITHOUT ROWID
+      `);
+      this.db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_${table}_bucket_start ON ${table}(bucket_start)
+      `);
+    }
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS telemetry_rollup_progress (
+        resolution TEXT PRIMARY KEY,
+        rolled_up_until INTEGER NOT NULL
+      )
+    `);
+
+    // Create energy tables: kWh per schedule segment and per day, added to as readings arrive
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS energy_segments (
+        segment_start INTEGER NOT NULL,
+        segment_end INTEGER NOT NULL,
+        ${ENERGY_COLUMNS.map(column => `${column} REAL NOT NULL DEFAULT 0`).join(",\n        ")},
+        PRIMARY KEY (segment_start, segment_end)
+      )
+    `);
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS energy_days (
+        date TEXT PRIMARY KEY,
+        ${ENERGY_COLUMNS.map(column => `${column} REAL NOT NULL DEFAULT 0`).join(",\n        ")}
+      )
+    `);
+
+    // Create tariff price table: half-hour prices imported from price files, newest file wins
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS tariff_prices (
+        direction TEXT NOT NULL,
+        slot_start INTEGER NOT NULL,
+        slot_end INTEGER NOT NULL,
+        price REAL NOT NULL,
+        source TEXT NOT NULL,
+        PRIMARY KEY (direction, slot_start)
+      ) WITHOUT ROWID
+    `);
+
+    // Create schedule revisions table: every schedule that became active, and when
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS schedule_revisions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        activated_at INTEGER NOT NULL,
+        source TEXT NOT NULL,
+        author TEXT NOT NULL,
+        hash TEXT NOT NULL,
+        segment_count INTEGER NOT NULL,
+        restored_from INTEGER,
+        schedule TEXT NOT NULL
+      )
+    `);
+
+    // Create segment adherence table: how closely each finished schedule segment was followed
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS segment_adherence (
+        segment_start INTEGER PRIMARY KEY,
+        segment_end INTEGER NOT NULL,
+        mode TEXT NOT NULL,
+        planned_work_mode TEXT NOT NULL,
+        planned_charge_rate REAL NOT NULL,
+        covered_seconds REAL NOT NULL,
+        work_mode_match_seconds REAL NOT NULL,
+        charge_rate_match_seconds REAL NOT NULL,
+        planned_end_battery_kwh REAL NOT NULL,
+        actual_end_battery_kwh REAL,
+        forecast_solar_kwh REAL NOT NULL,
+        actual_solar_kwh REAL,
+        forecast_load_kwh REAL NOT NULL,
+        actual_load_kwh REAL,
+        planned_cost REAL NOT NULL,
+        actual_cost REAL,
+        scored_at INTEGER NOT NULL
+      )
+    `);
+
     // Create indexes for better query performance
     this.db.exec(`
       CREATE INDEX IF NOT EXISTS idx_metrics_timestamp ON metrics(timestamp)
@@ -61,6 +283,21 @@ export class DatabaseService {
     this.db.exec(`
       CREATE INDEX IF NOT EXISTS idx_system_status_timestamp ON system_status(timestamp)
     `);
+    this.db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_protection_events_timestamp ON protection_events(timestamp)
+    `);
+    this.db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_telemetry_outages_started_at ON telemetry_outages(started_at)
+    `);
+    this.db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_shadow_actions_timestamp ON shadow_actions(timestamp)
+    `);
+    this.db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_telemetry_raw_timestamp ON telemetry_raw(timestamp)
+    `);
+    this.db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_schedule_revisions_activated_at ON schedule_revisions(activated_at)
+    `);
 
     try{
       this.db.exec(`
@@ -70,6 +307,14 @@ export class DatabaseService {
     } catch (error) {
 
     }
+
+    // Command acknowledgement tracking, missing from control_actions tables created before it
+    const controlActionColumns = (this.db.prepare(`PRAGMA table_info(control_actions)`).all() as any[]).map(row => row.name);
+    for (const [name, type] of [["status", "TEXT"], ["acknowledged_at", "INTEGER"], ["completed_at", "INTEGER"]]) {
+      if (!controlActionColumns.includes(name)) {
+        this.db.exec(`ALTER TABLE control_actions ADD COLUMN ${name} ${type}`);
+      }
+    }
   }
 
   insertMetric(metric: MetricInstance): void {
@@ -100,8 +345,8 @@ export class DatabaseService {
   insertControlAction(action: ControlAction): number {
     const stmt = this.db.prepare(`
       INSERT INTO control_actions (
-        timestamp, action_type, target_value, success, response_message, retry_count
-      ) VALUES (?, ?, ?, ?, ?, ?)
+        timestamp, action_type, target_value, success, response_message, retry_count, status
+      ) VALUES (?, ?, ?, ?, ?, ?, ?)
     `);
 
     const result = stmt.run(
@@ -110,20 +355,38 @@ export class DatabaseService {
       action.targetValue,
       action.success ? 1 : 0,
       action.responseMessage ?? null,
-      action.retryCount
+      action.retryCount,
+      action.status ?? null
     );
 
     return result.lastInsertRowid as number;
   }
 
-  updateControlAction(id: number, success: boolean, responseMessage?: string): void {
+  /**
+   * Records a step in a command's acknowledgement state machine
+   */
+  updateControlActionStatus(id: number, status: ControlActionStatus, responseMessage?: string): void {
+    const now = Temporal.Now.instant().epochMilliseconds;
+    const isComplete = status === "confirmed" || status === "rejected" || status === "timed_out";
+
     const stmt = this.db.prepare(`
       UPDATE control_actions 
-      SET success = ?, response_message = ? 
+      SET status = ?,
+          success = ?,
+          response_message = COALESCE(?, response_message),
+          acknowledged_at = COALESCE(acknowledged_at, ?),
+          completed_at = COALESCE(completed_at, ?)
       WHERE id = ?
     `);
 
-    stmt.run(success ? 1 : 0, responseMessage ?? null, id);
+    stmt.run(
+      status,
+      status === "confirmed" ? 1 : 0,
+      responseMessage ?? null,
+      status === "acknowledged" ? now : null,
+      isComplete ? now : null,
+      id
+    );
   }
 
   insertSystemStatus(status: string, message?: string): void {
@@ -156,23 +419,20 @@ export class DatabaseService {
 
     const rows = stmt.all(startTime, endTime) as any[];
 
-    return rows.map(row => ({
-      id: row.id,
-      timestamp: row.timestamp,
-      batteryChargeRate: row.battery_charge_rate,
-      workModePriority: row.work_mode_priority,
-      loadPower: row.load_power,
-      gridPower: row.grid_power,
-      batteryPower: row.battery_power,
-      batteryCurrent: row.battery_current,
-      batteryChargePercent: row.battery_charge_percent,
-      batteryCapacity: row.battery_capacity,
-      solarPower: row.solar_power
-    })).map(m => {
-      return {
-        ...m
-      }
-    });
+    return rows.map(metricFromRow);
+  }
+
+  /**
+   * Readings from `from` up to `to`, oldest first
+   */
+  getMetricsBetween(from: number, to: number): MetricInstance[] {
+    const rows = this.db.prepare(`
+      SELECT * FROM metrics
+      WHERE timestamp >= ? AND timestamp < ?
+      ORDER BY timestamp ASC
+    `).all(from, to) as any[];
+
+    return rows.map(metricFromRow);
   }
 
   getRecentControlActions(hours: number = 24): ControlAction[] {
@@ -193,7 +453,483 @@ export class DatabaseService {
       targetValue: row.target_value,
       success: row.success,
       responseMessage: row.response_message,
-      retryCount: row.retry_count
+      retryCount: row.retry_count,
+      status: row.status ?? undefined,
+      acknowledgedAt: row.acknowledged_at ?? undefined,
+      completedAt: row.completed_at ?? undefined
+    }));
+  }
+
+  getControlActions(date: Temporal.PlainDate): ControlAction[] {
+    const startTime = date.toPlainDateTime('00:00:00').toZonedDateTime('Europe/London').epochMilliseconds;
+    const endTime = date.add({ days: 1 }).toPlainDateTime('00:00:00').toZonedDateTime('Europe/London').epochMilliseconds;
+
+    const stmt = this.db.prepare(`
+      SELECT * FROM control_actions
+      WHERE timestamp >= ? AND timestamp < ?
+      ORDER BY timestamp ASC
+    `);
+
+    const rows = stmt.all(startTime, endTime) as any[];
+
+    return rows.map(row => ({
+      id: row.id,
+      timestamp: row.timestamp,
+      actionType: row.action_type as "work_mode" | "charge_rate",
+      targetValue: row.target_value,
+      success: row.success,
+      responseMessage: row.response_message,
+      retryCount: row.retry_count,
+      status: row.status ?? undefined,
+      acknowledgedAt: row.acknowledged_at ?? undefined,
+      completedAt: row.completed_at ?? undefined
+    }));
+  }
+
+  insertShadowAction(action: ShadowAction): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO shadow_actions (
+        timestamp, work_mode, charge_rate, current_work_mode, current_charge_rate, battery_charge_percent
+      ) VALUES (?, ?, ?, ?, ?, ?)
+    `);
+
+    stmt.run(
+      action.timestamp,
+      action.workMode,
+      action.chargeRate,
+      action.currentWorkMode,
+      action.currentChargeRate,
+      action.batteryChargePercent
+    );
+  }
+
+  getShadowActions(date: Temporal.PlainDate): ShadowAction[] {
+    const startTime = date.toPlainDateTime('00:00:00').toZonedDateTime('Europe/London').epochMilliseconds;
+    const endTime = date.add({ days: 1 }).toPlainDateTime('00:00:00').toZonedDateTime('Europe/London').epochMilliseconds;
+
+    const stmt = this.db.prepare(`
+      SELECT * FROM shadow_actions
+      WHERE timestamp >= ? AND timestamp < ?
+      ORDER BY timestamp ASC
+    `);
+
+    const rows = stmt.all(startTime, endTime) as any[];
+
+    return rows.map(row => ({
+      id: row.id,
+      timestamp: row.timestamp,
+      workMode: row.work_mode as InverterMode,
+      chargeRate: row.charge_rate,
+      currentWorkMode: row.current_work_mode as InverterMode,
+      currentChargeRate: row.current_charge_rate,
+      batteryChargePercent: row.battery_charge_percent
+    }));
+  }
+
+  saveQueuedCommand(command: QueuedMqttMessage): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO mqtt_command_queue (topic, message, retain, queued_at)
+      VALUES (?, ?, ?, ?)
+      ON CONFLICT(topic) DO UPDATE SET message = excluded.message, retain = excluded.retain, queued_at = excluded.queued_at
+    `);
+
+    stmt.run(command.topic, command.message, command.retain ? 1 : 0, command.queuedAt);
+  }
+
+  deleteQueuedCommand(topic: string): void {
+    const stmt = this.db.prepare(`
+      DELETE FROM mqtt_command_queue WHERE topic = ?
+    `);
+
+    stmt.run(topic);
+  }
+
+  getQueuedCommands(): QueuedMqttMessage[] {
+    const stmt = this.db.prepare(`
+      SELECT * FROM mqtt_command_queue ORDER BY queued_at ASC
+    `);
+
+    const rows = stmt.all() as any[];
+
+    return rows.map(row => ({
+      topic: row.topic,
+      message: row.message,
+      retain: Boolean(row.retain),
+      durable: true,
+      queuedAt: row.queued_at
+    }));
+  }
+
+  insertManualOverride(override: ManualOverride): number {
+    const stmt = this.db.prepare(`
+      INSERT INTO manual_overrides (
+        created_at, start_time, end_time, mode, charge_rate, reason
+      ) VALUES (?, ?, ?, ?, ?, ?)
+    `);
+
+    const result = stmt.run(
+      override.createdAt,
+      override.startTime,
+      override.endTime,
+      override.mode,
+      override.chargeRate ?? null,
+      override.reason
+    );
+
+    return result.lastInsertRowid as number;
+  }
+
+  endManualOverride(id: number, endReason: string): void {
+    const stmt = this.db.prepare(`
+      UPDATE manual_overrides 
+      SET ended_at = ?, end_reason = ? 
+      WHERE id = ? AND ended_at IS NULL
+    `);
+
+    stmt.run(Temporal.Now.instant().epochMilliseconds, endReason, id);
+  }
+
+  getCurrentManualOverride(): ManualOverride | null {
+    const stmt = this.db.prepare(`
+      SELECT * FROM manual_overrides 
+      WHERE ended_at IS NULL AND end_time > ? 
+      ORDER BY created_at DESC 
+      LIMIT 1
+    `);
+
+    const row = stmt.get(Temporal.Now.instant().epochMilliseconds) as any;
+    if (!row) {
+      return null;
+    }
+
+    return {
+      id: row.id,
+      createdAt: row.created_at,
+      startTime: row.start_time,
+      endTime: row.end_time,
+      mode: row.mode as OutputsMode,
+      chargeRate: row.charge_rate ?? undefined,
+      reason: row.reason
+    };
+  }
+
+  insertProtectionEvent(event: ProtectionEvent): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO protection_events (
+        timestamp, protection_name, event_type, planned_work_mode, planned_charge_rate,
+        override_work_mode, override_charge_rate, min_charge_rate, max_charge_rate,
+        outcome, reason, battery_charge_percent
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    stmt.run(
+      event.timestamp,
+      event.protectionName,
+      event.eventType,
+      event.plannedWorkMode,
+      event.plannedChargeRate,
+      event.action?.workMode ?? null,
+      event.action?.chargeRate ?? null,
+      event.action?.minChargeRate ?? null,
+      event.action?.maxChargeRate ?? null,
+      event.outcome ?? null,
+      event.reason ?? null,
+      event.batteryChargePercent
+    );
+  }
+
+  getProtectionEvents(date: Temporal.PlainDate): ProtectionEvent[] {
+    const startTime = date.toPlainDateTime('00:00:00').toZonedDateTime('Europe/London').epochMilliseconds;
+    const endTime = date.add({ days: 1 }).toPlainDateTime('00:00:00').toZonedDateTime('Europe/London').epochMilliseconds;
+
+    const stmt = this.db.prepare(`
+      SELECT * FROM protection_events
+      WHERE timestamp >= ? AND timestamp < ?
+      ORDER BY timestamp ASC
+    `);
+
+    const rows = stmt.all(startTime, endTime) as any[];
+
+    return rows.map(row => ({
+      id: row.id,
+      timestamp: row.timestamp,
+      protectionName: row.protection_name,
+      eventType: row.event_type,
+      plannedWorkMode: row.planned_work_mode as InverterMode,
+      plannedChargeRate: row.planned_charge_rate,
+      action: row.event_type === "deactivated" ? undefined : protectionActionFromRow(row),
+      outcome: row.outcome ?? undefined,
+      reason: row.reason ?? undefined,
+      batteryChargePercent: row.battery_charge_percent
+    }));
+  }
+
+  insertTelemetryOutage(outage: TelemetryOutage): number {
+    const stmt = this.db.prepare(`
+      INSERT INTO telemetry_outages (metric, last_seen_at, started_at)
+      VALUES (?, ?, ?)
+    `);
+
+    const result = stmt.run(outage.metric, outage.lastSeenAt, outage.startedAt);
+    return result.lastInsertRowid as number;
+  }
+
+  endTelemetryOutage(id: number, endedAt: number): void {
+    const stmt = this.db.prepare(`
+      UPDATE telemetry_outages
+      SET ended_at = ?
+      WHERE id = ? AND ended_at IS NULL
+    `);
+
+    stmt.run(endedAt, id);
+  }
+
+  closeOpenTelemetryOutages(endedAt: number): void {
+    const stmt = this.db.prepare(`
+      UPDATE telemetry_outages
+      SET ended_at = ?
+      WHERE ended_at IS NULL
+    `);
+
+    stmt.run(endedAt);
+  }
+
+  /**
+   * Outages that overlap the given day, including any still ongoing
+   */
+  getTelemetryOutages(date: Temporal.PlainDate): TelemetryOutage[] {
+    const startTime = date.toPlainDateTime('00:00:00').toZonedDateTime('Europe/London').epochMilliseconds;
+    const endTime = date.add({ days: 1 }).toPlainDateTime('00:00:00').toZonedDateTime('Europe/London').epochMilliseconds;
+
+    const stmt = this.db.prepare(`
+      SELECT * FROM telemetry_outages
+      WHERE started_at < ? AND (ended_at IS NULL OR ended_at >= ?)
+      ORDER BY started_at ASC
+    `);
+
+    const rows = stmt.all(endTime, startTime) as any[];
+
+    return rows.map(row => ({
+      id: row.id,
+      metric: row.metric,
+      lastSeenAt: row.last_seen_at,
+      startedAt: row.started_at,
+      endedAt: row.ended_at ?? undefined
+    }));
+  }
+
+  insertTelemetrySamples(samples: TelemetrySample[]): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO telemetry_raw (topic_id, timestamp, value, text_value)
+      VALUES (?, ?, ?, ?)
+    `);
+
+    this.inTransaction(() => {
+      for (const sample of samples) {
+        stmt.run(this.getTelemetryTopicId(sample.topic), sample.timestamp, sample.value, sample.text ?? null);
+      }
+    });
+  }
+
+  /**
+   * Raw readings from `from` (inclusive) to `to` (exclusive), optionally for one topic, oldest first
+   */
+  getTelemetrySamples(from: number, to: number, topic?: string): TelemetrySample[] {
+    const stmt = this.db.prepare(`
+      SELECT t.topic, r.timestamp, r.value, r.text_value
+      FROM telemetry_raw r
+      JOIN telemetry_topics t ON t.id = r.topic_id
+      WHERE r.timestamp >= ? AND r.timestamp < ? AND (? IS NULL OR t.topic = ?)
+      ORDER BY r.timestamp ASC
+    `);
+
+    const rows = stmt.all(from, to, topic ?? null, topic ?? null) as any[];
+
+    return rows.map(row => ({
+      topic: row.topic,
+      timestamp: row.timestamp,
+      value: row.value,
+      text: row.text_value ?? undefined
+    }));
+  }
+
+  getEarliestTelemetrySampleTime(): number | null {
+    const row = this.db.prepare(`SELECT MIN(timestamp) AS earliest FROM telemetry_raw`).get() as any;
+    return row?.earliest ?? null;
+  }
+
+  deleteTelemetrySamplesBefore(timestamp: number): void {
+    this.db.prepare(`DELETE FROM telemetry_raw WHERE timestamp < ?`).run(timestamp);
+  }
+
+  saveTelemetryRollups(resolution: TelemetryRollupResolution, rollups: TelemetryRollup[]): void {
+    const stmt = this.db.prepare(`
+      INSERT OR REPLACE INTO ${TELEMETRY_ROLLUP_TABLES[resolution]} (
+        topic_id, bucket_start, sample_count, covered_ms, min_value, max_value, avg_value, integral
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    this.inTransaction(() => {
+      for (const rollup of rollups) {
+        stmt.run(
+          this.getTelemetryTopicId(rollup.topic),
+          rollup.bucketStart,
+          rollup.sampleCount,
+          rollup.coveredMs,
+          rollup.min,
+          rollup.max,
+          rollup.avg,
+          rollup.integral
+        );
+      }
+    });
+  }
+
+  /**
+   * Rollups with a bucket starting from `from` (inclusive) to `to` (exclusive), optionally for one topic
+   */
+  getTelemetryRollups(resolution: TelemetryRollupResolution, from: number, to: number, topic?: string): TelemetryRollup[] {
+    const stmt = this.db.prepare(`
+      SELECT t.topic, r.*
+      FROM ${TELEMETRY_ROLLUP_TABLES[resolution]} r
+      JOIN telemetry_topics t ON t.id = r.topic_id
+      WHERE r.bucket_start >= ? AND r.bucket_start < ? AND (? IS NULL OR t.topic = ?)
+      ORDER BY r.bucket_start ASC
+    `);
+
+    const rows = stmt.all(from, to, topic ?? null, topic ?? null) as any[];
+
+    return rows.map(row => ({
+      topic: row.topic,
+      bucketStart: row.bucket_start,
+      sampleCount: row.sample_count,
+      coveredMs: row.covered_ms,
+      min: row.min_value,
+      max: row.max_value,
+      avg: row.avg_value,
+      integral: row.integral
+    }));
+  }
+
+  getEarliestTelemetryRollupTime(resolution: TelemetryRollupResolution): number | null {
+    const row = this.db.prepare(`
+      SELECT MIN(bucket_start) AS earliest FROM ${TELEMETRY_ROLLUP_TABLES[resolution]}
+    `).get() as any;
+    return row?.earliest ?? null;
+  }
+
+  deleteTelemetryRollupsBefore(resolution: TelemetryRollupResolution, timestamp: number): void {
+    this.db.prepare(`DELETE FROM ${TELEMETRY_ROLLUP_TABLES[resolution]} WHERE bucket_start < ?`).run(timestamp);
+  }
+
+  /**
+   * End of the last bucket rolled up at this resolution, or null if nothing has been rolled up yet
+   */
+  getTelemetryRollupProgress(resolution: TelemetryRollupResolution): number | null {
+    const row = this.db.prepare(`
+      SELECT rolled_up_until FROM telemetry_rollup_progress WHERE resolution = ?
+    `).get(resolution) as any;
+    return row?.rolled_up_until ?? null;
+  }
+
+  setTelemetryRollupProgress(resolution: TelemetryRollupResolution, rolledUpUntil: number): void {
+    this.db.prepare(`
+      INSERT OR REPLACE INTO telemetry_rollup_progress (resolution, rolled_up_until) VALUES (?, ?)
+    `).run(resolution, rolledUpUntil);
+  }
+
+  getTelemetryTopics(): string[] {
+    const rows = this.db.prepare(`SELECT topic FROM telemetry_topics ORDER BY topic ASC`).all() as any[];
+    return rows.map(row => row.topic);
+  }
+
+  private getTelemetryTopicId(topic: string): number {
+    const cached = this.telemetryTopicIds.get(topic);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    this.db.prepare(`INSERT OR IGNORE INTO telemetry_topics (topic) VALUES (?)`).run(topic);
+    const row = this.db.prepare(`SELECT id FROM telemetry_topics WHERE topic = ?`).get(topic) as any;
+    this.telemetryTopicIds.set(topic, row.id);
+    return row.id;
+  }
+
+  private inTransaction(work: () => void): void {
+    this.db.exec("BEGIN");
+    try {
+      work();
+      this.db.exec("COMMIT");
+    } catch (error) {
+      this.db.exec("ROLLBACK");
+      throw error;
+    }
+  }
+
+  /**
+   * Adds to the energy recorded for a segment
+   */
+  addSegmentEnergy(energy: SegmentEnergy): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO energy_segments (segment_start, segment_end, ${ENERGY_COLUMNS.join(", ")})
+      VALUES (?, ?, ${ENERGY_COLUMNS.map(() => "?").join(", ")})
+      ON CONFLICT (segment_start, segment_end) DO UPDATE SET
+        ${ENERGY_COLUMNS.map(column => `${column} = ${column} + excluded.${column}`).join(",\n        ")}
+    `);
+
+    stmt.run(energy.segmentStart, energy.segmentEnd, ...energyValues(energy, energy.cost));
+  }
+
+  /**
+   * Adds to the energy recorded for a day
+   */
+  addDailyEnergy(energy: DailyEnergy): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO energy_days (date, ${ENERGY_COLUMNS.join(", ")})
+      VALUES (?, ${ENERGY_COLUMNS.map(() => "?").join(", ")})
+      ON CONFLICT (date) DO UPDATE SET
+        ${ENERGY_COLUMNS.map(column => `${column} = ${column} + excluded.${column}`).join(",\n        ")}
+    `);
+
+    stmt.run(energy.date, ...energyValues(energy, energy.cost));
+  }
+
+  /**
+   * Segments starting from `from` (inclusive) to `to` (exclusive)
+   */
+  getSegmentEnergy(from: number, to: number): SegmentEnergy[] {
+    const stmt = this.db.prepare(`
+      SELECT * FROM energy_segments
+      WHERE segment_start >= ? AND segment_start < ?
+      ORDER BY segment_start ASC
+    `);
+
+    const rows = stmt.all(from, to) as any[];
+
+    return rows.map(row => ({
+      segmentStart: row.segment_start,
+      segmentEnd: row.segment_end,
+      ...energyFromRow(row),
+      cost: costFromRow(row)
+    }));
+  }
+
+  /**
+   * Days from `from` to `to` inclusive, as YYYY-MM-DD
+   */
+  getDailyEnergy(from: string, to: string): DailyEnergy[] {
+    const stmt = this.db.prepare(`
+      SELECT * FROM energy_days
+      WHERE date >= ? AND date <= ?
+      ORDER BY date ASC
+    `);
+
+    const rows = stmt.all(from, to) as any[];
+
+    return rows.map(row => ({
+      date: row.date,
+      ...energyFromRow(row),
+      cost: costFromRow(row)
     }));
   }
 
@@ -217,4 +953,231 @@ export class DatabaseService {
   close(): void {
     this.db.close();
   }
+
+  /**
+   * Stores imported prices, replacing any already stored for the same slots
+   */
+  saveTariffPrices(direction: TariffDirection, slots: TariffFileSlot[], source: string): void {
+    const stmt = this.db.prepare(`
+      INSERT OR REPLACE INTO tariff_prices (direction, slot_start, slot_end, price, source)
+      VALUES (?, ?, ?, ?, ?)
+    `);
+
+    this.inTransaction(() => {
+      for (const slot of slots) {
+        stmt.run(direction, slot.slotStart, slot.slotEnd, slot.price, source);
+      }
+    });
+  }
+
+  /**
+   * The imported price covering a time, or null when no file covered it
+   */
+  getTariffPriceAt(direction: TariffDirection, timestamp: number): number | null {
+    const row = this.db.prepare(`
+      SELECT price FROM tariff_prices
+      WHERE direction = ? AND slot_start <= ? AND slot_end > ?
+      ORDER BY slot_start DESC
+      LIMIT 1
+    `).get(direction, timestamp, timestamp) as any;
+
+    return row ? row.price : null;
+  }
+
+  saveSegmentAdherence(adherence: SegmentAdherence): void {
+    this.db.prepare(`
+      INSERT OR REPLACE INTO segment_adherence (
+        segment_start, segment_end, mode, planned_work_mode, planned_charge_rate,
+        covered_seconds, work_mode_match_seconds, charge_rate_match_seconds,
+        planned_end_battery_kwh, actual_end_battery_kwh, forecast_solar_kwh, actual_solar_kwh,
+        forecast_load_kwh, actual_load_kwh, planned_cost, actual_cost, scored_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      adherence.segmentStart,
+      adherence.segmentEnd,
+      adherence.mode,
+      adherence.plannedWorkMode,
+      adherence.plannedChargeRate,
+      adherence.coveredSeconds,
+      adherence.workModeMatchSeconds,
+      adherence.chargeRateMatchSeconds,
+      adherence.plannedEndBatteryKwh,
+      adherence.actualEndBatteryKwh,
+      adherence.forecastSolarKwh,
+      adherence.actualSolarKwh,
+      adherence.forecastLoadKwh,
+      adherence.actualLoadKwh,
+      adherence.plannedCost,
+      adherence.actualCost,
+      adherence.scoredAt
+    );
+  }
+
+  /**
+   * Scored segments starting from `from` up to `to`, oldest first
+   */
+  getSegmentAdherence(from: number, to: number): SegmentAdherence[] {
+    const rows = this.db.prepare(`
+      SELECT * FROM segment_adherence
+      WHERE segment_start >= ? AND segment_start < ?
+      ORDER BY segment_start ASC
+    `).all(from, to) as any[];
+
+    return rows.map(row => ({
+      segmentStart: row.segment_start,
+      segmentEnd: row.segment_end,
+      mode: row.mode as OutputsMode,
+      plannedWorkMode: row.planned_work_mode as InverterMode,
+      plannedChargeRate: row.planned_charge_rate,
+      coveredSeconds: row.covered_seconds,
+      workModeMatchSeconds: row.work_mode_match_seconds,
+      chargeRateMatchSeconds: row.charge_rate_match_seconds,
+      plannedEndBatteryKwh: row.planned_end_battery_kwh,
+      actualEndBatteryKwh: row.actual_end_battery_kwh,
+      batteryErrorKwh: differenceOrNull(row.actual_end_battery_kwh, row.planned_end_battery_kwh),
+      forecastSolarKwh: row.forecast_solar_kwh,
+      actualSolarKwh: row.actual_solar_kwh,
+      solarErrorKwh: differenceOrNull(row.actual_solar_kwh, row.forecast_solar_kwh),
+      forecastLoadKwh: row.forecast_load_kwh,
+      actualLoadKwh: row.actual_load_kwh,
+      loadErrorKwh: differenceOrNull(row.actual_load_kwh, row.forecast_load_kwh),
+      plannedCost: row.planned_cost,
+      actualCost: row.actual_cost,
+      costDelta: differenceOrNull(row.actual_cost, row.planned_cost),
+      scoredAt: row.scored_at
+    }));
+  }
+
+  getLatestSegmentAdherenceEnd(): number | null {
+    const row = this.db.prepare(`SELECT MAX(segment_end) AS segment_end FROM segment_adherence`).get() as any;
+    return row?.segment_end ?? null;
+  }
+
+  insertScheduleRevision(revision: Omit<ScheduleRevisionWithSchedule, "id">): ScheduleRevision {
+    const result = this.db.prepare(`
+      INSERT INTO schedule_revisions (
+        activated_at, source, author, hash, segment_count, restored_from, schedule
+      ) VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      revision.activatedAt,
+      revision.source,
+      revision.author,
+      revision.hash,
+      revision.segmentCount,
+      revision.restoredFrom ?? null,
+      revision.schedule
+    );
+
+    const { schedule: _schedule, ...summary } = revision;
+    return { id: result.lastInsertRowid as number, ...summary };
+  }
+
+  /**
+   * Revisions newest first, without their schedules
+   */
+  getScheduleRevisions(limit: number = 100): ScheduleRevision[] {
+    const rows = this.db.prepare(`
+      SELECT id, activated_at, source, author, hash, segment_count, restored_from
+      FROM schedule_revisions
+      ORDER BY activated_at DESC, id DESC
+      LIMIT ?
+    `).all(limit) as any[];
+
+    return rows.map(scheduleRevisionFromRow);
+  }
+
+  getScheduleRevision(id: number): ScheduleRevisionWithSchedule | null {
+    const row = this.db.prepare(`SELECT * FROM schedule_revisions WHERE id = ?`).get(id) as any;
+    return row ? { ...scheduleRevisionFromRow(row), schedule: row.schedule } : null;
+  }
+
+  /**
+   * The revision in force at a time: the last one activated at or before it
+   */
+  getScheduleRevisionAt(timestamp: number): ScheduleRevisionWithSchedule | null {
+    const row = this.db.prepare(`
+      SELECT * FROM schedule_revisions
+      WHERE activated_at <= ?
+      ORDER BY activated_at DESC, id DESC
+      LIMIT 1
+    `).get(timestamp) as any;
+
+    return row ? { ...scheduleRevisionFromRow(row), schedule: row.schedule } : null;
+  }
+}
+
+function differenceOrNull(actual: number | null, planned: number): number | null {
+  return actual === null ? null : actual - planned;
+}
+
+function metricFromRow(row: any): MetricInstance {
+  return {
+    id: row.id,
+    timestamp: row.timestamp,
+    batteryChargeRate: row.battery_charge_rate,
+    workModePriority: row.work_mode_priority,
+    loadPower: row.load_power,
+    gridPower: row.grid_power,
+    batteryPower: row.battery_power,
+    batteryCurrent: row.battery_current,
+    batteryChargePercent: row.battery_charge_percent,
+    batteryCapacity: row.battery_capacity,
+    solarPower: row.solar_power
+  } as MetricInstance;
+}
+
+// Only the parts of the action the protection asked for; rows from before these columns existed have just the exact settings
+function protectionActionFromRow(row: any): ProtectionAction {
+  const action: ProtectionAction = {};
+  if (row.override_work_mode !== null) action.workMode = row.override_work_mode as InverterMode;
+  if (row.override_charge_rate !== null) action.chargeRate = row.override_charge_rate;
+  if (row.min_charge_rate !== null) action.minChargeRate = row.min_charge_rate;
+  if (row.max_charge_rate !== null) action.maxChargeRate = row.max_charge_rate;
+  return action;
+}
+
+function scheduleRevisionFromRow(row: any): ScheduleRevision {
+  return {
+    id: row.id,
+    activatedAt: row.activated_at,
+    source: row.source as ScheduleRevisionSource,
+    author: row.author,
+    hash: row.hash,
+    segmentCount: row.segment_count,
+    restoredFrom: row.restored_from ?? undefined
+  };
+}
+
+function energyValues(energy: EnergyTotals, cost: CostBreakdown): number[] {
+  return [
+    energy.importKwh,
+    energy.exportKwh,
+    energy.solarKwh,
+    energy.loadKwh,
+    energy.batteryChargeKwh,
+    energy.batteryDischargeKwh,
+    energy.coveredSeconds,
+    cost.importCost,
+    cost.exportRevenue
+  ];
+}
+
+function energyFromRow(row: any): EnergyTotals {
+  return {
+    importKwh: row.import_kwh,
+    exportKwh: row.export_kwh,
+    solarKwh: row.solar_kwh,
+    loadKwh: row.load_kwh,
+    batteryChargeKwh: row.battery_charge_kwh,
+    batteryDischargeKwh: row.battery_discharge_kwh,
+    coveredSeconds: row.covered_seconds
+  };
+}
+
+function costFromRow(row: any): CostBreakdown {
+  return {
+    importCost: row.import_cost,
+    exportRevenue: row.export_revenue,
+    netCost: row.import_cost - row.export_revenue
+  };
 }
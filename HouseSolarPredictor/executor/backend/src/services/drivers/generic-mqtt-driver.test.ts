@@ -0,0 +1,23 @@
+import {assertEquals} from "@std/assert";
+import {extractValue, renderPayload} from "./generic-mqtt-driver.ts";
+
+Deno.test("passes plain payloads through", () => {
+  assertEquals(extractValue("42.5"), "42.5");
+});
+
+Deno.test("reads nested values from JSON payloads", () => {
+  const payload = JSON.stringify({ battery: { soc: 81, mode: "battery_first" } });
+  assertEquals(extractValue(payload, "battery.soc"), "81");
+  assertEquals(extractValue(payload, "battery.mode"), "battery_first");
+});
+
+Deno.test("returns nothing when the path is missing or the payload isn't JSON", () => {
+  assertEquals(extractValue(JSON.stringify({ battery: {} }), "battery.soc"), undefined);
+  assertEquals(extractValue(JSON.stringify({ battery: 5 }), "battery.soc.value"), undefined);
+  assertEquals(extractValue("not json", "battery.soc"), undefined);
+});
+
+Deno.test("fills the value into payload templates", () => {
+  assertEquals(renderPayload("{{value}}", "50"), "50");
+  assertEquals(renderPayload('{"mode": "{{value}}"}', "load_first"), '{"mode": "load_first"}');
+});
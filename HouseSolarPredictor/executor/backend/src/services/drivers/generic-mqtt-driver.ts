@@ -0,0 +1,123 @@
+import {DeviceMetrics, InverterCapabilities, InverterMode} from "@shared";
+import {MqttService} from "../mqtt.ts";
+import {Logger} from "../../logger.ts";
+import {InverterDriver, TelemetryField} from "./inverter-driver.ts";
+import {GenericMqttCommand, GenericMqttDriverConfig} from "../../types/inverterDriverConfig.ts";
+
+const WORK_MODES: InverterMode[] = ["Battery first", "Load first"];
+
+/**
+ * Pulls a value out of a JSON payload by a dot separated path, or returns the payload as is when
+ * there is no path
+ */
+export function extractValue(payload: string, jsonPath?: string): string | undefined {
+  if (!jsonPath) {
+    return payload;
+  }
+
+  let current: unknown;
+  try {
+    current = JSON.parse(payload);
+  } catch {
+    return undefined;
+  }
+
+  for (const key of jsonPath.split('.')) {
+    if (current === null || typeof current !== 'object') {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[key];
+  }
+
+  return current === undefined || current === null ? undefined : String(current);
+}
+
+export function renderPayload(template: string, value: string): string {
+  return template.replaceAll("{{value}}", value);
+}
+
+/**
+ * Talks to any MQTT bridge whose topics and payloads are described in config, for inverters that
+ * aren't behind Solar Assistant
+ */
+export class GenericMqttDriver implements InverterDriver {
+  private readonly mqttService: MqttService;
+  private readonly config: GenericMqttDriverConfig;
+  private readonly logger: Logger;
+
+  constructor(mqttService: MqttService, config: GenericMqttDriverConfig) {
+    this.mqttService = mqttService;
+    this.config = config;
+    this.logger = new Logger();
+  }
+
+  getName(): string {
+    return "Generic MQTT";
+  }
+
+  getCapabilities(): InverterCapabilities {
+    return {
+      workModes: WORK_MODES,
+      supportsChargeRate: this.config.chargeRate !== undefined,
+      minChargeRate: this.config.minChargeRate ?? 0,
+      maxChargeRate: this.config.maxChargeRate ?? 100,
+      reportsCommandResponses: this.config.responseTopic !== undefined
+    };
+  }
+
+  onTelemetry(field: TelemetryField, handler: (value: string) => void): void {
+    const source = this.config.telemetry[field];
+    this.mqttService.onMessage(source.topic, (payload) => {
+      const value = extractValue(payload, source.jsonPath);
+      if (value === undefined) {
+        this.logger.log(`⚠️ Could not read ${field} from ${source.topic}: ${payload}`);
+        return;
+      }
+
+      handler(field === "workModePriority" ? this.toInverterMode(value) : value);
+    });
+  }
+
+  onCommandResponse(handler: (message: string) => void): void {
+    if (this.config.responseTopic) {
+      this.mqttService.onMessage(this.config.responseTopic, handler);
+    }
+  }
+
+  getDeviceMetrics(): DeviceMetrics[] {
+    return [];
+  }
+
+  async setWorkMode(mode: InverterMode): Promise<void> {
+    const value = this.config.workModeValues?.[mode] ?? mode;
+    await this.publish(this.config.workMode, value);
+    this.logger.log(`Published work mode: ${mode}`);
+  }
+
+  async setChargeRate(rate: number): Promise<void> {
+    if (!this.config.chargeRate) {
+      throw new Error('This inverter does not support setting the charge rate');
+    }
+
+    const { minChargeRate, maxChargeRate } = this.getCapabilities();
+    if (rate < minChargeRate || rate > maxChargeRate) {
+      throw new Error(`Charge rate must be between ${minChargeRate} and ${maxChargeRate}`);
+    }
+
+    await this.publish(this.config.chargeRate, rate.toString());
+    this.logger.log(`Published charge rate: ${rate}%`);
+  }
+
+  private async publish(command: GenericMqttCommand, value: string): Promise<void> {
+    await this.mqttService.publishCommand(command.topic, renderPayload(command.payloadTemplate, value));
+  }
+
+  /**
+   * Maps the bridge's name for a work mode back to ours. Unknown values are passed through so the
+   * controller can reject them.
+   */
+  private toInverterMode(value: string): string {
+    const mode = WORK_MODES.find(mode => (this.config.workModeValues?.[mode] ?? mode) === value);
+    return mode ?? value;
+  }
+}
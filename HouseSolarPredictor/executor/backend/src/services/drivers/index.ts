@@ -0,0 +1,21 @@
+import { MqttService } from "../mqtt.ts";
+import { InverterDriverConfig } from "../../types/inverterDriverConfig.ts";
+import { InverterDriver } from "./inverter-driver.ts";
+import { SolarAssistantDriver } from "./solar-assistant-driver.ts";
+import { GenericMqttDriver } from "./generic-mqtt-driver.ts";
+
+export type { InverterDriver, TelemetryField } from "./inverter-driver.ts";
+export { SolarAssistantDriver } from "./solar-assistant-driver.ts";
+export { GenericMqttDriver } from "./generic-mqtt-driver.ts";
+export { TelemetryAggregator } from "./telemetry-aggregator.ts";
+
+export function createInverterDriver(config: InverterDriverConfig, mqttService: MqttService): InverterDriver {
+  switch (config.driver) {
+    case "solarAssistant":
+      return new SolarAssistantDriver(mqttService, config.solarAssistant);
+    case "genericMqtt":
+      return new GenericMqttDriver(mqttService, config.genericMqtt!);
+    default:
+      throw new Error(`Unknown inverter driver: ${config.driver}`);
+  }
+}
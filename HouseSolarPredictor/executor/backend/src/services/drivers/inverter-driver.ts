@@ -0,0 +1,38 @@
+import {DeviceMetrics, InverterCapabilities, InverterMode, MetricInstance} from "@shared";
+
+/**
+ * Metrics a driver reports from the inverter and battery
+ */
+export type TelemetryField = Exclude<keyof MetricInstance, "timestamp" | "solarPower" | "devices">;
+
+export interface InverterDriver {
+  /**
+   * Name of the driver for logging and the API
+   */
+  getName(): string;
+
+  /**
+   * What this inverter can be asked to do
+   */
+  getCapabilities(): InverterCapabilities;
+
+  /**
+   * Registers a handler for a telemetry field. Values are passed as the raw text reading, with
+   * work modes already translated to InverterMode names.
+   */
+  onTelemetry(field: TelemetryField, handler: (value: string) => void): void;
+
+  /**
+   * Registers a handler for the bridge's success/failure messages after a command, if it sends any
+   */
+  onCommandResponse(handler: (message: string) => void): void;
+
+  /**
+   * Latest readings per inverter and battery, empty when there is only one of each
+   */
+  getDeviceMetrics(): DeviceMetrics[];
+
+  setWorkMode(mode: InverterMode): Promise<void>;
+
+  setChargeRate(rate: number): Promise<void>;
+}
@@ -0,0 +1,98 @@
+import {DeviceMetrics, InverterCapabilities, InverterMode} from "@shared";
+import {MqttService} from "../mqtt.ts";
+import {Logger} from "../../logger.ts";
+import {InverterDriver, TelemetryField} from "./inverter-driver.ts";
+import {TelemetryAggregator, TelemetryDevices} from "./telemetry-aggregator.ts";
+import {SolarAssistantDriverConfig} from "../../types/inverterDriverConfig.ts";
+
+/**
+ * Talks to one or more inverters and battery packs through Solar Assistant's MQTT integration.
+ * Readings from each device are combined by a TelemetryAggregator and commands go to every inverter.
+ */
+export class SolarAssistantDriver implements InverterDriver {
+  private readonly mqttService: MqttService;
+  private readonly config: SolarAssistantDriverConfig;
+  private readonly aggregator: TelemetryAggregator;
+  private readonly logger: Logger;
+
+  constructor(mqttService: MqttService, config: SolarAssistantDriverConfig) {
+    this.mqttService = mqttService;
+    this.config = config;
+    this.logger = new Logger();
+
+    const devices: Partial<Record<TelemetryField, TelemetryDevices>> = {};
+    for (const [field, topic] of Object.entries(config.topics) as [TelemetryField, string][]) {
+      if (topic.includes("{inverter}")) {
+        devices[field] = { type: "inverter", names: config.inverters };
+      } else if (topic.includes("{battery}")) {
+        devices[field] = { type: "battery", names: config.batteries };
+      }
+    }
+    this.aggregator = new TelemetryAggregator(devices);
+  }
+
+  getName(): string {
+    return "Solar Assistant";
+  }
+
+  getCapabilities(): InverterCapabilities {
+    return {
+      workModes: ["Battery first", "Load first"],
+      supportsChargeRate: true,
+      minChargeRate: 0,
+      maxChargeRate: 100,
+      reportsCommandResponses: true
+    };
+  }
+
+  onTelemetry(field: TelemetryField, handler: (value: string) => void): void {
+    const topic = this.config.topics[field];
+    const names = topic.includes("{inverter}") ? this.config.inverters
+      : topic.includes("{battery}") ? this.config.batteries
+      : ["total"];
+
+    for (const name of names) {
+      this.mqttService.onMessage(fillTopic(topic, name), (message) => {
+        const value = this.aggregator.update(field, name, message);
+        if (value !== undefined) {
+          handler(value);
+        }
+      });
+    }
+  }
+
+  onCommandResponse(handler: (message: string) => void): void {
+    this.mqttService.onMessage(this.config.responseTopic, handler);
+  }
+
+  getDeviceMetrics(): DeviceMetrics[] {
+    if (this.config.inverters.length === 1 && this.config.batteries.length === 1) {
+      return [];
+    }
+    return this.aggregator.getDeviceMetrics();
+  }
+
+  async setWorkMode(mode: InverterMode): Promise<void> {
+    this.aggregator.setCommanded("workModePriority", mode);
+    await this.publishToInverters(this.config.workModeTopic, mode);
+    this.logger.log(`Published work mode: ${mode}`);
+  }
+
+  async setChargeRate(rate: number): Promise<void> {
+    if (rate < 0 || rate > 100) {
+      throw new Error('Charge rate must be between 0 and 100');
+    }
+
+    this.aggregator.setCommanded("batteryChargeRate", rate.toString());
+    await this.publishToInverters(this.config.chargeRateTopic, rate.toString());
+    this.logger.log(`Published charge rate: ${rate}%`);
+  }
+
+  private async publishToInverters(topic: string, message: string): Promise<void> {
+    await Promise.all(this.config.inverters.map(name => this.mqttService.publishCommand(fillTopic(topic, name), message)));
+  }
+}
+
+function fillTopic(topic: string, name: string): string {
+  return topic.replace("{inverter}", name).replace("{battery}", name);
+}
@@ -0,0 +1,76 @@
+import {assertEquals} from "@std/assert";
+import {TelemetryAggregator} from "./telemetry-aggregator.ts";
+
+function twoInvertersTwoBatteries(): TelemetryAggregator {
+  const inverters = { type: "inverter" as const, names: ["inverter_1", "inverter_2"] };
+  const batteries = { type: "battery" as const, names: ["battery_1", "battery_2"] };
+  return new TelemetryAggregator({
+    gridPower: inverters,
+    workModePriority: inverters,
+    batteryChargeRate: inverters,
+    batteryCapacity: batteries,
+    batteryChargePercent: batteries,
+    batteryCurrent: batteries
+  });
+}
+
+Deno.test("waits for every device before reporting", () => {
+  const aggregator = twoInvertersTwoBatteries();
+  assertEquals(aggregator.update("gridPower", "inverter_1", "1200"), undefined);
+  assertEquals(aggregator.update("gridPower", "inverter_2", "-300"), "900");
+  assertEquals(aggregator.update("gridPower", "inverter_1", "1000"), "700");
+});
+
+Deno.test("sums battery current and capacity", () => {
+  const aggregator = twoInvertersTwoBatteries();
+  aggregator.update("batteryCurrent", "battery_1", "20.5");
+  assertEquals(aggregator.update("batteryCurrent", "battery_2", "10"), "30.5");
+  aggregator.update("batteryCapacity", "battery_1", "10");
+  assertEquals(aggregator.update("batteryCapacity", "battery_2", "5"), "15");
+});
+
+Deno.test("weights state of charge by capacity", () => {
+  const aggregator = twoInvertersTwoBatteries();
+  aggregator.update("batteryChargePercent", "battery_1", "40");
+  assertEquals(aggregator.update("batteryChargePercent", "battery_2", "100"), "70");
+
+  aggregator.update("batteryCapacity", "battery_1", "10");
+  aggregator.update("batteryCapacity", "battery_2", "5");
+  assertEquals(aggregator.update("batteryChargePercent", "battery_2", "100"), "60");
+});
+
+Deno.test("reports the lagging inverter until both take a command", () => {
+  const aggregator = twoInvertersTwoBatteries();
+  aggregator.update("workModePriority", "inverter_1", "Battery first");
+  assertEquals(aggregator.update("workModePriority", "inverter_2", "Battery first"), "Battery first");
+
+  aggregator.setCommanded("workModePriority", "Load first");
+  assertEquals(aggregator.update("workModePriority", "inverter_2", "Load first"), "Battery first");
+  assertEquals(aggregator.update("workModePriority", "inverter_1", "Load first"), "Load first");
+});
+
+Deno.test("treats charge rates within 1% as the same", () => {
+  const aggregator = twoInvertersTwoBatteries();
+  aggregator.setCommanded("batteryChargeRate", "50");
+  aggregator.update("batteryChargeRate", "inverter_1", "50");
+  assertEquals(aggregator.update("batteryChargeRate", "inverter_2", "100"), "100");
+  assertEquals(aggregator.update("batteryChargeRate", "inverter_2", "50.4"), "50");
+});
+
+Deno.test("passes single-topic fields straight through", () => {
+  const aggregator = twoInvertersTwoBatteries();
+  assertEquals(aggregator.update("batteryPower", "total", "-2500"), "-2500");
+});
+
+Deno.test("breaks readings down per device", () => {
+  const aggregator = twoInvertersTwoBatteries();
+  aggregator.update("gridPower", "inverter_1", "1200");
+  aggregator.update("workModePriority", "inverter_1", "Load first");
+  aggregator.update("batteryChargePercent", "battery_2", "55");
+  aggregator.update("batteryPower", "total", "100");
+
+  assertEquals(aggregator.getDeviceMetrics(), [
+    { name: "inverter_1", type: "inverter", values: { gridPower: 1200, workModePriority: "Load first" } },
+    { name: "battery_2", type: "battery", values: { batteryChargePercent: 55 } }
+  ]);
+});
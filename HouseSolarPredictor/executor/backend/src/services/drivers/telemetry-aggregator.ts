@@ -0,0 +1,114 @@
+import {DeviceMetrics, DeviceType} from "@shared";
+import {TelemetryField} from "./inverter-driver.ts";
+
+const SUMMED_FIELDS: TelemetryField[] = ["loadPower", "gridPower", "batteryPower", "batteryCurrent", "batteryCapacity"];
+const SETTING_FIELDS: TelemetryField[] = ["workModePriority", "batteryChargeRate"];
+
+export interface TelemetryDevices {
+  type: DeviceType;
+  names: string[];
+}
+
+/**
+ * Combines per-device readings into one value per field for the controller.
+ *
+ * Power, current and capacity are summed and state of charge is weighted by each battery's
+ * capacity. Settings (work mode and charge rate) are reported as the common value; while the
+ * inverters disagree, the one that hasn't yet taken the last command is reported so the controller
+ * keeps waiting for, or retries, the change. A field is only reported once every device has sent it.
+ */
+export class TelemetryAggregator {
+  private readonly devices: Partial<Record<TelemetryField, TelemetryDevices>>;
+  private readings: Map<TelemetryField, Map<string, string>> = new Map();
+  private commanded: Map<TelemetryField, string> = new Map();
+
+  constructor(devices: Partial<Record<TelemetryField, TelemetryDevices>>) {
+    this.devices = devices;
+  }
+
+  /**
+   * Stores a device reading and returns the combined value, or undefined while some devices
+   * haven't reported yet
+   */
+  update(field: TelemetryField, device: string, value: string): string | undefined {
+    const readings = this.readings.get(field) ?? new Map<string, string>();
+    readings.set(device, value);
+    this.readings.set(field, readings);
+
+    const names = this.devices[field]?.names ?? [device];
+    if (names.some(name => !readings.has(name))) {
+      return undefined;
+    }
+
+    const values = names.map(name => readings.get(name)!);
+    if (SUMMED_FIELDS.includes(field)) {
+      return values.reduce((total, value) => total + (parseFloat(value) || 0), 0).toString();
+    }
+    if (field === "batteryChargePercent") {
+      return this.weightedChargePercent(names, values).toString();
+    }
+    if (SETTING_FIELDS.includes(field)) {
+      return this.consensus(field, values);
+    }
+    return values[0];
+  }
+
+  /**
+   * Records a command sent to every inverter, so a lagging inverter can be picked out
+   */
+  setCommanded(field: TelemetryField, value: string): void {
+    this.commanded.set(field, value);
+  }
+
+  getDeviceMetrics(): DeviceMetrics[] {
+    const devices = new Map<string, DeviceMetrics>();
+    for (const [field, readings] of this.readings) {
+      const type = this.devices[field]?.type;
+      if (!type) {
+        continue;
+      }
+
+      for (const [name, value] of readings) {
+        const key = `${type}:${name}`;
+        const device = devices.get(key) ?? { name, type, values: {} };
+        const number = parseFloat(value);
+        (device.values as Record<string, number | string>)[field] = field === "workModePriority" || Number.isNaN(number) ? value : number;
+        devices.set(key, device);
+      }
+    }
+    return [...devices.values()];
+  }
+
+  private weightedChargePercent(names: string[], values: string[]): number {
+    const capacities = this.devices.batteryCapacity?.type === "battery" ? this.readings.get("batteryCapacity") : undefined;
+    const weights = names.map(name => parseFloat(capacities?.get(name) ?? "") || 0);
+    const totalWeight = weights.reduce((total, weight) => total + weight, 0);
+    const percents = values.map(value => parseFloat(value) || 0);
+
+    if (totalWeight <= 0) {
+      // Capacities not known yet, so treat every battery as the same size
+      return percents.reduce((total, percent) => total + percent, 0) / percents.length;
+    }
+    return percents.reduce((total, percent, i) => total + percent * weights[i]!, 0) / totalWeight;
+  }
+
+  private consensus(field: TelemetryField, values: string[]): string {
+    const first = values[0]!;
+    if (values.every(value => sameSetting(value, first))) {
+      return first;
+    }
+
+    const commanded = this.commanded.get(field);
+    const lagging = commanded === undefined ? undefined : values.find(value => !sameSetting(value, commanded));
+    return lagging ?? first;
+  }
+}
+
+function sameSetting(a: string, b: string): boolean {
+  const numberA = parseFloat(a);
+  const numberB = parseFloat(b);
+  if (!Number.isNaN(numberA) && !Number.isNaN(numberB)) {
+    return Math.abs(numberA - numberB) < 1; // Same 1% tolerance as command confirmation
+  }
+  return a === b;
+}
@@ -0,0 +1,138 @@
+import {CostBreakdown, EnergyTotals} from "@shared";
+
+export interface PowerReading {
+  timestamp: number; // epoch ms
+  gridPower: number; // W, in the inverter's own sign convention
+  loadPower: number; // W
+  batteryPower: number; // W, positive while charging
+}
+
+export interface IntegratedPiece<T> {
+  period: T;
+  energy: EnergyTotals;
+}
+
+export const MAX_GAP_MS = 5 * 60_000; // readings further apart than this are an outage, not bridged
+const WATT_MS_PER_KWH = 3_600_000_000;
+
+export function emptyEnergy(): EnergyTotals {
+  return {
+    importKwh: 0,
+    exportKwh: 0,
+    solarKwh: 0,
+    loadKwh: 0,
+    batteryChargeKwh: 0,
+    batteryDischargeKwh: 0,
+    coveredSeconds: 0
+  };
+}
+
+export function addEnergy(a: EnergyTotals, b: EnergyTotals): EnergyTotals {
+  return {
+    importKwh: a.importKwh + b.importKwh,
+    exportKwh: a.exportKwh + b.exportKwh,
+    solarKwh: a.solarKwh + b.solarKwh,
+    loadKwh: a.loadKwh + b.loadKwh,
+    batteryChargeKwh: a.batteryChargeKwh + b.batteryChargeKwh,
+    batteryDischargeKwh: a.batteryDischargeKwh + b.batteryDischargeKwh,
+    coveredSeconds: a.coveredSeconds + b.coveredSeconds
+  };
+}
+
+export function emptyCost(): CostBreakdown {
+  return { importCost: 0, exportRevenue: 0, netCost: 0 };
+}
+
+export function addCost(a: CostBreakdown, b: CostBreakdown): CostBreakdown {
+  return {
+    importCost: a.importCost + b.importCost,
+    exportRevenue: a.exportRevenue + b.exportRevenue,
+    netCost: a.netCost + b.netCost
+  };
+}
+
+/**
+ * Prices imports and exports separately, so exported energy earns rather than costs
+ */
+export function costOf(energy: EnergyTotals, importPrice: number, exportPrice: number): CostBreakdown {
+  const importCost = energy.importKwh * importPrice;
+  const exportRevenue = energy.exportKwh * exportPrice;
+  return { importCost, exportRevenue, netCost: importCost - exportRevenue };
+}
+
+/**
+ * Energy between two readings by the trapezoidal rule. exportSign is -1 when the inverter reports
+ * export as negative grid power. Solar is what balances the other flows: load + battery charge = solar + import.
+ */
+export function integrateInterval(start: PowerReading, end: PowerReading, exportSign: number): EnergyTotals {
+  const durationMs = end.timestamp - start.timestamp;
+  if (durationMs <= 0) {
+    return emptyEnergy();
+  }
+
+  const flows = (reading: PowerReading) => {
+    const importPower = -reading.gridPower * exportSign;
+    return {
+      import: Math.max(0, importPower),
+      export: Math.max(0, -importPower),
+      solar: Math.max(0, reading.loadPower - importPower + reading.batteryPower),
+      load: Math.max(0, reading.loadPower),
+      charge: Math.max(0, reading.batteryPower),
+      discharge: Math.max(0, -reading.batteryPower)
+    };
+  };
+  const a = flows(start);
+  const b = flows(end);
+  const kwh = (from: number, to: number) => (from + to) / 2 * durationMs / WATT_MS_PER_KWH;
+
+  return {
+    importKwh: kwh(a.import, b.import),
+    exportKwh: kwh(a.export, b.export),
+    solarKwh: kwh(a.solar, b.solar),
+    loadKwh: kwh(a.load, b.load),
+    batteryChargeKwh: kwh(a.charge, b.charge),
+    batteryDischargeKwh: kwh(a.discharge, b.discharge),
+    coveredSeconds: durationMs / 1000
+  };
+}
+
+/**
+ * Energy between two consecutive readings, split where the periods given by `periodAt` end.
+ * `periodAt` is asked for the period each piece starts in, and that period's `end` is where the
+ * piece stops. Readings out of order or more than MAX_GAP_MS apart are an outage and give nothing.
+ */
+export function integrateAcross<T extends { end: number }>(
+  previous: PowerReading,
+  reading: PowerReading,
+  exportSign: number,
+  periodAt: (timestamp: number) => T
+): IntegratedPiece<T>[] {
+  if (reading.timestamp <= previous.timestamp || reading.timestamp - previous.timestamp > MAX_GAP_MS) {
+    return [];
+  }
+
+  const pieces: IntegratedPiece<T>[] = [];
+  let cursor = previous;
+  while (cursor.timestamp < reading.timestamp) {
+    const period = periodAt(cursor.timestamp);
+    const boundary = Math.min(reading.timestamp, period.end);
+    const next = boundary === reading.timestamp ? reading : interpolateReading(previous, reading, boundary);
+    pieces.push({ period, energy: integrateInterval(cursor, next, exportSign) });
+    cursor = next;
+  }
+  return pieces;
+}
+
+/**
+ * The reading at a time between two readings, by linear interpolation
+ */
+export function interpolateReading(start: PowerReading, end: PowerReading, timestamp: number): PowerReading {
+  const fraction = (timestamp - start.timestamp) / (end.timestamp - start.timestamp);
+  const between = (from: number, to: number) => from + (to - from) * fraction;
+  return {
+    timestamp,
+    gridPower: between(start.gridPower, end.gridPower),
+    loadPower: between(start.loadPower, end.loadPower),
+    batteryPower: between(start.batteryPower, end.batteryPower)
+  };
+}
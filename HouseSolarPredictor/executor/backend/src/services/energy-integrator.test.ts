@@ -0,0 +1,194 @@
+import {assertAlmostEquals, assertEquals} from "@std/assert";
+import {EnergyIntegrator} from "./energy-integrator.ts";
+import {integrateInterval, PowerReading} from "./energy-integration.ts";
+import {DatabaseService} from "./database.ts";
+import {ScheduleService} from "./schedule.ts";
+import {BackendTimeSegment} from "../../time/backend-time-segment.ts";
+import {OutputsMode} from "@shared";
+import {TariffConfig} from "../types/tariffConfig.ts";
+import {TariffService} from "./tariff-service.ts";
+
+const MINUTE = 60_000;
+const TARIFF: TariffConfig = { standingChargePerDay: 0, vatPercent: 0, importPrice: 0, exportPrice: 0, bands: [] };
+// 2025-06-01 12:00 in London (BST)
+const NOON = Temporal.Instant.from("2025-06-01T11:00:00Z").epochMilliseconds;
+
+function tariffOf(database: DatabaseService, tariff: TariffConfig = TARIFF): TariffService {
+  return new TariffService(database, tariff, {
+    enabled: false,
+    importDirectory: "tariffs/import",
+    exportDirectory: "tariffs/export",
+    pollIntervalSeconds: 60,
+    priceUnit: "pounds"
+  });
+}
+
+function reading(timestamp: number, gridPower: number, loadPower: number, batteryPower: number): PowerReading {
+  return { timestamp, gridPower, loadPower, batteryPower };
+}
+
+function segment(start: number, end: number, gridPrice = 0, exportPrice = 0): BackendTimeSegment {
+  return {
+    time: { segmentStart: Temporal.Instant.fromEpochMilliseconds(start), segmentEnd: Temporal.Instant.fromEpochMilliseconds(end) },
+    expectedSolarGeneration: 0,
+    gridPrice,
+    exportPrice,
+    expectedConsumption: 0,
+    startBatteryChargeKwh: 0,
+    endBatteryChargeKwh: 0,
+    mode: OutputsMode.ChargeSolarOnly,
+    wastedSolarGeneration: 0,
+    actualGridUsage: 0,
+    cost: 0
+  };
+}
+
+function scheduleOf(segments: BackendTimeSegment[]): ScheduleService {
+  return {
+    getTimeSegmentAt: (instant: Temporal.Instant) => segments.find(s =>
+      s.time.segmentStart.epochMilliseconds <= instant.epochMilliseconds &&
+      instant.epochMilliseconds < s.time.segmentEnd.epochMilliseconds) ?? null
+  } as unknown as ScheduleService;
+}
+
+Deno.test("integrates each flow with the trapezoidal rule", () => {
+  // Importing 2 kW rising to 4 kW over an hour while charging at 1 kW
+  const energy = integrateInterval(reading(0, 2000, 1000, 1000), reading(60 * MINUTE, 4000, 3000, 1000), -1);
+
+  assertAlmostEquals(energy.importKwh, 3);
+  assertEquals(energy.exportKwh, 0);
+  assertAlmostEquals(energy.loadKwh, 2);
+  assertAlmostEquals(energy.batteryChargeKwh, 1);
+  assertEquals(energy.batteryDischargeKwh, 0);
+  assertEquals(energy.solarKwh, 0);
+  assertEquals(energy.coveredSeconds, 3600);
+});
+
+Deno.test("derives solar and export from the balance of the other flows", () => {
+  // 3 kW of solar covering a 1 kW load, charging at 1 kW and exporting 1 kW
+  const energy = integrateInterval(reading(0, -1000, 1000, 1000), reading(30 * MINUTE, -1000, 1000, 1000), -1);
+
+  assertAlmostEquals(energy.exportKwh, 0.5);
+  assertAlmostEquals(energy.solarKwh, 1.5);
+  assertEquals(energy.importKwh, 0);
+});
+
+Deno.test("splits readings at segment boundaries", () => {
+  const database = new DatabaseService(":memory:");
+  const integrator = new EnergyIntegrator(database, scheduleOf([
+    segment(NOON, NOON + 30 * MINUTE),
+    segment(NOON + 30 * MINUTE, NOON + 60 * MINUTE)
+  ]), -1, tariffOf(database));
+
+  // A steady 1.2 kW load imported from the grid, read every 5 minutes across both segments
+  for (let time = NOON; time <= NOON + 60 * MINUTE; time += 5 * MINUTE) {
+    integrator.addReading(reading(time, 1200, 1200, 0));
+  }
+  const report = integrator.getReport(Temporal.PlainDate.from("2025-06-01"), Temporal.PlainDate.from("2025-06-01"));
+
+  assertEquals(report.segments.map(s => s.segmentStart), [NOON, NOON + 30 * MINUTE]);
+  assertAlmostEquals(report.segments[0].importKwh, 0.6);
+  assertAlmostEquals(report.segments[1].loadKwh, 0.6);
+  assertAlmostEquals(report.totals.importKwh, 1.2);
+  assertEquals(report.days.map(day => day.date), ["2025-06-01"]);
+  database.close();
+});
+
+Deno.test("splits at local midnight and groups unscheduled time into half hours", () => {
+  const database = new DatabaseService(":memory:");
+  const integrator = new EnergyIntegrator(database, scheduleOf([]), -1, tariffOf(database));
+  // 23:58 to 00:02 BST
+  const midnight = Temporal.Instant.from("2025-06-01T23:00:00Z").epochMilliseconds;
+
+  integrator.addReading(reading(midnight - 2 * MINUTE, 0, 600, -600));
+  integrator.addReading(reading(midnight + 2 * MINUTE, 0, 600, -600));
+  const report = integrator.getReport(Temporal.PlainDate.from("2025-06-01"), Temporal.PlainDate.from("2025-06-02"));
+
+  assertEquals(report.days.map(day => [day.date, Math.round(day.batteryDischargeKwh * 1000)]), [["2025-06-01", 20], ["2025-06-02", 20]]);
+  assertEquals(report.segments.map(s => [s.segmentStart, s.segmentEnd]), [
+    [midnight - 30 * MINUTE, midnight],
+    [midnight, midnight + 30 * MINUTE]
+  ]);
+  database.close();
+});
+
+Deno.test("leaves gaps in the readings out", () => {
+  const database = new DatabaseService(":memory:");
+  const integrator = new EnergyIntegrator(database, scheduleOf([]), -1, tariffOf(database));
+
+  integrator.addReading(reading(NOON, 1000, 1000, 0));
+  integrator.addReading(reading(NOON + 20 * MINUTE, 1000, 1000, 0));
+  integrator.addReading(reading(NOON + 21 * MINUTE, 1000, 1000, 0));
+  const { totals } = integrator.getReport(Temporal.PlainDate.from("2025-06-01"), Temporal.PlainDate.from("2025-06-01"));
+
+  assertEquals(totals.coveredSeconds, 60);
+  assertAlmostEquals(totals.importKwh, 1 / 60);
+  database.close();
+});
+
+Deno.test("adds to the stored totals across flushes", () => {
+  const database = new DatabaseService(":memory:");
+  const integrator = new EnergyIntegrator(database, scheduleOf([]), -1, tariffOf(database));
+
+  for (let time = NOON; time <= NOON + 10 * MINUTE; time += 30_000) {
+    integrator.addReading(reading(time, 3000, 3000, 0));
+  }
+  integrator.flush();
+  const report = integrator.getReport(Temporal.PlainDate.from("2025-06-01"), Temporal.PlainDate.from("2025-06-01"));
+
+  assertAlmostEquals(report.totals.importKwh, 0.5);
+  assertEquals(report.segments.length, 1);
+  database.close();
+});
+
+Deno.test("prices imports and exports separately", () => {
+  const database = new DatabaseService(":memory:");
+  const integrator = new EnergyIntegrator(database, scheduleOf([
+    segment(NOON, NOON + 30 * MINUTE, 30, 15),
+    segment(NOON + 30 * MINUTE, NOON + 60 * MINUTE, 20, 5)
+  ]), -1, tariffOf(database, { ...TARIFF, exportPrice: 4 }));
+
+  // Importing 2 kW for the first segment, exporting 2 kW for the second, then exporting unscheduled
+  for (let time = NOON; time <= NOON + 30 * MINUTE; time += 5 * MINUTE) {
+    integrator.addReading(reading(time, 2000, 2000, 0));
+  }
+  for (let time = NOON + 30 * MINUTE; time <= NOON + 90 * MINUTE; time += 5 * MINUTE) {
+    integrator.addReading(reading(time, time === NOON + 30 * MINUTE ? 2000 : -2000, 0, 0));
+  }
+  const report = integrator.getReport(Temporal.PlainDate.from("2025-06-01"), Temporal.PlainDate.from("2025-06-01"));
+
+  assertAlmostEquals(report.segments[0].cost.importCost, 30);
+  assertEquals(report.segments[0].cost.exportRevenue, 0);
+  // The first 5 minutes of the second segment swing from importing 2 kW to exporting 2 kW
+  assertAlmostEquals(report.segments[1].importKwh, 1 / 12);
+  assertAlmostEquals(report.segments[1].exportKwh, 11 / 12);
+  assertAlmostEquals(report.segments[1].cost.importCost, 20 / 12);
+  assertAlmostEquals(report.segments[1].cost.exportRevenue, 55 / 12);
+  // Unscheduled time earns the tariff's flat export price
+  assertAlmostEquals(report.segments[2].cost.exportRevenue, 4);
+  assertAlmostEquals(report.cost.importCost, 30 + 20 / 12);
+  assertAlmostEquals(report.cost.netCost, report.cost.importCost - report.cost.exportRevenue);
+  database.close();
+});
+
+Deno.test("itemises the bill with the standing charge and VAT", () => {
+  const database = new DatabaseService(":memory:");
+  const tariff = { ...TARIFF, standingChargePerDay: 0.5, vatPercent: 5, bands: [{ start: "11:00", end: "14:00", importPrice: 0.3 }] };
+  const integrator = new EnergyIntegrator(database, scheduleOf([]), -1, tariffOf(database, tariff));
+
+  // Importing 2 kW for an hour inside the band
+  for (let time = NOON; time <= NOON + 60 * MINUTE; time += 5 * MINUTE) {
+    integrator.addReading(reading(time, 2000, 2000, 0));
+  }
+  const report = integrator.getReport(Temporal.PlainDate.from("2025-06-01"), Temporal.PlainDate.from("2025-06-01"));
+
+  assertEquals(report.bills.map(bill => bill.date), ["2025-06-01"]);
+  const items = Object.fromEntries(report.bill.lineItems.map(item => [item.kind, item]));
+  assertAlmostEquals(items.import.quantity!, 2);
+  assertAlmostEquals(items.import.rate!, 0.3);
+  assertAlmostEquals(items.standingCharge.amount, 0.5);
+  assertAlmostEquals(items.vat.amount, (0.6 + 0.5) * 0.05);
+  assertAlmostEquals(report.bill.total, (0.6 + 0.5) * 1.05);
+  assertAlmostEquals(report.bills[0].total, report.bill.total);
+  database.close();
+});
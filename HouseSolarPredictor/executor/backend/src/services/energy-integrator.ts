@@ -0,0 +1,147 @@
+import {CostBreakdown, DailyEnergy, EnergyReport, EnergyTotals, SegmentEnergy} from "@shared";
+import {DatabaseService} from "./database.ts";
+import {ScheduleService} from "./schedule.ts";
+import {addCost, addEnergy, costOf, emptyCost, emptyEnergy, integrateAcross, PowerReading} from "./energy-integration.ts";
+import {billFor} from "./tariff.ts";
+import {TariffService} from "./tariff-service.ts";
+import {TIME_ZONE} from "../time-zone.ts";
+
+export const MAX_ENERGY_REPORT_DAYS = 31; // the most days one API request can cover
+const FLUSH_INTERVAL_MS = 60_000;
+const UNSCHEDULED_SEGMENT_MS = 30 * 60_000; // periods outside the schedule are grouped into half hours, priced by the tariff
+
+interface PricedPeriod {
+  start: number;
+  end: number;
+  importPrice: number;
+  exportPrice: number;
+}
+
+/**
+ * Turns the stream of power readings into kWh totals and costs per schedule segment and per day.
+ * Readings are integrated with the trapezoidal rule, split at segment and day boundaries, priced
+ * with the segment's import and export prices, and added to the database at most once a minute.
+ */
+export class EnergyIntegrator {
+  private readonly databaseService: DatabaseService;
+  private readonly scheduleService: ScheduleService;
+  private readonly exportSign: number;
+  private readonly tariffService: TariffService;
+  private lastReading: PowerReading | null = null;
+  private pendingSegments: Map<string, SegmentEnergy> = new Map();
+  private pendingDays: Map<string, DailyEnergy> = new Map();
+  private lastFlushAt = 0;
+
+  constructor(databaseService: DatabaseService, scheduleService: ScheduleService, exportSign: number, tariffService: TariffService) {
+    this.databaseService = databaseService;
+    this.scheduleService = scheduleService;
+    this.exportSign = exportSign;
+    this.tariffService = tariffService;
+  }
+
+  addReading(reading: PowerReading): void {
+    const previous = this.lastReading;
+    this.lastReading = reading;
+    if (!previous) {
+      return;
+    }
+
+    const pieces = integrateAcross(previous, reading, this.exportSign, timestamp => {
+      const segment = this.segmentAt(timestamp);
+      const day = londonDay(timestamp);
+      return { segment, day, end: Math.min(segment.end, day.end) };
+    });
+    for (const { period: { segment, day }, energy } of pieces) {
+      this.accumulate(segment.start, segment.end, day.date, energy, costOf(energy, segment.importPrice, segment.exportPrice));
+    }
+
+    if (reading.timestamp - this.lastFlushAt >= FLUSH_INTERVAL_MS) {
+      this.flush(reading.timestamp);
+    }
+  }
+
+  flush(now: number = Temporal.Now.instant().epochMilliseconds): void {
+    for (const segment of this.pendingSegments.values()) {
+      this.databaseService.addSegmentEnergy(segment);
+    }
+    for (const day of this.pendingDays.values()) {
+      this.databaseService.addDailyEnergy(day);
+    }
+    this.pendingSegments.clear();
+    this.pendingDays.clear();
+    this.lastFlushAt = now;
+  }
+
+  /**
+   * Energy per day and per segment from `from` to `to` inclusive, with an itemised bill per day
+   * and for the range
+   */
+  getReport(from: Temporal.PlainDate, to: Temporal.PlainDate): EnergyReport {
+    this.flush();
+
+    const start = from.toZonedDateTime({ timeZone: TIME_ZONE }).epochMilliseconds;
+    const end = to.add({ days: 1 }).toZonedDateTime({ timeZone: TIME_ZONE }).epochMilliseconds;
+    const days = this.databaseService.getDailyEnergy(from.toString(), to.toString());
+    const totals = days.reduce<EnergyTotals>((totals, day) => addEnergy(totals, day), emptyEnergy());
+    const cost = days.reduce<CostBreakdown>((cost, day) => addCost(cost, day.cost), emptyCost());
+    const tariff = this.tariffService.getTariffConfig();
+
+    return {
+      from: from.toString(),
+      to: to.toString(),
+      days,
+      segments: this.databaseService.getSegmentEnergy(start, end),
+      totals,
+      cost,
+      // Standing charges apply to the days with recorded energy, so the range's bill adds up its days'
+      bills: days.map(day => ({ ...billFor(day, day.cost, 1, tariff), date: day.date })),
+      bill: billFor(totals, cost, days.length, tariff)
+    };
+  }
+
+  private segmentAt(timestamp: number): PricedPeriod {
+    const segment = this.scheduleService.getTimeSegmentAt(Temporal.Instant.fromEpochMilliseconds(timestamp));
+    if (segment) {
+      return {
+        start: segment.time.segmentStart.epochMilliseconds,
+        end: segment.time.segmentEnd.epochMilliseconds,
+        importPrice: segment.gridPrice,
+        exportPrice: segment.exportPrice
+      };
+    }
+    const start = Math.floor(timestamp / UNSCHEDULED_SEGMENT_MS) * UNSCHEDULED_SEGMENT_MS;
+    const instant = Temporal.Instant.fromEpochMilliseconds(start);
+    return {
+      start,
+      end: start + UNSCHEDULED_SEGMENT_MS,
+      importPrice: this.tariffService.importPriceAt(instant),
+      exportPrice: this.tariffService.exportPriceAt(instant)
+    };
+  }
+
+  private accumulate(segmentStart: number, segmentEnd: number, date: string, energy: EnergyTotals, cost: CostBreakdown): void {
+    const key = `${segmentStart}-${segmentEnd}`;
+    const segment = this.pendingSegments.get(key);
+    this.pendingSegments.set(key, {
+      ...addEnergy(segment ?? emptyEnergy(), energy),
+      segmentStart,
+      segmentEnd,
+      cost: addCost(segment?.cost ?? emptyCost(), cost)
+    });
+
+    const day = this.pendingDays.get(date);
+    this.pendingDays.set(date, {
+      ...addEnergy(day ?? emptyEnergy(), energy),
+      date,
+      cost: addCost(day?.cost ?? emptyCost(), cost)
+    });
+  }
+}
+
+function londonDay(timestamp: number): { date: string; end: number } {
+  const date = Temporal.Instant.fromEpochMilliseconds(timestamp).toZonedDateTimeISO(TIME_ZONE).toPlainDate();
+  return {
+    date: date.toString(),
+    end: date.add({ days: 1 }).toZonedDateTime({ timeZone: TIME_ZONE }).epochMilliseconds
+  };
+}
@@ -0,0 +1,104 @@
+import {assertEquals} from "@std/assert";
+import {OutputsMode} from "@shared";
+import {buildDiscoveryMessages, buildExecutorState} from "./executor-state.ts";
+import {ControllerState, NextScheduleInfo} from "../types/controller-state.ts";
+import {StatePublishingConfig} from "../types/statePublishingConfig.ts";
+import {BackendTimeSegment} from "../../time/backend-time-segment.ts";
+
+const CONFIG: StatePublishingConfig = {
+  enabled: true,
+  baseTopic: "solar_executor",
+  discoveryPrefix: "homeassistant",
+  deviceName: "Solar Executor",
+  intervalSeconds: 10,
+  overrideDurationMinutes: 60
+};
+
+const SEGMENT_START = Temporal.Instant.from("2025-06-01T01:00:00Z");
+
+const SEGMENT: BackendTimeSegment = {
+  time: { segmentStart: SEGMENT_START, segmentEnd: SEGMENT_START.add({ minutes: 30 }) },
+  expectedSolarGeneration: 0,
+  gridPrice: 0.07,
+  exportPrice: 0,
+  expectedConsumption: 0.2,
+  startBatteryChargeKwh: 2,
+  endBatteryChargeKwh: 4,
+  mode: OutputsMode.ChargeFromGridAndSolar,
+  wastedSolarGeneration: 0,
+  actualGridUsage: 0,
+  cost: 0
+};
+
+const NEXT: NextScheduleInfo = {
+  startTime: SEGMENT_START.add({ minutes: 30 }),
+  mode: OutputsMode.Discharge,
+  expectedStartChargeKwh: 4,
+  timeUntil: "15m"
+};
+
+Deno.test("flattens the controller state", () => {
+  const state: ControllerState = {
+    status: "green",
+    message: "Inverter is already in the correct state ✅",
+    currentSegment: SEGMENT,
+    desiredWorkMode: "Battery first",
+    desiredChargeRate: 100,
+    actualWorkMode: "Battery first",
+    actualChargeRate: 100,
+    shadowMode: false,
+    protectionDecisions: [
+      { name: "Battery Protection", category: "safety", priority: 10, outcome: "idle" },
+      { name: "Grid Import Protection", category: "safety", priority: 15, outcome: "applied", action: { maxChargeRate: 90 } }
+    ]
+  };
+
+  assertEquals(buildExecutorState(state, NEXT, SEGMENT_START.add({ minutes: 15 })), {
+    status: "green",
+    message: "Inverter is already in the correct state ✅",
+    desiredWorkMode: "Battery first",
+    actualWorkMode: "Battery first",
+    desiredChargeRate: 100,
+    actualChargeRate: 100,
+    segmentMode: OutputsMode.ChargeFromGridAndSolar,
+    gridPrice: 0.07,
+    expectedBatteryKwh: 3,
+    activeProtection: "Grid Import Protection",
+    manualOverride: "None",
+    shadowMode: "OFF",
+    nextSegmentMode: OutputsMode.Discharge,
+    nextSegmentStart: "2025-06-01T01:30:00Z",
+    nextSegmentExpectedKwh: 4,
+    nextSegmentIn: "15m"
+  });
+});
+
+Deno.test("publishes nulls when there is no schedule", () => {
+  const state = buildExecutorState({ status: "red", message: "No schedule" }, null);
+  assertEquals(state.segmentMode, null);
+  assertEquals(state.expectedBatteryKwh, null);
+  assertEquals(state.nextSegmentStart, null);
+  assertEquals(state.activeProtection, "None");
+});
+
+Deno.test("announces sensors, the shadow mode switch and the commands", () => {
+  const messages = buildDiscoveryMessages(CONFIG);
+  const byTopic = new Map(messages.map(message => [message.topic, message.payload]));
+
+  const status = byTopic.get("homeassistant/sensor/solar_executor/status/config")!;
+  assertEquals(status.state_topic, "solar_executor/state");
+  assertEquals(status.value_template, "{{ value_json.status }}");
+  assertEquals(status.availability_topic, "solar_executor/availability");
+  assertEquals(status.unique_id, "solar_executor_status");
+
+  assertEquals(byTopic.get("homeassistant/sensor/solar_executor/next_segment_start/config")!.device_class, "timestamp");
+  assertEquals(byTopic.get("homeassistant/switch/solar_executor/shadow_mode/config")!.command_topic, "solar_executor/shadow_mode/set");
+  assertEquals(byTopic.get("homeassistant/button/solar_executor/retry/config")!.command_topic, "solar_executor/retry/set");
+  assertEquals(
+    byTopic.get("homeassistant/select/solar_executor/override_mode/config")!.options,
+    ["None", ...Object.values(OutputsMode)]
+  );
+
+  // unique ids must not collide or Home Assistant drops the duplicates
+  assertEquals(new Set(messages.map(message => message.payload.unique_id)).size, messages.length);
+});
@@ -0,0 +1,138 @@
+import {OutputsMode} from "@shared";
+import {ControllerState, NextScheduleInfo} from "../types/controller-state.ts";
+import {StatePublishingConfig} from "../types/statePublishingConfig.ts";
+import {getExpectedBatteryKwh} from "./planned-battery-trajectory.ts";
+
+export const NO_OVERRIDE = "None";
+
+export interface ExecutorState {
+  status: string;
+  message: string;
+  desiredWorkMode: string | null;
+  actualWorkMode: string | null;
+  desiredChargeRate: number | null;
+  actualChargeRate: number | null;
+  segmentMode: string | null;
+  gridPrice: number | null;
+  expectedBatteryKwh: number | null;
+  activeProtection: string;
+  manualOverride: string;
+  shadowMode: "ON" | "OFF";
+  nextSegmentMode: string | null;
+  nextSegmentStart: string | null;
+  nextSegmentExpectedKwh: number | null;
+  nextSegmentIn: string | null;
+}
+
+export interface DiscoveryMessage {
+  topic: string;
+  payload: Record<string, unknown>;
+}
+
+/**
+ * Flattens the controller state into the JSON document published to `<baseTopic>/state`
+ */
+export function buildExecutorState(
+  state: ControllerState,
+  nextSegment: NextScheduleInfo | null,
+  now: Temporal.Instant = Temporal.Now.instant()
+): ExecutorState {
+  const segment = state.currentSegment;
+  const applied = (state.protectionDecisions ?? []).filter(decision => decision.outcome === "applied");
+
+  return {
+    status: state.status,
+    message: state.message,
+    desiredWorkMode: state.desiredWorkMode ?? null,
+    actualWorkMode: state.actualWorkMode ?? null,
+    desiredChargeRate: state.desiredChargeRate ?? null,
+    actualChargeRate: state.actualChargeRate ?? null,
+    segmentMode: segment?.mode ?? null,
+    gridPrice: segment?.gridPrice ?? null,
+    expectedBatteryKwh: segment ? round(getExpectedBatteryKwh(segment, now), 2) : null,
+    activeProtection: applied.length > 0 ? applied.map(decision => decision.name).join(", ") : NO_OVERRIDE,
+    manualOverride: state.manualOverride?.mode ?? NO_OVERRIDE,
+    shadowMode: state.shadowMode ? "ON" : "OFF",
+    nextSegmentMode: nextSegment?.mode ?? null,
+    nextSegmentStart: nextSegment?.startTime.toString() ?? null,
+    nextSegmentExpectedKwh: nextSegment ? round(nextSegment.expectedStartChargeKwh, 2) : null,
+    nextSegmentIn: nextSegment?.timeUntil ?? null
+  };
+}
+
+/**
+ * Home Assistant MQTT discovery configs for every published sensor and command
+ */
+export function buildDiscoveryMessages(config: StatePublishingConfig): DiscoveryMessage[] {
+  const base = config.baseTopic;
+  const nodeId = base.replace(/[^a-zA-Z0-9_-]/g, "_");
+  const shared = {
+    availability_topic: `${base}/availability`,
+    device: {
+      identifiers: [nodeId],
+      name: config.deviceName,
+      manufacturer: "HouseSolarPredictor",
+      model: "Executor"
+    }
+  };
+
+  const entity = (component: string, objectId: string, name: string, settings: Record<string, unknown>): DiscoveryMessage => ({
+    topic: `${config.discoveryPrefix}/${component}/${nodeId}/${objectId}/config`,
+    payload: { ...shared, name, unique_id: `${nodeId}_${objectId}`, object_id: `${nodeId}_${objectId}`, ...settings }
+  });
+
+  const sensor = (field: keyof ExecutorState, name: string, settings: Record<string, unknown> = {}): DiscoveryMessage =>
+    entity("sensor", toSnakeCase(field), name, {
+      state_topic: `${base}/state`,
+      value_template: `{{ value_json.${field} }}`,
+      ...settings
+    });
+
+  return [
+    sensor("status", "Status", { icon: "mdi:traffic-light" }),
+    sensor("message", "Message"),
+    sensor("desiredWorkMode", "Desired work mode"),
+    sensor("actualWorkMode", "Actual work mode"),
+    sensor("desiredChargeRate", "Desired charge rate", { unit_of_measurement: "%" }),
+    sensor("actualChargeRate", "Actual charge rate", { unit_of_measurement: "%" }),
+    sensor("segmentMode", "Segment mode"),
+    sensor("gridPrice", "Grid price", { unit_of_measurement: "GBP/kWh" }),
+    sensor("expectedBatteryKwh", "Expected battery", { unit_of_measurement: "kWh", device_class: "energy_storage" }),
+    sensor("activeProtection", "Active protection", { icon: "mdi:shield-alert" }),
+    sensor("manualOverride", "Manual override"),
+    sensor("nextSegmentMode", "Next segment mode"),
+    sensor("nextSegmentStart", "Next segment start", { device_class: "timestamp" }),
+    sensor("nextSegmentExpectedKwh", "Next segment expected battery", { unit_of_measurement: "kWh", device_class: "energy_storage" }),
+    sensor("nextSegmentIn", "Next segment in"),
+    entity("switch", "shadow_mode", "Shadow mode", {
+      state_topic: `${base}/state`,
+      value_template: "{{ value_json.shadowMode }}",
+      command_topic: `${base}/shadow_mode/set`,
+      payload_on: "ON",
+      payload_off: "OFF"
+    }),
+    entity("select", "override_mode", "Override mode", {
+      state_topic: `${base}/state`,
+      value_template: "{{ value_json.manualOverride }}",
+      command_topic: `${base}/override_mode/set`,
+      options: [NO_OVERRIDE, ...Object.values(OutputsMode)]
+    }),
+    entity("button", "retry", "Retry", {
+      command_topic: `${base}/retry/set`,
+      payload_press: "PRESS"
+    }),
+    entity("button", "clear_override", "Clear override", {
+      command_topic: `${base}/override/set`,
+      payload_press: "CLEAR"
+    })
+  ];
+}
+
+function round(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+function toSnakeCase(field: string): string {
+  return field.replace(/[A-Z]/g, letter => `_${letter.toLowerCase()}`);
+}
@@ -0,0 +1,81 @@
+import {ForecastActuals} from "@shared";
+import {DatabaseService} from "./database.ts";
+import {Logger} from "../logger.ts";
+import {ForecastActualsConfig} from "../types/forecastActualsConfig.ts";
+import {actualsForSlots, actualsToCsv, SLOT_MS} from "./forecast-actuals.ts";
+import {MAX_GAP_MS} from "./energy-integration.ts";
+import {TIME_ZONE} from "../time-zone.ts";
+
+/**
+ * Feeds measured solar, load, grid and battery figures back to the planner, per half hour on the
+ * schedule's time grid, as an API and as a file rewritten on an interval
+ */
+export class ForecastActualsService {
+  private readonly databaseService: DatabaseService;
+  private readonly exportSign: number;
+  private readonly config: ForecastActualsConfig;
+  private readonly logger: Logger;
+  private writeTimer?: ReturnType<typeof setInterval>;
+
+  constructor(databaseService: DatabaseService, exportSign: number, config: ForecastActualsConfig) {
+    this.databaseService = databaseService;
+    this.exportSign = exportSign;
+    this.config = config;
+    this.logger = new Logger();
+  }
+
+  async start(): Promise<void> {
+    await this.writeFile();
+    this.writeTimer = setInterval(() => {
+      this.writeFile().catch(error => this.logger.logException(error as Error));
+    }, this.config.writeIntervalMinutes * 60_000);
+  }
+
+  stop(): void {
+    if (this.writeTimer !== undefined) {
+      clearInterval(this.writeTimer);
+      this.writeTimer = undefined;
+    }
+  }
+
+  /**
+   * Actuals for each finished half hour from the start of `from` to the end of `to`
+   */
+  getActuals(from: Temporal.PlainDate, to: Temporal.PlainDate, now: number = Temporal.Now.instant().epochMilliseconds): ForecastActuals {
+    const start = from.toZonedDateTime({ timeZone: TIME_ZONE }).epochMilliseconds;
+    const dayEnd = to.add({ days: 1 }).toZonedDateTime({ timeZone: TIME_ZONE }).epochMilliseconds;
+    // Half hours still under way are left out; local midnight is always on a half hour, so this stays on the grid
+    const end = Math.max(start, Math.min(dayEnd, start + Math.floor((now - start) / SLOT_MS) * SLOT_MS));
+
+    const metrics = this.databaseService.getMetricsBetween(start - MAX_GAP_MS, end + MAX_GAP_MS);
+    return {
+      from: from.toString(),
+      to: to.toString(),
+      generatedAt: Temporal.Instant.fromEpochMilliseconds(now).toString(),
+      slots: actualsForSlots(metrics, start, end, this.exportSign)
+    };
+  }
+
+  /**
+   * Writes the last `days` days, up to and including today, to the output file. It's written beside
+   * the file and renamed over it, so the planner never reads half a file.
+   */
+  async writeFile(now: number = Temporal.Now.instant().epochMilliseconds): Promise<ForecastActuals> {
+    const today = Temporal.Instant.fromEpochMilliseconds(now).toZonedDateTimeISO(TIME_ZONE).toPlainDate();
+    const actuals = this.getActuals(today.subtract({ days: this.config.days - 1 }), today, now);
+    const text = this.config.outputPath.toLowerCase().endsWith(".csv")
+      ? actualsToCsv(actuals.slots)
+      : JSON.stringify(actuals, null, 2);
+
+    const directory = this.config.outputPath.split("/").slice(0, -1).join("/");
+    if (directory !== "") {
+      await Deno.mkdir(directory, { recursive: true });
+    }
+    const temporaryPath = `${this.config.outputPath}.tmp`;
+    await Deno.writeTextFile(temporaryPath, text);
+    await Deno.rename(temporaryPath, this.config.outputPath);
+
+    this.logger.log(`Wrote ${actuals.slots.length} half hours of actuals to ${this.config.outputPath}`);
+    return actuals;
+  }
+}
@@ -0,0 +1,73 @@
+import {assertAlmostEquals, assertEquals} from "@std/assert";
+import {MetricInstance} from "@shared";
+import {actualsForSlots, actualsToCsv} from "./forecast-actuals.ts";
+import {ForecastActualsService} from "./forecast-actuals-service.ts";
+import {DatabaseService} from "./database.ts";
+
+// Midnight on 2025-06-01 in London
+const START = Temporal.Instant.from("2025-05-31T23:00:00Z").epochMilliseconds;
+const MINUTE = 60_000;
+
+function readings(fromMinute: number, toMinute: number, batteryChargePercent = 50): MetricInstance[] {
+  const metrics: MetricInstance[] = [];
+  for (let minute = fromMinute; minute <= toMinute; minute++) {
+    metrics.push({
+      timestamp: START + minute * MINUTE,
+      batteryChargeRate: 0,
+      workModePriority: "Battery first",
+      loadPower: 1000,
+      gridPower: 0,
+      batteryPower: 0,
+      batteryCurrent: 0,
+      batteryChargePercent,
+      batteryCapacity: 10,
+      solarPower: 1000
+    });
+  }
+  return metrics;
+}
+
+Deno.test("integrates readings into half hours on the schedule's time grid", () => {
+  const slots = actualsForSlots(readings(-1, 61), START, START + 60 * MINUTE, -1);
+
+  assertEquals(slots.length, 2);
+  assertEquals(slots[0].time, { segmentStart: "2025-06-01T00:00:00+01:00", segmentEnd: "2025-06-01T00:30:00+01:00" });
+  assertAlmostEquals(slots[0].actualSolarGeneration, 0.5);
+  assertAlmostEquals(slots[1].actualConsumption, 0.5);
+  assertEquals([slots[0].gridImportKwh, slots[0].gridExportKwh, slots[0].coveredSeconds], [0, 0, 1800]);
+  assertEquals([slots[1].startBatteryChargeKwh, slots[1].endBatteryChargePercent], [5, 50]);
+});
+
+Deno.test("leaves outages out and battery levels empty without a nearby reading", () => {
+  const slots = actualsForSlots([...readings(0, 10), ...readings(20, 24)], START, START + 60 * MINUTE, -1);
+
+  assertEquals(slots[0].coveredSeconds, 14 * 60);
+  assertEquals([slots[1].startBatteryChargeKwh, slots[1].endBatteryChargeKwh, slots[1].coveredSeconds], [null, null, 0]);
+
+  const csv = actualsToCsv(slots).split("\n");
+  assertEquals(csv[0].split(",").slice(0, 3), ["segmentStart", "segmentEnd", "actualSolarGeneration"]);
+  assertEquals(csv[2].split(",").slice(6, 11), ["", "", "", "", "0"]);
+});
+
+Deno.test("writes finished half hours of the configured days to the output file", async () => {
+  const directory = await Deno.makeTempDir();
+  const database = new DatabaseService(":memory:");
+  for (const metric of readings(-1, 45)) {
+    database.insertMetric(metric);
+  }
+  const service = new ForecastActualsService(database, -1, {
+    enabled: true,
+    outputPath: `${directory}/planner/actuals.csv`,
+    days: 1,
+    writeIntervalMinutes: 30
+  });
+
+  const actuals = await service.writeFile(START + 45 * MINUTE);
+  assertEquals([actuals.from, actuals.to, actuals.slots.length], ["2025-06-01", "2025-06-01", 1]);
+  const lines = (await Deno.readTextFile(`${directory}/planner/actuals.csv`)).trim().split("\n");
+  assertEquals(lines.length, 2);
+  assertEquals(lines[1].startsWith("2025-06-01T00:00:00+01:00,2025-06-01T00:30:00+01:00,"), true);
+
+  database.close();
+  await Deno.remove(directory, { recursive: true });
+});
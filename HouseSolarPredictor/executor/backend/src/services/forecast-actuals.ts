@@ -0,0 +1,111 @@
+import {ForecastActualsSlot, MetricInstance} from "@shared";
+import {addEnergy, emptyEnergy, integrateAcross, MAX_GAP_MS, PowerReading} from "./energy-integration.ts";
+import {TIME_ZONE} from "../time-zone.ts";
+
+export const SLOT_MS = 30 * 60_000;
+export const MAX_ACTUALS_DAYS = 31; // the most days one API request can cover, since every reading in the range is loaded
+
+const CSV_COLUMNS = [
+  "segmentStart",
+  "segmentEnd",
+  "actualSolarGeneration",
+  "actualConsumption",
+  "gridImportKwh",
+  "gridExportKwh",
+  "startBatteryChargeKwh",
+  "endBatteryChargeKwh",
+  "startBatteryChargePercent",
+  "endBatteryChargePercent",
+  "coveredSeconds"
+] as const;
+
+/**
+ * Measured energy for each half hour from `from` to `to`, integrated from stored readings the same
+ * way as energy accounting, with the battery level at each boundary. `metrics` must be oldest
+ * first and should start MAX_GAP_MS before `from` so the first half hour is complete.
+ */
+export function actualsForSlots(metrics: MetricInstance[], from: number, to: number, exportSign: number): ForecastActualsSlot[] {
+  const energies = [];
+  for (let start = from; start < to; start += SLOT_MS) {
+    energies.push(emptyEnergy());
+  }
+
+  const readings: PowerReading[] = metrics.map(metric => ({
+    timestamp: metric.timestamp,
+    gridPower: metric.gridPower ?? 0,
+    loadPower: metric.loadPower ?? 0,
+    batteryPower: metric.batteryPower ?? 0
+  }));
+  for (let index = 1; index < readings.length; index++) {
+    const pieces = integrateAcross(readings[index - 1], readings[index], exportSign, timestamp => {
+      const slot = Math.floor((timestamp - from) / SLOT_MS);
+      return { slot, end: from + (slot + 1) * SLOT_MS };
+    });
+    for (const { period: { slot }, energy } of pieces) {
+      if (slot >= 0 && slot < energies.length) {
+        energies[slot] = addEnergy(energies[slot], energy);
+      }
+    }
+  }
+
+  return energies.map((energy, slot) => {
+    const start = from + slot * SLOT_MS;
+    const end = start + SLOT_MS;
+    const startBattery = batteryAt(metrics, start);
+    const endBattery = batteryAt(metrics, end);
+    return {
+      time: { segmentStart: londonTime(start), segmentEnd: londonTime(end) },
+      actualSolarGeneration: energy.solarKwh,
+      actualConsumption: energy.loadKwh,
+      gridImportKwh: energy.importKwh,
+      gridExportKwh: energy.exportKwh,
+      startBatteryChargeKwh: startBattery.kwh,
+      endBatteryChargeKwh: endBattery.kwh,
+      startBatteryChargePercent: startBattery.percent,
+      endBatteryChargePercent: endBattery.percent,
+      coveredSeconds: energy.coveredSeconds
+    };
+  });
+}
+
+/**
+ * One row per half hour with a header row; missing battery levels are left empty
+ */
+export function actualsToCsv(slots: ForecastActualsSlot[]): string {
+  const rows = slots.map(slot => CSV_COLUMNS.map(column => {
+    const value = column === "segmentStart" || column === "segmentEnd" ? slot.time[column] : slot[column];
+    return value === null ? "" : String(value);
+  }).join(","));
+  return [CSV_COLUMNS.join(","), ...rows].join("\n") + "\n";
+}
+
+// The last reading at or before a boundary, or failing that the first one after, within MAX_GAP_MS
+function batteryAt(metrics: MetricInstance[], timestamp: number): { kwh: number | null; percent: number | null } {
+  let low = 0;
+  let high = metrics.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (metrics[middle].timestamp <= timestamp) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+
+  const before = metrics[low - 1];
+  const after = metrics[low];
+  const reading = before && timestamp - before.timestamp <= MAX_GAP_MS
+    ? before
+    : after && after.timestamp - timestamp <= MAX_GAP_MS ? after : undefined;
+  if (!reading || reading.batteryChargePercent === null || reading.batteryChargePercent === undefined) {
+    return { kwh: null, percent: null };
+  }
+  return {
+    kwh: reading.batteryCapacity > 0 ? (reading.batteryChargePercent / 100) * reading.batteryCapacity : null,
+    percent: reading.batteryChargePercent
+  };
+}
+
+function londonTime(epochMilliseconds: number): string {
+  return Temporal.Instant.fromEpochMilliseconds(epochMilliseconds).toZonedDateTimeISO(TIME_ZONE).toString({ timeZoneName: "never" });
+}
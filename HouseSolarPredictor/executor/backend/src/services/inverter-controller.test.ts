@@ -0,0 +1,124 @@
+import {assertEquals} from "@std/assert";
+import {InverterMode, OutputsMode} from "@shared";
+import {InverterController} from "./inverter-controller.ts";
+import {ConfigService} from "./config.ts";
+import {DatabaseService} from "./database.ts";
+import {ScheduleService} from "./schedule.ts";
+import {TariffService} from "./tariff-service.ts";
+import {parseManualOverrideRequest} from "./manual-override.ts";
+import {InverterDriver, TelemetryField} from "./drivers/inverter-driver.ts";
+
+const CONFIG = {
+  mqtt: { host: "localhost", port: 1883, clientId: "test" },
+  smtp: { host: "localhost", port: 25, from: "test@example.com", to: "test@example.com" },
+  retryAttempts: 3,
+  retryDelayMinutes: 5,
+  webPort: 8080,
+  shadowMode: true
+};
+
+const SCHEDULE = JSON.stringify([{
+  time: { segmentStart: "2025-06-01T00:00:00+01:00", segmentEnd: "2025-06-01T00:30:00+01:00" },
+  mode: OutputsMode.ChargeSolarOnly,
+  expectedSolarGeneration: 0,
+  expectedConsumption: 0,
+  startBatteryChargeKwh: 5,
+  endBatteryChargeKwh: 5,
+  wastedSolarGeneration: 0,
+  actualGridUsage: 0
+}]);
+
+function fakeDriver() {
+  const handlers = new Map<TelemetryField, (value: string) => void>();
+  const writes: string[] = [];
+  const driver: InverterDriver = {
+    getName: () => "Fake",
+    getCapabilities: () => ({
+      workModes: ["Battery first", "Load first"],
+      supportsChargeRate: true,
+      minChargeRate: 0,
+      maxChargeRate: 100,
+      reportsCommandResponses: false
+    }),
+    onTelemetry: (field, handler) => handlers.set(field, handler),
+    onCommandResponse: () => {},
+    getDeviceMetrics: () => [],
+    setWorkMode: (mode: InverterMode) => {
+      writes.push(`work mode ${mode}`);
+      return Promise.resolve();
+    },
+    setChargeRate: (rate: number) => {
+      writes.push(`charge rate ${rate}`);
+      return Promise.resolve();
+    }
+  };
+
+  /** Reports the inverter in Load first at 0%, with enough power readings for the controller to start */
+  const report = () => {
+    for (let i = 0; i < 10; i++) {
+      handlers.get("loadPower")!("500");
+      handlers.get("gridPower")!("500");
+      handlers.get("batteryPower")!("0");
+    }
+    handlers.get("batteryCurrent")!("0");
+    handlers.get("batteryChargePercent")!("50");
+    handlers.get("batteryCapacity")!("10");
+    handlers.get("batteryChargeRate")!("0");
+    handlers.get("workModePriority")!("Load first");
+  };
+  return { driver, writes, report };
+}
+
+async function withController(test: (controller: InverterController, database: DatabaseService, writes: string[]) => Promise<void>): Promise<void> {
+  const directory = await Deno.makeTempDir();
+  await Deno.writeTextFile(`${directory}/config.json`, JSON.stringify({ ...CONFIG, schedulePath: `${directory}/schedule.json` }));
+  await Deno.writeTextFile(`${directory}/schedule.json`, SCHEDULE);
+  const configService = new ConfigService(`${directory}/config.json`);
+  const database = new DatabaseService(":memory:");
+  const tariffService = new TariffService(database, configService.getTariffConfig(), configService.getTariffImportConfig());
+  const scheduleService = new ScheduleService(`${directory}/schedule.json`, tariffService, configService.getScheduleValidationConfig(), database);
+  const { driver, writes, report } = fakeDriver();
+  const controller = new InverterController(driver, scheduleService, database, 3, 5, configService, tariffService);
+
+  try {
+    report();
+    await test(controller, database, writes);
+  } finally {
+    controller.stop();
+    scheduleService.stop();
+    database.close();
+    await Deno.remove(directory, { recursive: true });
+  }
+}
+
+function chargeOverride() {
+  return parseManualOverrideRequest({ mode: OutputsMode.ChargeFromGridAndSolar, durationMinutes: 60, reason: "test" });
+}
+
+Deno.test("shadow mode records what it would do without writing to the inverter", async () => {
+  await withController(async (controller, database, writes) => {
+    await controller.setManualOverride(chargeOverride());
+
+    assertEquals(writes, []);
+    assertEquals(controller.getState().status, "amber");
+    assertEquals(controller.getState().message, "Shadow mode: would set Battery first at 100%");
+    const actions = database.getShadowActions(Temporal.Now.plainDateISO("Europe/London"));
+    assertEquals(actions.map(action => [action.workMode, action.chargeRate, action.currentWorkMode, action.currentChargeRate, action.batteryChargePercent]), [
+      ["Battery first", 100, "Load first", 0, 50]
+    ]);
+
+    // The same decision on the next cycle isn't recorded again
+    await controller.setManualOverride(chargeOverride());
+    assertEquals(database.getShadowActions(Temporal.Now.plainDateISO("Europe/London")).length, 1);
+  });
+});
+
+Deno.test("turning shadow mode off sends the pending change to the inverter", async () => {
+  await withController(async (controller, _database, writes) => {
+    await controller.setManualOverride(chargeOverride());
+    assertEquals(writes, []);
+
+    await controller.setShadowMode(false);
+    assertEquals(writes, ["work mode Battery first"]);
+  });
+});
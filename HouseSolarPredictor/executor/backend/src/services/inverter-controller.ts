@@ -1,18 +1,34 @@
-import {MqttService} from "./mqtt.ts";
 import {ScheduleService} from "./schedule.ts";
 import {DatabaseService} from "./database.ts";
 import {ConfigService} from "./config.ts";
 import {SmtpClient} from "https://deno.land/x/smtp/mod.ts";
 import {Logger} from "../logger.ts";
-import {ControlAction, ControllerStatus, InverterMode, MetricInstance} from "@shared";
+import {AdherenceReport, ControlAction, ControllerStatus, EnergyReport, InverterDriverInfo, InverterMode, ManualOverride, MetricInstance, ProtectionDecision, ProtectionInfo, Replan} from "@shared";
 import {OutputsMode} from "@shared";
 import Instant = Temporal.Instant;
-import {ControllerState} from "../types/controller-state.ts";
-import type {ProtectionOverride} from "./protections/index.ts";
-import {BatteryProtection, WastedSolarProtection, BatteryOverchargeProtection} from "./protections/index.ts";
+import {ControllerState, NextScheduleInfo} from "../types/controller-state.ts";
+import {InverterDriver} from "./drivers/index.ts";
+import {MetricHistory} from "./metric-history.ts";
+import {StaleMetric, TelemetryWatchdog} from "./telemetry-watchdog.ts";
+import {ChargeRateController} from "./charge-rate-controller.ts";
+import {CommandResult, CommandTracker} from "./command-tracker.ts";
+import {EnergyIntegrator} from "./energy-integrator.ts";
+import {AdherenceTracker} from "./adherence-tracker.ts";
+import {Replanner} from "./replanner.ts";
+import {settingsForMode} from "./mode-settings.ts";
+import {TariffService} from "./tariff-service.ts";
+import {BackendTimeSegment} from "../../time/backend-time-segment.ts";
+import {
+  BatteryProtection,
+  WastedSolarProtection,
+  BatteryOverchargeProtection,
+  GridExportProtection,
+  GridImportProtection,
+  ProtectionPipeline
+} from "./protections/index.ts";
 
 export class InverterController {
-  private mqttService: MqttService;
+  private inverterDriver: InverterDriver;
   private scheduleService: ScheduleService;
   private databaseService: DatabaseService;
   private retryAttempts: number;
@@ -40,68 +56,92 @@ export class InverterController {
     solarPower: 0
   };
 
-  private controlTimer?: number;
-  private verificationTimer?: number;
-  private pendingActionId?: number;
+  private controlTimer?: ReturnType<typeof setInterval>;
+  private readonly commandTracker: CommandTracker;
   private retryCount = 0;
   private isSuspended = false;
   private hasReceivedMqttData = false;
+  private manualOverride: ManualOverride | null = null;
+  private firedProtections = new Map<string, ProtectionDecision>(); // by name, as last recorded
+  private shadowMode: boolean;
+  private lastShadowAction: { workMode: InverterMode; chargeRate: number } | null = null;
+  private readonly metricHistory = new MetricHistory(10); // rolling power readings for averaging
   
-  // Protection instances
-  private readonly batteryProtection: BatteryProtection;
-  private readonly wastedSolarProtection: WastedSolarProtection;
-  private readonly batteryOverchargeProtection: BatteryOverchargeProtection;
-  private readonly protections: ProtectionOverride[];
+  private readonly protectionPipeline: ProtectionPipeline;
+  private readonly telemetryWatchdog: TelemetryWatchdog;
+  private readonly chargeRateController: ChargeRateController;
+  private readonly energyIntegrator: EnergyIntegrator;
+  private readonly adherenceTracker: AdherenceTracker;
+  private readonly replanner: Replanner;
 
   constructor(
-    mqttService: MqttService,
+    inverterDriver: InverterDriver,
     scheduleService: ScheduleService,
     databaseService: DatabaseService,
     retryAttempts: number = 6,
     retryDelayMinutes: number = 5,
-    private configService: ConfigService
+    private configService: ConfigService,
+    tariffService: TariffService
   ) {
-    this.mqttService = mqttService;
+    this.inverterDriver = inverterDriver;
     this.scheduleService = scheduleService;
     this.databaseService = databaseService;
     this.retryAttempts = retryAttempts;
     this.retryDelayMinutes = retryDelayMinutes;
     this.logger = new Logger();
     
-    // Initialize protection instances
-    this.batteryProtection = new BatteryProtection();
-    this.wastedSolarProtection = new WastedSolarProtection();
-    this.batteryOverchargeProtection = new BatteryOverchargeProtection(scheduleService);
-    this.protections = [this.batteryProtection, this.wastedSolarProtection, this.batteryOverchargeProtection];
+    const protectionsConfig = configService.getProtectionsConfig();
+    const exportSign = configService.getMeteringConfig().exportSign;
+    this.protectionPipeline = new ProtectionPipeline([
+      new BatteryProtection(protectionsConfig.battery),
+      new WastedSolarProtection(protectionsConfig.wastedSolar),
+      new BatteryOverchargeProtection(scheduleService, protectionsConfig.batteryOvercharge),
+      new GridExportProtection(protectionsConfig.gridExport, exportSign),
+      new GridImportProtection(protectionsConfig.gridImport, this.metricHistory, exportSign)
+    ]);
+
+    this.telemetryWatchdog = new TelemetryWatchdog(configService.getTelemetryWatchdogConfig(), databaseService);
+    this.chargeRateController = new ChargeRateController(configService.getChargeRateControlConfig());
+    this.energyIntegrator = new EnergyIntegrator(
+      databaseService,
+      scheduleService,
+      exportSign,
+      tariffService
+    );
+    this.adherenceTracker = new AdherenceTracker(
+      databaseService,
+      scheduleService,
+      this.energyIntegrator,
+      this.chargeRateController.isEnabled()
+    );
+    this.replanner = new Replanner(scheduleService, configService.getReplanningConfig());
+    this.commandTracker = new CommandTracker(databaseService, configService.getCommandTimeoutSeconds());
+    this.commandTracker.onComplete(result => {
+      this.handleCommandResult(result).catch(error => {
+        this.logger.logException(error as Error);
+      });
+    });
+    this.shadowMode = configService.isShadowMode();
+    this.state.shadowMode = this.shadowMode;
+
+    // Restore any override that was active before a restart
+    this.manualOverride = this.databaseService.getCurrentManualOverride();
+    this.state.manualOverride = this.manualOverride ?? undefined;
     
-    this.setupMqttHandlers();
+    this.setupTelemetryHandlers();
   }
 
   private metricParts: Partial<MetricInstance> = {};
 
-  // Rolling average data structures
-  private readonly ROLLING_WINDOW_MINUTES = 10;
-  private readonly ROLLING_WINDOW_MS = this.ROLLING_WINDOW_MINUTES * 60 * 1000;
-  
-  private metricHistory: {
-    loadPower: Array<{ value: number; timestamp: number }>;
-    gridPower: Array<{ value: number; timestamp: number }>;
-    batteryPower: Array<{ value: number; timestamp: number }>;
-  } = {
-    loadPower: [],
-    gridPower: [],
-    batteryPower: []
-  };
-
-  private setupMqttHandlers(): void {
-    const topics = this.mqttService.getTopics();
-
-    this.mqttService.onMessage(topics.BATTERY_CHARGE_RATE_STATE, (message) => {
+  private setupTelemetryHandlers(): void {
+    this.inverterDriver.onTelemetry('batteryChargeRate', (message) => {
       this.metricParts.batteryChargeRate = parseFloat(message) || 0;
+      this.commandTracker.handleStateUpdate("charge_rate", message);
+      this.telemetryWatchdog.recordUpdate('batteryChargeRate');
       this.updateSystemState();
     });
 
-    this.mqttService.onMessage(topics.WORK_MODE_STATE, (message) => {
+    this.inverterDriver.onTelemetry('workModePriority', (message) => {
         // Validate the work mode
       if (message !== "Battery first" && message !== "Load first") {
           this.logger.log(`⚠️ Invalid work mode received: ${message}`);
@@ -120,92 +160,64 @@ export class InverterController {
 
       this.lastWorkMode = message;
       this.metricParts.workModePriority = message;
+      this.commandTracker.handleStateUpdate("work_mode", message);
+      this.telemetryWatchdog.recordUpdate('workModePriority');
       this.updateSystemState();
     });
 
-    this.mqttService.onMessage(topics.LOAD_POWER_STATE, (message) => {
+    this.inverterDriver.onTelemetry('loadPower', (message) => {
       const value = parseFloat(message) || 0;
       this.metricParts.loadPower = value;
-      this.addToMetricHistory('loadPower', value);
+      this.telemetryWatchdog.recordUpdate('loadPower');
+      this.metricHistory.add('loadPower', value);
       this.updateSystemState();
     });
 
-    this.mqttService.onMessage(topics.GRID_POWER_STATE, (message) => {
+    this.inverterDriver.onTelemetry('gridPower', (message) => {
       const value = parseFloat(message) || 0;
       this.metricParts.gridPower = value;
-      this.addToMetricHistory('gridPower', value);
+      this.telemetryWatchdog.recordUpdate('gridPower');
+      this.metricHistory.add('gridPower', value);
       this.updateSystemState();
     });
 
-    this.mqttService.onMessage(topics.BATTERY_POWER_STATE, (message) => {
+    this.inverterDriver.onTelemetry('batteryPower', (message) => {
       const value = parseFloat(message) || 0;
       this.metricParts.batteryPower = value;
-      this.addToMetricHistory('batteryPower', value);
+      this.telemetryWatchdog.recordUpdate('batteryPower');
+      this.metricHistory.add('batteryPower', value);
       this.updateSystemState();
     });
 
-    this.mqttService.onMessage(topics.BATTERY_CURRENT_STATE, (message) => {
+    this.inverterDriver.onTelemetry('batteryCurrent', (message) => {
       this.metricParts.batteryCurrent = parseFloat(message) || 0;
+      this.telemetryWatchdog.recordUpdate('batteryCurrent');
       this.updateSystemState();
     });
 
-    this.mqttService.onMessage(topics.BATTERY_CHARGE_STATE, (message) => {
+    this.inverterDriver.onTelemetry('batteryChargePercent', (message) => {
       this.metricParts.batteryChargePercent = parseFloat(message) || 0;
+      this.telemetryWatchdog.recordUpdate('batteryChargePercent');
       this.updateSystemState();
     });
 
-    this.mqttService.onMessage(topics.BATTERY_CAPACITY_STATE, (message) => {
+    this.inverterDriver.onTelemetry('batteryCapacity', (message) => {
       this.metricParts.batteryCapacity = parseFloat(message) || 0;
+      this.telemetryWatchdog.recordUpdate('batteryCapacity');
       this.updateSystemState();
     });
 
-    this.mqttService.onMessage(topics.RESPONSE_MESSAGE_STATE, (message) => {
+    this.inverterDriver.onCommandResponse((message) => {
       this.logger.log(`Inverter response: ${message}`);
       this.handleInverterResponse(message);
     });
   }
 
-  private addToMetricHistory(metric: keyof typeof this.metricHistory, value: number): void {
-    const now = Temporal.Now.instant().epochMilliseconds;
-    const history = this.metricHistory[metric];
-    
-    // Add new value
-    history.push({ value, timestamp: now });
-    
-    // Remove values older than the rolling window
-    const cutoffTime = now - this.ROLLING_WINDOW_MS;
-    while (history.length > 0 && history[0].timestamp < cutoffTime) {
-      history.shift();
-    }
-  }
-
-  private calculateRollingAverage(metric: keyof typeof this.metricHistory): number {
-    const history = this.metricHistory[metric];
-    
-    if (history.length === 0) {
-      return 0;
-    }
-    
-    // Clean up old entries first
-    const now = Temporal.Now.instant().epochMilliseconds;
-    const cutoffTime = now - this.ROLLING_WINDOW_MS;
-    while (history.length > 0 && history[0].timestamp < cutoffTime) {
-      history.shift();
-    }
-    
-    if (history.length === 0) {
-      return 0;
-    }
-    
-    const sum = history.reduce((acc, entry) => acc + entry.value, 0);
-    return sum / history.length;
-  }
-
   private hasEnoughHistoryForAverages(): boolean {
     // Require at least 10 data points for each metric to calculate meaningful averages
-    return this.metricHistory.loadPower.length >= 10 &&
-           this.metricHistory.gridPower.length >= 10 &&
-           this.metricHistory.batteryPower.length >= 10;
+    return this.metricHistory.count('loadPower') >= 10 &&
+           this.metricHistory.count('gridPower') >= 10 &&
+           this.metricHistory.count('batteryPower') >= 10;
   }
 
   private calculateSolarPower(): number {
@@ -213,9 +225,9 @@ export class InverterController {
     
     if (this.hasEnoughHistoryForAverages()) {
       // Use rolling averages for more stable solar power calculation
-      const avgLoadPower = this.calculateRollingAverage('loadPower');
-      const avgGridPower = this.calculateRollingAverage('gridPower');
-      const avgBatteryPower = this.calculateRollingAverage('batteryPower');
+      const avgLoadPower = this.metricHistory.average('loadPower');
+      const avgGridPower = this.metricHistory.average('gridPower');
+      const avgBatteryPower = this.metricHistory.average('batteryPower');
       
       // solar = load - grid + battery
       // Example: load 4000W, grid 2000W, battery -1000W = solar 1000W
@@ -276,15 +288,18 @@ export class InverterController {
         });
         this.hasReceivedMqttData = true;
     }
+    const devices = this.inverterDriver.getDeviceMetrics();
     this.currentMetrics = {
       ...this.currentMetrics,
       ...this.metricParts,
+      devices: devices.length > 0 ? devices : undefined,
       timestamp: Temporal.Now.instant().epochMilliseconds
     };
 
     this.databaseService.insertMetric({
       ...this.currentMetrics
     });
+    this.energyIntegrator.addReading(this.currentMetrics);
 
     this.lastMetricSaveTime = Temporal.Now.instant();
     // Update controller state
@@ -318,6 +333,13 @@ export class InverterController {
   private startControlLoop(): void {
     // Check every 30 seconds
     this.controlTimer = setInterval(() => {
+      // Scored even while suspended, since that is when the plan is least likely to be followed
+      try {
+        this.adherenceTracker.scoreEndedSegments();
+      } catch (error) {
+        this.logger.logException(error as Error);
+      }
+
       if (!this.isSuspended) {
         this.checkAndUpdateInverter().catch(error => {
           this.logger.logException(error as Error);
@@ -334,17 +356,8 @@ export class InverterController {
   private startHistoryCleanup(): void {
     // Clean up metric history every 5 minutes to prevent memory leaks
     setInterval(() => {
-      const now = Temporal.Now.instant().epochMilliseconds;
-      const cutoffTime = now - this.ROLLING_WINDOW_MS;
-      
-      for (const metric of Object.keys(this.metricHistory) as Array<keyof typeof this.metricHistory>) {
-        const history = this.metricHistory[metric];
-        while (history.length > 0 && history[0].timestamp < cutoffTime) {
-          history.shift();
-        }
-      }
-      
-      this.logger.log(`Metric history cleanup completed. Current sizes: Load=${this.metricHistory.loadPower.length}, Grid=${this.metricHistory.gridPower.length}, Battery=${this.metricHistory.batteryPower.length}`);
+      this.metricHistory.cleanup();
+      this.logger.log(`Metric history cleanup completed. Current sizes: ${this.metricHistory.describeSizes()}`);
     }, 5 * 60 * 1000); // Every 5 minutes
   }
 
@@ -356,6 +369,19 @@ export class InverterController {
         return;
     }
 
+    const staleMetrics = this.telemetryWatchdog.check();
+    if (staleMetrics.length > 0) {
+      await this.handleStaleTelemetry(staleMetrics);
+      return;
+    }
+
+    // A failed re-plan leaves the schedule as it was, so control carries on regardless
+    try {
+      this.replanner.check(this.currentMetrics);
+    } catch (error) {
+      this.logger.logException(error as Error);
+    }
+
     const currentSegment = this.scheduleService.getCurrentTimeSegment();
     this.state.currentSegment = currentSegment || undefined;
     
@@ -372,6 +398,7 @@ export class InverterController {
           startBatteryChargeKwh: currentSegment.startBatteryChargeKwh,
           endBatteryChargeKwh: currentSegment.endBatteryChargeKwh,
           gridPrice: currentSegment.gridPrice,
+          exportPrice: currentSegment.exportPrice,
           expectedSolarGeneration: currentSegment.expectedSolarGeneration,
           batteryLevel: this.currentMetrics.batteryChargePercent,
           workMode: this.currentMetrics.workModePriority,
@@ -382,23 +409,31 @@ export class InverterController {
       this.lastSegmentStart = currentSegmentStart;
     }
     
-    if (!currentSegment) {
+    const manualOverride = this.getActiveManualOverride();
+
+    if (!currentSegment && !manualOverride) {
       this.state.status = "red";
       this.state.message = "No current time segment found";
       await this.syncWorkModeToInverter("Battery first", 0); // idle conditions
       return;
     }
 
-    const { workMode, chargeRate } = this.getDesiredSettings(currentSegment.mode);
+    const plannedMode = manualOverride ? manualOverride.mode : currentSegment!.mode;
+    const { workMode, chargeRate: modeChargeRate } = this.getDesiredSettings(plannedMode);
+    const chargeRate = manualOverride
+      ? manualOverride.chargeRate ?? modeChargeRate
+      : this.getScheduledChargeRate(currentSegment!, modeChargeRate);
+
+    // A manual override is a deliberate choice, so only safety protections may still step in
     const { workMode: desiredWorkMode,
       chargeRate: desiredChargeRate,
       status,
       message
-    } = await this.applyApplicableOverrides(workMode, chargeRate);
+    } = this.applyApplicableOverrides(workMode, chargeRate, manualOverride !== null);
 
     await this.syncWorkModeToInverter(desiredWorkMode, desiredChargeRate);
-    // check is sync in progress
-    if (this.state.pendingAction)
+    // check is sync in progress, or shadow mode is holding back a change, which keeps its own message
+    if (this.state.pendingAction || this.lastShadowAction)
       return;
 
     if(status){
@@ -407,15 +442,143 @@ export class InverterController {
 
     if(message) {
       this.state.message = message;
+    } else if (manualOverride) {
+      this.state.message = this.describeManualOverride(manualOverride);
+    }
+
+    const rejectedReload = this.scheduleService.getRejectedReload();
+    if (rejectedReload && this.state.status === "green") {
+      this.state.status = "amber";
+      this.state.message = `Schedule reload rejected (${rejectedReload.report.errorCount} errors), running the last good schedule`;
+    }
+  }
+
+  private getScheduledChargeRate(segment: BackendTimeSegment, modeChargeRate: number): number {
+    // Closed-loop control only matters while grid charging; other modes use their fixed rate
+    if (!this.chargeRateController.isEnabled() || segment.mode !== OutputsMode.ChargeFromGridAndSolar) {
+      this.chargeRateController.reset();
+      return modeChargeRate;
+    }
+
+    const decision = this.chargeRateController.calculate(segment, this.currentMetrics);
+    if (decision.changed) {
+      this.logger.logSignificant("CHARGE_RATE_ADJUSTED", {
+        chargeRate: decision.chargeRate,
+        stateOfChargeErrorPercent: Number(decision.errorPercent.toFixed(1)),
+        batteryLevel: this.currentMetrics.batteryChargePercent,
+        expectedEndKwh: segment.endBatteryChargeKwh
+      });
     }
+    return decision.chargeRate;
+  }
+
+  private async handleStaleTelemetry(staleMetrics: StaleMetric[]): Promise<void> {
+    const response = this.telemetryWatchdog.respondTo(staleMetrics);
+    this.logger.log(`⚠️ ${response.message}`);
+
+    if (response.safeSettings) {
+      await this.syncWorkModeToInverter(response.safeSettings.workMode, response.safeSettings.chargeRate);
+      if (this.state.pendingAction)
+        return;
+    }
+
+    this.state.status = response.status;
+    this.state.message = response.message;
+  }
+
+  private getActiveManualOverride(): ManualOverride | null {
+    if (!this.manualOverride) {
+      return null;
+    }
+
+    const now = Temporal.Now.instant().epochMilliseconds;
+    if (now >= this.manualOverride.endTime) {
+      this.logger.logSignificant("MANUAL_OVERRIDE_EXPIRED", {
+        mode: this.manualOverride.mode,
+        chargeRate: this.manualOverride.chargeRate,
+        reason: this.manualOverride.reason
+      });
+      this.databaseService.endManualOverride(this.manualOverride.id!, "expired");
+      this.manualOverride = null;
+      this.state.manualOverride = undefined;
+      return null;
+    }
+
+    if (now < this.manualOverride.startTime) {
+      return null;
+    }
+
+    return this.manualOverride;
+  }
+
+  private describeManualOverride(override: ManualOverride): string {
+    const until = Temporal.Instant.fromEpochMilliseconds(override.endTime)
+      .toZonedDateTimeISO('Europe/London')
+      .toPlainTime()
+      .toString({ smallestUnit: 'minute' });
+    return `Manual override ${override.mode} until ${until} (${override.reason})`;
+  }
+
+  async setManualOverride(override: ManualOverride): Promise<ManualOverride> {
+    if (this.manualOverride) {
+      this.databaseService.endManualOverride(this.manualOverride.id!, "replaced");
+    }
+
+    const id = this.databaseService.insertManualOverride(override);
+    this.manualOverride = { ...override, id };
+    this.state.manualOverride = this.manualOverride;
+
+    this.logger.logSignificant("MANUAL_OVERRIDE_SET", {
+      mode: override.mode,
+      chargeRate: override.chargeRate,
+      start: Temporal.Instant.fromEpochMilliseconds(override.startTime).toString(),
+      end: Temporal.Instant.fromEpochMilliseconds(override.endTime).toString(),
+      reason: override.reason
+    });
+
+    if (!this.isSuspended) {
+      await this.checkAndUpdateInverter();
+    }
+    return this.manualOverride;
+  }
+
+  async clearManualOverride(): Promise<boolean> {
+    if (!this.manualOverride) {
+      return false;
+    }
+
+    this.logger.logSignificant("MANUAL_OVERRIDE_CLEARED", {
+      mode: this.manualOverride.mode,
+      reason: this.manualOverride.reason
+    });
+    this.databaseService.endManualOverride(this.manualOverride.id!, "cleared");
+    this.manualOverride = null;
+    this.state.manualOverride = undefined;
+
+    if (!this.isSuspended) {
+      await this.checkAndUpdateInverter();
+    }
+    return true;
+  }
+
+  getManualOverride(): ManualOverride | null {
+    return this.manualOverride;
   }
 
   private async syncWorkModeToInverter(workMode: InverterMode, chargeRate: number): Promise<boolean> {
-    this.state.desiredWorkMode = workMode;
-    this.state.desiredChargeRate = chargeRate;
     let currentMode = this.currentMetrics.workModePriority;
     let currentRate = this.currentMetrics.batteryChargeRate;
 
+    const capabilities = this.inverterDriver.getCapabilities();
+    if (!capabilities.supportsChargeRate) {
+      chargeRate = currentRate; // The driver can't change it, so don't keep trying
+    } else {
+      chargeRate = Math.max(capabilities.minChargeRate, Math.min(capabilities.maxChargeRate, chargeRate));
+    }
+
+    this.state.desiredWorkMode = workMode;
+    this.state.desiredChargeRate = chargeRate;
+
     if(chargeRate !== currentRate) {
       workMode = "Battery first";
     }
@@ -424,11 +587,19 @@ export class InverterController {
     const needsChargeRateChange = currentRate !== chargeRate;
 
     if (!needsWorkModeChange && !needsChargeRateChange) {
+      this.lastShadowAction = null;
       this.state.status = "green";
       this.state.message = "Inverter is already in the correct state ✅";
       return true;
     }
 
+    if (this.shadowMode) {
+      this.recordShadowAction(workMode, chargeRate);
+      this.state.status = "amber";
+      this.state.message = `Shadow mode: would set ${workMode} at ${chargeRate}%`;
+      return false;
+    }
+
     // If we have a pending action, don't start a new one
     if (this.state.pendingAction) {
       this.logger.log("🔄 Pending action already in progress, skipping control update");
@@ -459,25 +630,71 @@ export class InverterController {
   }
 
 
-  private getDesiredSettings(mode: OutputsMode): { workMode: InverterMode; chargeRate: number } {
-    // Get base settings from schedule
-    let baseSettings: { workMode: InverterMode; chargeRate: number };
-    
-    switch (mode) {
-      case OutputsMode.ChargeFromGridAndSolar:
-        baseSettings = { workMode: "Battery first", chargeRate: 100 };
-        break;
-      case OutputsMode.ChargeSolarOnly:
-        baseSettings = { workMode: "Battery first", chargeRate: 0 };
-        break;
-      case OutputsMode.Discharge:
-        baseSettings = { workMode: "Load first", chargeRate: 0 };
-        break;
-      default:
-        throw new Error(`Unknown mode: ${mode}`);
+  private recordShadowAction(workMode: InverterMode, chargeRate: number): void {
+    // Only record when the decision changes, not on every control cycle
+    if (this.lastShadowAction?.workMode === workMode && this.lastShadowAction.chargeRate === chargeRate) {
+      return;
+    }
+    this.lastShadowAction = { workMode, chargeRate };
+
+    this.logger.log(`👻 Shadow mode: would set Work Mode=${workMode}, Charge Rate=${chargeRate}%`);
+    this.logger.logSignificant("SHADOW_ACTION", {
+      workMode,
+      chargeRate,
+      currentWorkMode: this.currentMetrics.workModePriority,
+      currentChargeRate: this.currentMetrics.batteryChargeRate,
+      batteryLevel: this.currentMetrics.batteryChargePercent
+    });
+    this.databaseService.insertShadowAction({
+      timestamp: Temporal.Now.instant().epochMilliseconds,
+      workMode,
+      chargeRate,
+      currentWorkMode: this.currentMetrics.workModePriority,
+      currentChargeRate: this.currentMetrics.batteryChargeRate,
+      batteryChargePercent: this.currentMetrics.batteryChargePercent
+    });
+  }
+
+  async setShadowMode(enabled: boolean): Promise<void> {
+    if (this.shadowMode === enabled) {
+      return;
+    }
+
+    this.shadowMode = enabled;
+    this.state.shadowMode = enabled;
+    this.lastShadowAction = null;
+    this.logger.logSignificant("SHADOW_MODE_CHANGED", { enabled });
+
+    if (!this.isSuspended) {
+      await this.checkAndUpdateInverter();
     }
+  }
+
+  isShadowMode(): boolean {
+    return this.shadowMode;
+  }
+
+  getEnergyReport(from: Temporal.PlainDate, to: Temporal.PlainDate): EnergyReport {
+    return this.energyIntegrator.getReport(from, to);
+  }
+
+  getAdherenceReport(date: Temporal.PlainDate): AdherenceReport {
+    return this.adherenceTracker.getReport(date);
+  }
 
-    return baseSettings;
+  getReplan(): Replan | null {
+    return this.replanner.getReplan();
+  }
+
+  getInverterDriverInfo(): InverterDriverInfo {
+    return {
+      name: this.inverterDriver.getName(),
+      capabilities: this.inverterDriver.getCapabilities()
+    };
+  }
+
+  private getDesiredSettings(mode: OutputsMode): { workMode: InverterMode; chargeRate: number } {
+    return settingsForMode(mode);
   }
 
   private async executeControlSequence(
@@ -503,7 +720,6 @@ export class InverterController {
       if (needsWorkModeChange) {
         await this.setWorkMode(targetWorkMode);
         this.logger.log(`Work mode set to ${targetWorkMode} waiting for confirmation`);
-        this.startVerificationTimer();
         return;
       }
 
@@ -511,7 +727,6 @@ export class InverterController {
       if (needsChargeRateChange && targetWorkMode === "Battery first") {
         await this.setChargeRate(targetChargeRate);
         this.logger.log(`Charge rate set to ${targetChargeRate}% waiting for confirmation`);
-        this.startVerificationTimer();
         return;
       }
 
@@ -530,10 +745,9 @@ export class InverterController {
       retryCount: this.retryCount
     };
 
-    this.pendingActionId = this.databaseService.insertControlAction(action);
-    this.state.pendingAction = { ...action, id: this.pendingActionId };
+    this.state.pendingAction = this.commandTracker.start(action);
 
-    await this.mqttService.publishWorkMode(mode as "Battery first" | "Load first");
+    await this.inverterDriver.setWorkMode(mode as InverterMode);
   }
 
   private async setChargeRate(rate: number): Promise<void> {
@@ -545,78 +759,52 @@ export class InverterController {
       retryCount: this.retryCount
     };
 
-    this.pendingActionId = this.databaseService.insertControlAction(action);
-    this.state.pendingAction = { ...action, id: this.pendingActionId };
+    this.state.pendingAction = this.commandTracker.start(action);
 
-    await this.mqttService.publishChargeRate(rate);
+    await this.inverterDriver.setChargeRate(rate);
   }
 
-  private startVerificationTimer(): void {
-    // Clear any existing timer
-    if (this.verificationTimer) {
-      clearTimeout(this.verificationTimer);
-    }
+  private async handleCommandResult(result: CommandResult): Promise<void> {
+    const { action, success, message } = result;
+    this.state.pendingAction = undefined;
 
-    // Wait 30 seconds then verify the change was applied
-    this.verificationTimer = setTimeout(() => {
-      this.verifyControlAction().catch(error => {
-        this.logger.logException(error as Error);
+    if (!success) {
+      this.logger.log(`Control action ${result.status}: ${message}`);
+      this.logger.logSignificant("CONTROL_ACTION_FAILED", {
+        actionType: action.actionType,
+        targetValue: action.targetValue,
+        status: result.status,
+        actualWorkMode: this.currentMetrics.workModePriority,
+        actualChargeRate: this.currentMetrics.batteryChargeRate,
+        batteryLevel: this.currentMetrics.batteryChargePercent,
+        retryCount: this.retryCount,
+        responseMessage: message
       });
-    }, 60000);
-  }
-
-  private async verifyControlAction(): Promise<void> {
-    if (!this.state.pendingAction || !this.pendingActionId) {
+      await this.handleControlFailure(message);
       return;
     }
 
-    const action = this.state.pendingAction;
-    let success = false;
-    let responseMessage = "";
+    this.logger.log(`✅ Control action succeeded: ${message}`);
+    this.logger.logSignificant("CONTROL_ACTION_SUCCESS", {
+      actionType: action.actionType,
+      targetValue: action.targetValue,
+      batteryLevel: this.currentMetrics.batteryChargePercent,
+      responseMessage: message
+    });
+    this.retryCount = 0;
+    this.state.status = "green";
+    this.state.message = "System updated successfully";
 
+    // The state topic has confirmed the value, so don't wait for the throttled metric snapshot
     if (action.actionType === "work_mode") {
-      success = this.currentMetrics.workModePriority === action.targetValue;
-      responseMessage = success ? "Work mode updated successfully" : 
-        `Work mode verification failed. Expected: ${action.targetValue}, Actual: ${this.currentMetrics.workModePriority}`;
-    } else if (action.actionType === "charge_rate") {
-      const expectedRate = parseInt(action.targetValue);
-      success = Math.abs(this.currentMetrics.batteryChargeRate - expectedRate) < 1; // Allow 1% tolerance
-      responseMessage = success ? "Charge rate updated successfully" : 
-        `Charge rate verification failed. Expected: ${expectedRate}%, Actual: ${this.currentMetrics.batteryChargeRate}%`;
+      this.currentMetrics.workModePriority = action.targetValue as InverterMode;
     } else {
-      throw new Error(`Unknown action type: ${action.actionType}`);
+      this.currentMetrics.batteryChargeRate = parseFloat(action.targetValue);
     }
 
-    // Update the action in storage
-    await this.databaseService.updateControlAction(this.pendingActionId, success, responseMessage);
-
-    if (success) {
-      this.logger.log(`✅ Control action succeeded: ${responseMessage}`);
-      this.logger.logSignificant("CONTROL_ACTION_SUCCESS", {
-        actionType: action.actionType,
-        targetValue: action.targetValue,
-        actualWorkMode: this.currentMetrics.workModePriority,
-        actualChargeRate: this.currentMetrics.batteryChargeRate,
-        batteryLevel: this.currentMetrics.batteryChargePercent,
-        responseMessage
-      });
-      this.state.pendingAction = undefined;
-      this.pendingActionId = undefined;
-      this.retryCount = 0;
-      this.state.status = "green";
-      this.state.message = "System updated successfully";
-    } else {
-      this.logger.log(`Control action failed: ${responseMessage}`);
-      this.logger.logSignificant("CONTROL_ACTION_FAILED", {
-        actionType: action.actionType,
-        targetValue: action.targetValue,
-        actualWorkMode: this.currentMetrics.workModePriority,
-        actualChargeRate: this.currentMetrics.batteryChargeRate,
-        batteryLevel: this.currentMetrics.batteryChargePercent,
-        retryCount: this.retryCount,
-        responseMessage
-      });
-      await this.handleControlFailure(responseMessage);
+    // Carry straight on with the next step of the control sequence, if there is one
+    if (!this.isSuspended) {
+      await this.checkAndUpdateInverter();
     }
   }
 
@@ -629,7 +817,7 @@ export class InverterController {
       
       // Clear pending action and retry after delay
       this.state.pendingAction = undefined;
-      this.pendingActionId = undefined;
+      this.commandTracker.cancel();
       
       setTimeout(() => {
         this.checkAndUpdateInverter().catch(error => {
@@ -644,6 +832,10 @@ export class InverterController {
 
   private async handleControlError(error: Error): Promise<void> {
     this.logger.logException(error);
+    const pending = this.commandTracker.getPending();
+    if (pending) {
+      this.databaseService.updateControlActionStatus(pending.id!, "rejected", `Publish failed: ${error.message}`);
+    }
     await this.handleControlFailure(error.message);
   }
 
@@ -652,7 +844,7 @@ export class InverterController {
     this.state.status = "red";
     this.state.message = `Operations suspended: ${reason}`;
     this.state.pendingAction = undefined;
-    this.pendingActionId = undefined;
+    this.commandTracker.cancel();
 
     await this.databaseService.insertSystemStatus("red", reason);
     
@@ -673,13 +865,11 @@ export class InverterController {
     // Log the response message
     this.logger.log(`Inverter response logged: ${message}`);
     
-    // If we have a pending action, this might be the response to it
-    if (this.state.pendingAction && this.pendingActionId) {
-      this.databaseService.updateControlAction(
-        this.pendingActionId, 
-        true, 
-        `Inverter response: ${message}`
-      );
+    const response = this.commandTracker.handleResponse(message);
+    if (response === "unknown") {
+      this.logger.log(`⚠️ Unrecognised inverter response: ${message}`);
+    } else if (response === "ack" && this.state.pendingAction) {
+      this.state.pendingAction = this.commandTracker.getPending();
     }
   }
 
@@ -713,6 +903,16 @@ export class InverterController {
     return { ...this.state };
   }
 
+  getProtectionInfo(): ProtectionInfo[] {
+    return this.protectionPipeline.getProtections().map(protection => ({
+      name: protection.getName(),
+      category: protection.category,
+      priority: protection.priority,
+      enabled: protection.isEnabled(),
+      settings: protection.getSettings()
+    }));
+  }
+
   getCurrentMetrics() {
     const remainingBatteryKwh = this.getRemainingBatteryKwh();
     const nextScheduleInfo = this.getNextScheduleInfo();
@@ -733,7 +933,7 @@ export class InverterController {
     return (this.currentMetrics.batteryChargePercent / 100) * this.currentMetrics.batteryCapacity;
   }
 
-  private getNextScheduleInfo(): { startTime: Instant; mode: string; expectedStartChargeKwh: number; timeUntil: string } | null {
+  private getNextScheduleInfo(): NextScheduleInfo | null {
     const nextSegment = this.scheduleService.getNextTimeSegment();
     if (!nextSegment) {
       return null;
@@ -763,14 +963,11 @@ export class InverterController {
     if (this.controlTimer) {
       clearInterval(this.controlTimer);
     }
-    if (this.verificationTimer) {
-      clearTimeout(this.verificationTimer);
-    }
+    this.commandTracker.cancel();
+    this.energyIntegrator.flush();
     
     // Clear metric history to free memory
-    this.metricHistory.loadPower = [];
-    this.metricHistory.gridPower = [];
-    this.metricHistory.batteryPower = [];
+    this.metricHistory.clear();
   }
 
   private async sendEmailNotification(reason: string) {
@@ -810,33 +1007,100 @@ export class InverterController {
     await client.close();
   }
 
-  private async applyApplicableOverrides( workMode: InverterMode, chargeRate: number): Promise<{
+  private applyApplicableOverrides(
+    workMode: InverterMode,
+    chargeRate: number,
+    safetyOnly: boolean
+  ): {
     workMode: InverterMode,
     chargeRate: number,
     status: ControllerStatus | null,
-    message: string | null}> {
-    
-    // Check each protection in order of priority
-    for (const protection of this.protections) {
-      const override = protection.checkOverride(workMode, chargeRate, this.currentMetrics);
-      
-      if (override) {
-        const protectionName = protection.getName();
-        this.logger.log(`⚠️ ${protectionName} active`);
-        
-        return {
-          ...override,
-          status: "amber",
-          message: `${protectionName} active`
-        };
-      }
+    message: string | null} {
+
+    const result = this.protectionPipeline.run(workMode, chargeRate, this.currentMetrics, safetyOnly);
+    this.state.protectionDecisions = result.decisions;
+    this.recordProtectionTransitions(result.decisions, workMode, chargeRate);
+
+    if (result.appliedProtections.length === 0) {
+      return {
+        workMode,
+        chargeRate,
+        status: null,
+        message: null
+      };
+    }
+
+    let message = `${result.appliedProtections.join(", ")} active`;
+    if (result.suppressedProtections.length > 0) {
+      message += ` (overruled: ${result.suppressedProtections.join(", ")})`;
     }
+    this.logger.log(`⚠️ ${message}`);
 
     return {
-      workMode,
-      chargeRate,
-      status: null,
-      message: null
+      workMode: result.workMode,
+      chargeRate: result.chargeRate,
+      status: "amber",
+      message
     };
   }
+
+  private recordProtectionTransitions(
+    decisions: ProtectionDecision[],
+    plannedWorkMode: InverterMode,
+    plannedChargeRate: number
+  ): void {
+    const timestamp = Temporal.Now.instant().epochMilliseconds;
+    const batteryChargePercent = this.currentMetrics.batteryChargePercent;
+    // A protection that fired counts whether its action was applied or overruled
+    const fired = decisions.filter(decision => decision.outcome === "applied" || decision.outcome === "suppressed");
+
+    for (const decision of fired) {
+      const previous = this.firedProtections.get(decision.name);
+      if (previous && previous.outcome === decision.outcome && previous.reason === decision.reason
+        && JSON.stringify(previous.action) === JSON.stringify(decision.action)) {
+        continue;
+      }
+      const eventType = previous ? "changed" : "activated";
+      this.logger.logSignificant(previous ? "PROTECTION_CHANGED" : "PROTECTION_ACTIVATED", {
+        protection: decision.name,
+        outcome: decision.outcome,
+        reason: decision.reason,
+        plannedWorkMode,
+        plannedChargeRate,
+        action: JSON.stringify(decision.action),
+        batteryLevel: batteryChargePercent
+      });
+      this.databaseService.insertProtectionEvent({
+        timestamp,
+        protectionName: decision.name,
+        eventType,
+        plannedWorkMode,
+        plannedChargeRate,
+        action: decision.action,
+        outcome: decision.outcome as "applied" | "suppressed",
+        reason: decision.reason,
+        batteryChargePercent
+      });
+    }
+
+    for (const protectionName of this.firedProtections.keys()) {
+      if (fired.some(decision => decision.name === protectionName)) {
+        continue;
+      }
+      this.logger.logSignificant("PROTECTION_DEACTIVATED", {
+        protection: protectionName,
+        batteryLevel: batteryChargePercent
+      });
+      this.databaseService.insertProtectionEvent({
+        timestamp,
+        protectionName,
+        eventType: "deactivated",
+        plannedWorkMode,
+        plannedChargeRate,
+        batteryChargePercent
+      });
+    }
+
+    this.firedProtections = new Map(fired.map(decision => [decision.name, decision]));
+  }
 }
@@ -0,0 +1,61 @@
+import {assertEquals, assertThrows} from "@std/assert";
+import {ManualOverrideRequest, OutputsMode} from "@shared";
+import {parseManualOverrideRequest} from "./manual-override.ts";
+
+const REQUEST: ManualOverrideRequest = {
+  mode: OutputsMode.ChargeFromGridAndSolar,
+  durationMinutes: 60,
+  reason: "Cheap slot"
+};
+
+Deno.test("resolves a duration from now and trims the reason", () => {
+  const before = Temporal.Now.instant().epochMilliseconds;
+  const override = parseManualOverrideRequest({ ...REQUEST, chargeRate: 50, reason: "  Cheap slot  " });
+
+  assertEquals([override.mode, override.chargeRate, override.reason], [OutputsMode.ChargeFromGridAndSolar, 50, "Cheap slot"]);
+  assertEquals(override.startTime >= before, true);
+  assertEquals(override.endTime - override.startTime, 60 * 60_000);
+});
+
+Deno.test("takes an explicit start and end over a duration", () => {
+  const start = Temporal.Now.instant().add({ hours: 1 });
+  const end = start.add({ hours: 2 });
+  const override = parseManualOverrideRequest({ ...REQUEST, startTime: start.toString(), endTime: end.toString() });
+
+  assertEquals([override.startTime, override.endTime], [start.epochMilliseconds, end.epochMilliseconds]);
+});
+
+Deno.test("rejects an unknown mode", () => {
+  assertThrows(() => parseManualOverrideRequest({ ...REQUEST, mode: "Idle" as OutputsMode }), Error, "Invalid mode: Idle");
+});
+
+Deno.test("rejects a charge rate outside 0 to 100", () => {
+  for (const chargeRate of [-1, 101, "50" as unknown as number]) {
+    assertThrows(() => parseManualOverrideRequest({ ...REQUEST, chargeRate }), Error, "Charge rate must be between 0 and 100");
+  }
+});
+
+Deno.test("rejects a missing reason", () => {
+  assertThrows(() => parseManualOverrideRequest({ ...REQUEST, reason: "  " }), Error, "A reason is required");
+});
+
+Deno.test("rejects a missing or non-positive duration without an end time", () => {
+  const { durationMinutes: _, ...withoutDuration } = REQUEST;
+  assertThrows(() => parseManualOverrideRequest(withoutDuration), Error, "Either endTime or a positive durationMinutes is required");
+  assertThrows(() => parseManualOverrideRequest({ ...REQUEST, durationMinutes: 0 }), Error, "Either endTime or a positive durationMinutes is required");
+});
+
+Deno.test("rejects an end in the past, before its start or too far after it", () => {
+  const now = Temporal.Now.instant();
+  assertThrows(
+    () => parseManualOverrideRequest({ ...REQUEST, startTime: now.subtract({ hours: 2 }).toString(), endTime: now.subtract({ hours: 1 }).toString() }),
+    Error,
+    "Override end must be in the future"
+  );
+  assertThrows(
+    () => parseManualOverrideRequest({ ...REQUEST, startTime: now.add({ hours: 2 }).toString(), endTime: now.add({ hours: 1 }).toString() }),
+    Error,
+    "Override end must be after its start"
+  );
+  assertThrows(() => parseManualOverrideRequest({ ...REQUEST, durationMinutes: 49 * 60 }), Error, "cannot last longer than 48 hours");
+});
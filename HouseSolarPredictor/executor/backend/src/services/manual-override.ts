@@ -0,0 +1,58 @@
+import {ManualOverride, ManualOverrideRequest, OutputsMode} from "@shared";
+
+const MAX_OVERRIDE_DURATION_HOURS = 48;
+
+/**
+ * Validates an override request from the API and resolves its start/end instants
+ * @throws Error describing the first invalid field
+ */
+export function parseManualOverrideRequest(request: ManualOverrideRequest): ManualOverride {
+  if (!Object.values(OutputsMode).includes(request.mode)) {
+    throw new Error(`Invalid mode: ${request.mode}. Must be one of: ${Object.values(OutputsMode).join(", ")}`);
+  }
+
+  if (request.chargeRate !== undefined && (typeof request.chargeRate !== "number" || request.chargeRate < 0 || request.chargeRate > 100)) {
+    throw new Error("Charge rate must be between 0 and 100");
+  }
+
+  if (!request.reason || request.reason.trim().length === 0) {
+    throw new Error("A reason is required for a manual override");
+  }
+
+  const now = Temporal.Now.instant();
+  const start = request.startTime ? Temporal.Instant.from(request.startTime) : now;
+  const end = resolveEnd(request, start);
+
+  if (Temporal.Instant.compare(end, start) <= 0) {
+    throw new Error("Override end must be after its start");
+  }
+
+  if (Temporal.Instant.compare(end, now) <= 0) {
+    throw new Error("Override end must be in the future");
+  }
+
+  if (start.until(end).total("hours") > MAX_OVERRIDE_DURATION_HOURS) {
+    throw new Error(`Override cannot last longer than ${MAX_OVERRIDE_DURATION_HOURS} hours`);
+  }
+
+  return {
+    mode: request.mode,
+    chargeRate: request.chargeRate,
+    startTime: start.epochMilliseconds,
+    endTime: end.epochMilliseconds,
+    reason: request.reason.trim(),
+    createdAt: now.epochMilliseconds
+  };
+}
+
+function resolveEnd(request: ManualOverrideRequest, start: Temporal.Instant): Temporal.Instant {
+  if (request.endTime) {
+    return Temporal.Instant.from(request.endTime);
+  }
+
+  if (typeof request.durationMinutes !== "number" || request.durationMinutes <= 0) {
+    throw new Error("Either endTime or a positive durationMinutes is required");
+  }
+
+  return start.add({ minutes: request.durationMinutes });
+}
@@ -0,0 +1,78 @@
+export type HistoryMetric = "loadPower" | "gridPower" | "batteryPower";
+
+interface HistoryEntry {
+  value: number;
+  timestamp: number;
+}
+
+/**
+ * Rolling window of recent power readings used for averaging
+ */
+export class MetricHistory {
+  private readonly windowMs: number;
+  private history: Record<HistoryMetric, HistoryEntry[]> = {
+    loadPower: [],
+    gridPower: [],
+    batteryPower: []
+  };
+
+  constructor(windowMinutes: number = 10) {
+    this.windowMs = windowMinutes * 60 * 1000;
+  }
+
+  add(metric: HistoryMetric, value: number, timestamp: number = Temporal.Now.instant().epochMilliseconds): void {
+    this.history[metric].push({ value, timestamp });
+    this.prune(metric, timestamp);
+  }
+
+  /**
+   * Average of the readings within the window, or within the last `withinMs` if given
+   * @returns 0 when there are no readings in range
+   */
+  average(metric: HistoryMetric, withinMs: number = this.windowMs): number {
+    const now = Temporal.Now.instant().epochMilliseconds;
+    this.prune(metric, now);
+
+    const cutoffTime = now - withinMs;
+    const entries = this.history[metric].filter(entry => entry.timestamp >= cutoffTime);
+    if (entries.length === 0) {
+      return 0;
+    }
+
+    const sum = entries.reduce((acc, entry) => acc + entry.value, 0);
+    return sum / entries.length;
+  }
+
+  count(metric: HistoryMetric, withinMs: number = this.windowMs): number {
+    const cutoffTime = Temporal.Now.instant().epochMilliseconds - withinMs;
+    return this.history[metric].filter(entry => entry.timestamp >= cutoffTime).length;
+  }
+
+  /**
+   * Drops readings that have fallen out of the window
+   */
+  cleanup(): void {
+    const now = Temporal.Now.instant().epochMilliseconds;
+    for (const metric of Object.keys(this.history) as HistoryMetric[]) {
+      this.prune(metric, now);
+    }
+  }
+
+  clear(): void {
+    for (const metric of Object.keys(this.history) as HistoryMetric[]) {
+      this.history[metric] = [];
+    }
+  }
+
+  describeSizes(): string {
+    return `Load=${this.history.loadPower.length}, Grid=${this.history.gridPower.length}, Battery=${this.history.batteryPower.length}`;
+  }
+
+  private prune(metric: HistoryMetric, now: number): void {
+    const history = this.history[metric];
+    const cutoffTime = now - this.windowMs;
+    while (history.length > 0 && history[0].timestamp < cutoffTime) {
+      history.shift();
+    }
+  }
+}
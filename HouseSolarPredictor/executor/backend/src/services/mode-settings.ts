@@ -0,0 +1,18 @@
+import {InverterMode, OutputsMode} from "@shared";
+
+/**
+ * The inverter work mode and charge rate a schedule mode asks for, before charge rate control,
+ * protections and overrides adjust them
+ */
+export function settingsForMode(mode: OutputsMode): { workMode: InverterMode; chargeRate: number } {
+  switch (mode) {
+    case OutputsMode.ChargeFromGridAndSolar:
+      return { workMode: "Battery first", chargeRate: 100 };
+    case OutputsMode.ChargeSolarOnly:
+      return { workMode: "Battery first", chargeRate: 0 };
+    case OutputsMode.Discharge:
+      return { workMode: "Load first", chargeRate: 0 };
+    default:
+      throw new Error(`Unknown mode: ${mode}`);
+  }
+}
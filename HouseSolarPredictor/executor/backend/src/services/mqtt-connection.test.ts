@@ -0,0 +1,103 @@
+import {assertEquals, assertThrows} from "@std/assert";
+import {buildMqttConnection, describeMqttError} from "./mqtt-connection.ts";
+import {MqttConfig} from "../types/mqttConfig.ts";
+
+const BASE: MqttConfig = { host: "broker.local", port: 1883, clientId: "test" };
+
+const FILES: Record<string, string> = {
+  "/certs/ca.pem": "CA",
+  "/certs/client.pem": "CERT",
+  "/certs/client.key": "KEY",
+  "/secrets/mqtt": "from-file\n"
+};
+
+function readFile(path: string): string {
+  const content = FILES[path];
+  if (content === undefined) {
+    throw new Error("No such file or directory");
+  }
+  return content;
+}
+
+function build(config: MqttConfig, env: Record<string, string> = {}) {
+  return buildMqttConnection(config, readFile, name => env[name]);
+}
+
+function error(message: string, code?: string): Error & { code?: string } {
+  return Object.assign(new Error(message), { code });
+}
+
+Deno.test("defaults to plain mqtt", () => {
+  const { url, options } = build(BASE);
+  assertEquals(url, "mqtt://broker.local:1883");
+  assertEquals(options.clientId, "test");
+  assertEquals(options.ca, undefined);
+});
+
+Deno.test("uses the websocket path for ws and wss", () => {
+  assertEquals(build({ ...BASE, protocol: "ws", port: 9001 }).url, "ws://broker.local:9001/mqtt");
+  assertEquals(build({ ...BASE, protocol: "wss", port: 443, path: "/ws" }).url, "wss://broker.local:443/ws");
+});
+
+Deno.test("loads the CA and client certificate for mqtts", () => {
+  const { url, options } = build({
+    ...BASE,
+    protocol: "mqtts",
+    port: 8883,
+    tls: { caPath: "/certs/ca.pem", certPath: "/certs/client.pem", keyPath: "/certs/client.key", servername: "mqtt.example" }
+  });
+  assertEquals(url, "mqtts://broker.local:8883");
+  assertEquals(options.ca, "CA");
+  assertEquals(options.cert, "CERT");
+  assertEquals(options.key, "KEY");
+  assertEquals(options.servername, "mqtt.example");
+  assertEquals(options.rejectUnauthorized, true);
+});
+
+Deno.test("names the setting when a certificate file can't be read", () => {
+  assertThrows(
+    () => build({ ...BASE, protocol: "mqtts", tls: { caPath: "/missing.pem" } }),
+    Error,
+    "mqtt.tls.caPath: could not read /missing.pem"
+  );
+});
+
+Deno.test("reads the password from config, a file or the environment", () => {
+  assertEquals(build({ ...BASE, username: "solar", password: "inline" }).options.password, "inline");
+  assertEquals(build({ ...BASE, username: "solar", passwordFile: "/secrets/mqtt" }).options.password, "from-file");
+  assertEquals(build({ ...BASE, username: "solar", passwordEnv: "MQTT_PASSWORD" }, { MQTT_PASSWORD: "from-env" }).options.password, "from-env");
+  assertEquals(build({ ...BASE, username: "solar" }).options.username, "solar");
+});
+
+Deno.test("fails when the password environment variable is missing", () => {
+  assertThrows(() => build({ ...BASE, passwordEnv: "MQTT_PASSWORD" }), Error, "MQTT_PASSWORD is not set");
+});
+
+Deno.test("explains common connection failures", () => {
+  const tls: MqttConfig = { ...BASE, protocol: "mqtts", port: 8883 };
+  assertEquals(
+    describeMqttError(error("connect ECONNREFUSED", "ECONNREFUSED"), BASE),
+    "Connection refused by mqtt://broker.local:1883. Is the broker running and listening for mqtt on port 1883?"
+  );
+  assertEquals(
+    describeMqttError(error("self signed certificate in certificate chain", "SELF_SIGNED_CERT_IN_CHAIN"), tls),
+    "TLS handshake with mqtts://broker.local:8883 failed: the broker's certificate is not trusted. Set mqtt.tls.caPath to the CA that signed it."
+  );
+  assertEquals(
+    describeMqttError(error("invalid peer certificate: UnknownIssuer"), tls),
+    "TLS handshake with mqtts://broker.local:8883 failed: the broker's certificate is not trusted. Set mqtt.tls.caPath to the CA that signed it."
+  );
+  assertEquals(
+    describeMqttError(error("invalid peer certificate: NotValidForName"), tls),
+    "TLS handshake with mqtts://broker.local:8883 failed: the broker's certificate is not valid for broker.local. " +
+      "Connect using the name on the certificate or set mqtt.tls.servername."
+  );
+  assertEquals(
+    describeMqttError(error("received fatal alert: CertificateRequired"), tls),
+    "TLS handshake with mqtts://broker.local:8883 failed: the broker rejected the client certificate. Check mqtt.tls.certPath and mqtt.tls.keyPath."
+  );
+  assertEquals(
+    describeMqttError(error("Connection refused: Not authorized", "5"), { ...BASE, username: "solar" }),
+    "mqtt://broker.local:1883 rejected the credentials for user solar"
+  );
+});
@@ -0,0 +1,131 @@
+import type {IClientOptions} from "mqtt";
+import {MqttConfig} from "../types/mqttConfig.ts";
+
+export interface MqttConnection {
+  url: string;
+  options: IClientOptions;
+}
+
+const UNTRUSTED_CERT_CODES = [
+  "DEPTH_ZERO_SELF_SIGNED_CERT",
+  "SELF_SIGNED_CERT_IN_CHAIN",
+  "UNABLE_TO_VERIFY_LEAF_SIGNATURE",
+  "UNABLE_TO_GET_ISSUER_CERT_LOCALLY",
+  "UNABLE_TO_GET_ISSUER_CERT"
+];
+
+/**
+ * Builds the broker URL and client options from config, reading certificates and the password
+ * from disk or the environment. Called on every connect so rotated files are picked up.
+ */
+export function buildMqttConnection(
+  config: MqttConfig,
+  readFile: (path: string) => string = (path) => Deno.readTextFileSync(path),
+  getEnv: (name: string) => string | undefined = (name) => Deno.env.get(name)
+): MqttConnection {
+  const protocol = config.protocol ?? "mqtt";
+  const isWebSocket = protocol === "ws" || protocol === "wss";
+  const path = isWebSocket ? (config.path ?? "/mqtt") : "";
+  const url = `${protocol}://${config.host}:${config.port}${path}`;
+
+  const options: IClientOptions = {
+    clientId: config.clientId,
+    clean: true,
+    connectTimeout: 30000,
+    reconnectPeriod: 0, // We'll handle reconnection manually
+  };
+
+  if (config.username) {
+    options.username = config.username;
+  }
+  const password = resolvePassword(config, readFile, getEnv);
+  if (password !== undefined) {
+    options.password = password;
+  }
+
+  if (protocol === "mqtts" || protocol === "wss") {
+    const tls = config.tls ?? {};
+    options.rejectUnauthorized = tls.rejectUnauthorized ?? true;
+    if (tls.servername) {
+      options.servername = tls.servername;
+    }
+    if (tls.caPath) {
+      options.ca = readCredentialFile(tls.caPath, "mqtt.tls.caPath", readFile);
+    }
+    if (tls.certPath) {
+      options.cert = readCredentialFile(tls.certPath, "mqtt.tls.certPath", readFile);
+    }
+    if (tls.keyPath) {
+      options.key = readCredentialFile(tls.keyPath, "mqtt.tls.keyPath", readFile);
+    }
+  }
+
+  return { url, options };
+}
+
+/**
+ * Turns a connection error into a message that says what is probably wrong and what to change
+ */
+export function describeMqttError(error: Error & { code?: string | number }, config: MqttConfig): string {
+  const protocol = config.protocol ?? "mqtt";
+  const broker = `${protocol}://${config.host}:${config.port}`;
+  const code = error.code === undefined ? "" : String(error.code);
+  const message = error.message ?? "";
+
+  // mqtt.js reports a CONNACK rejection as "Connection refused: Not authorized", so check that first
+  if (code === "4" || code === "5" || /not authori[sz]ed|bad user name or password|bad username or password/i.test(message)) {
+    return `${broker} rejected the credentials${config.username ? ` for user ${config.username}` : ""}`;
+  }
+  if (code === "ECONNREFUSED" || /connection refused/i.test(message)) {
+    return `Connection refused by ${broker}. Is the broker running and listening for ${protocol} on port ${config.port}?`;
+  }
+  if (code === "ENOTFOUND" || /failed to lookup address|getaddrinfo/i.test(message)) {
+    return `Could not resolve MQTT host ${config.host}`;
+  }
+  if (code === "CERT_HAS_EXPIRED" || /expired/i.test(message)) {
+    return `TLS handshake with ${broker} failed: the broker's certificate has expired`;
+  }
+  if (code === "ERR_TLS_CERT_ALTNAME_INVALID" || /NotValidForName|altname|does not match/i.test(message)) {
+    return `TLS handshake with ${broker} failed: the broker's certificate is not valid for ${config.host}. ` +
+      `Connect using the name on the certificate or set mqtt.tls.servername.`;
+  }
+  if (UNTRUSTED_CERT_CODES.includes(code) || /UnknownIssuer|unknown ca|self.signed|unable to verify/i.test(message)) {
+    return `TLS handshake with ${broker} failed: the broker's certificate is not trusted. ` +
+      `Set mqtt.tls.caPath to the CA that signed it.`;
+  }
+  if (/certificate required|bad certificate|CertificateRequired|BadCertificate/i.test(message)) {
+    return `TLS handshake with ${broker} failed: the broker rejected the client certificate. ` +
+      `Check mqtt.tls.certPath and mqtt.tls.keyPath.`;
+  }
+  if (code === "EPROTO" || /wrong version number|handshake|tls|ssl/i.test(message)) {
+    return `TLS handshake with ${broker} failed (${message}). Check that port ${config.port} accepts ${protocol}.`;
+  }
+
+  return `MQTT connection to ${broker} failed: ${message}`;
+}
+
+function resolvePassword(
+  config: MqttConfig,
+  readFile: (path: string) => string,
+  getEnv: (name: string) => string | undefined
+): string | undefined {
+  if (config.passwordFile) {
+    return readCredentialFile(config.passwordFile, "mqtt.passwordFile", readFile).trim();
+  }
+  if (config.passwordEnv) {
+    const password = getEnv(config.passwordEnv);
+    if (password === undefined) {
+      throw new Error(`mqtt.passwordEnv: environment variable ${config.passwordEnv} is not set`);
+    }
+    return password;
+  }
+  return config.password;
+}
+
+function readCredentialFile(path: string, field: string, readFile: (path: string) => string): string {
+  try {
+    return readFile(path);
+  } catch (error) {
+    throw new Error(`${field}: could not read ${path} (${(error as Error).message})`);
+  }
+}
@@ -0,0 +1,75 @@
+import {assertEquals} from "@std/assert";
+import {MqttStatePublisher} from "./mqtt-state-publisher.ts";
+import {MqttService} from "./mqtt.ts";
+import {InverterController} from "./inverter-controller.ts";
+import {buildDiscoveryMessages} from "./executor-state.ts";
+import {ControllerState} from "../types/controller-state.ts";
+import {StatePublishingConfig} from "../types/statePublishingConfig.ts";
+
+const CONFIG: StatePublishingConfig = {
+  enabled: true,
+  baseTopic: "solar_executor",
+  discoveryPrefix: "homeassistant",
+  deviceName: "Solar Executor",
+  intervalSeconds: 10,
+  overrideDurationMinutes: 60
+};
+
+const STATE: ControllerState = {
+  status: "green",
+  message: "Inverter is already in the correct state ✅"
+};
+
+interface Published {
+  topic: string;
+  message: string;
+  retain: boolean;
+}
+
+function fakeMqtt() {
+  const published: Published[] = [];
+  const connectListeners: Array<() => void> = [];
+  const mqtt = {
+    setWill: () => {},
+    onMessage: () => {},
+    onConnect: (listener: () => void) => connectListeners.push(listener),
+    publish: (topic: string, message: string, retain = false) => {
+      published.push({ topic, message, retain });
+      return Promise.resolve();
+    }
+  };
+  return { mqtt: mqtt as unknown as MqttService, published, connectListeners };
+}
+
+const controller = {
+  getState: () => STATE,
+  getCurrentMetrics: () => ({ nextScheduleInfo: null })
+} as unknown as InverterController;
+
+function announced(published: Published[]): string[] {
+  return published
+    .filter(message => message.retain && message.topic !== "solar_executor/state")
+    .map(message => `${message.topic}=${message.topic.endsWith("/availability") ? message.message : "config"}`);
+}
+
+Deno.test("republishes availability and discovery after a reconnect", async () => {
+  const { mqtt, published, connectListeners } = fakeMqtt();
+  const publisher = new MqttStatePublisher(mqtt, controller, CONFIG);
+  await publisher.start();
+
+  const expected = [
+    ...buildDiscoveryMessages(CONFIG).map(message => `${message.topic}=config`),
+    "solar_executor/availability=online"
+  ];
+  assertEquals(announced(published), expected);
+
+  // The broker published the "offline" will when the connection dropped
+  published.length = 0;
+  connectListeners.forEach(listener => listener());
+  await new Promise(resolve => setTimeout(resolve, 0));
+
+  assertEquals(announced(published), expected);
+  assertEquals(published.at(-1)?.topic, "solar_executor/state");
+
+  await publisher.stop();
+});
@@ -0,0 +1,138 @@
+import {ManualOverride, ManualOverrideRequest, OutputsMode} from "@shared";
+import {MqttService} from "./mqtt.ts";
+import {InverterController} from "./inverter-controller.ts";
+import {Logger} from "../logger.ts";
+import {StatePublishingConfig} from "../types/statePublishingConfig.ts";
+import {parseManualOverrideRequest} from "./manual-override.ts";
+import {buildDiscoveryMessages, buildExecutorState, NO_OVERRIDE} from "./executor-state.ts";
+
+/**
+ * Publishes the executor's state to MQTT, announces it through Home Assistant discovery and
+ * accepts retry, override and shadow mode commands.
+ *
+ * Command topics (all under the base topic):
+ * - `retry/set`: any payload runs a manual retry
+ * - `override/set`: a ManualOverrideRequest as JSON starts an override, `CLEAR` ends it
+ * - `override_mode/set`: an OutputsMode starts an override for overrideDurationMinutes, `None` ends it
+ * - `shadow_mode/set`: `ON` or `OFF`
+ */
+export class MqttStatePublisher {
+  private readonly mqttService: MqttService;
+  private readonly inverterController: InverterController;
+  private readonly config: StatePublishingConfig;
+  private readonly logger: Logger;
+  private publishTimer?: ReturnType<typeof setInterval>;
+
+  constructor(mqttService: MqttService, inverterController: InverterController, config: StatePublishingConfig) {
+    this.mqttService = mqttService;
+    this.inverterController = inverterController;
+    this.config = config;
+    this.logger = new Logger();
+
+    // Set before connecting so Home Assistant marks the entities unavailable if we drop off
+    this.mqttService.setWill(this.topic("availability"), "offline");
+  }
+
+  async start(): Promise<void> {
+    this.setupCommandHandlers();
+
+    await this.announce();
+    // After an unclean drop the broker has published the retained "offline" will, so announce again
+    this.mqttService.onConnect(() => {
+      this.announce().catch(error => {
+        this.logger.logException(error as Error);
+      });
+    });
+
+    this.publishTimer = setInterval(() => {
+      this.publishState().catch(error => {
+        this.logger.logException(error as Error);
+      });
+    }, this.config.intervalSeconds * 1000);
+
+    this.logger.log(`Publishing executor state to ${this.topic("state")}`);
+  }
+
+  async stop(): Promise<void> {
+    if (this.publishTimer !== undefined) {
+      clearInterval(this.publishTimer);
+      this.publishTimer = undefined;
+    }
+    await this.mqttService.publish(this.topic("availability"), "offline", true);
+  }
+
+  private async announce(): Promise<void> {
+    for (const message of buildDiscoveryMessages(this.config)) {
+      await this.mqttService.publish(message.topic, JSON.stringify(message.payload), true);
+    }
+    await this.mqttService.publish(this.topic("availability"), "online", true);
+    await this.publishState();
+  }
+
+  private async publishState(): Promise<void> {
+    const state = buildExecutorState(
+      this.inverterController.getState(),
+      this.inverterController.getCurrentMetrics().nextScheduleInfo
+    );
+    await this.mqttService.publish(this.topic("state"), JSON.stringify(state), true);
+  }
+
+  private setupCommandHandlers(): void {
+    this.onCommand("retry/set", async () => {
+      await this.inverterController.retry();
+    });
+
+    this.onCommand("override/set", async (payload) => {
+      if (payload.trim().toUpperCase() === "CLEAR") {
+        await this.inverterController.clearManualOverride();
+        return;
+      }
+      const override = parseManualOverrideRequest(JSON.parse(payload) as ManualOverrideRequest);
+      await this.inverterController.setManualOverride(override);
+    });
+
+    this.onCommand("override_mode/set", async (payload) => {
+      if (payload === NO_OVERRIDE) {
+        await this.inverterController.clearManualOverride();
+        return;
+      }
+      const override: ManualOverride = parseManualOverrideRequest({
+        mode: payload as OutputsMode,
+        durationMinutes: this.config.overrideDurationMinutes,
+        reason: "Set from Home Assistant"
+      });
+      await this.inverterController.setManualOverride(override);
+    });
+
+    this.onCommand("shadow_mode/set", async (payload) => {
+      const value = payload.trim().toUpperCase();
+      if (value !== "ON" && value !== "OFF") {
+        throw new Error(`Shadow mode must be ON or OFF, got ${payload}`);
+      }
+      await this.inverterController.setShadowMode(value === "ON");
+    });
+  }
+
+  /**
+   * Runs a command, logging failures and republishing the state straight away so Home Assistant
+   * reflects the result
+   */
+  private onCommand(command: string, handler: (payload: string) => Promise<void>): void {
+    this.mqttService.onMessage(this.topic(command), (payload) => {
+      this.logger.logSignificant("MQTT_COMMAND_RECEIVED", { command, payload });
+      handler(payload)
+        .catch(error => {
+          this.logger.log(`❌ MQTT command ${command} failed: ${(error as Error).message}`);
+          this.logger.logException(error as Error);
+        })
+        .finally(() => this.publishState())
+        .catch(error => {
+          this.logger.logException(error as Error);
+        });
+    });
+  }
+
+  private topic(suffix: string): string {
+    return `${this.config.baseTopic}/${suffix}`;
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * Round trip through a real broker, run with `deno task test:broker`.
+ *
+ * Connects to localhost:1883 by default. Point MQTT_TEST_CONFIG at a JSON file in the same shape
+ * as the `mqtt` config section to test TLS, websockets or credentials (see README).
+ */
+import {assertEquals} from "@std/assert";
+import {MqttService} from "./mqtt.ts";
+import {MqttConfig} from "../types/mqttConfig.ts";
+import {DatabaseService} from "./database.ts";
+
+function loadTestConfig(): MqttConfig {
+  const path = Deno.env.get("MQTT_TEST_CONFIG");
+  const config: MqttConfig = path
+    ? JSON.parse(Deno.readTextFileSync(path))
+    : { host: "localhost", port: 1883, clientId: "" };
+  return { ...config, clientId: `executor-test-${crypto.randomUUID().slice(0, 8)}` };
+}
+
+Deno.test({
+  name: "publishes and receives through the broker",
+  sanitizeOps: false,
+  sanitizeResources: false,
+  fn: async () => {
+    const database = new DatabaseService(":memory:");
+    const mqttService = new MqttService(loadTestConfig(), database);
+    const topic = `executor-test/${crypto.randomUUID()}`;
+    const received = new Promise<string>(resolve => mqttService.onMessage(topic, resolve));
+
+    try {
+      await mqttService.connect();
+      await mqttService.publish(topic, "hello");
+      const message = await Promise.race([
+        received,
+        new Promise<string>((_, reject) => setTimeout(() => reject(new Error("No message within 5s")), 5000))
+      ]);
+      assertEquals(message, "hello");
+    } finally {
+      mqttService.disconnect();
+      database.close();
+    }
+  }
+});
@@ -1,6 +1,11 @@
 import * as mqtt from "mqtt";
 import { Logger } from "../logger.ts";
 import {MqttConfig} from "../types/mqttConfig.ts";
+import {buildMqttConnection, describeMqttError} from "./mqtt-connection.ts";
+import {DatabaseService} from "./database.ts";
+import {OutboundQueue} from "./outbound-queue.ts";
+import {QueuedMqttMessage} from "../types/queuedMqttMessage.ts";
+import {MqttConnectionState, MqttStatus} from "@shared";
 
 export interface MqttMessage {
   topic: string;
@@ -8,39 +13,41 @@ export interface MqttMessage {
   timestamp: number;
 }
 
+/**
+ * Delay before the given reconnect attempt: exponential backoff from the minimum up to the
+ * maximum, with up to half of it randomised so clients don't all retry at once
+ */
+export function getReconnectDelayMs(attempt: number, minDelayMs: number, maxDelayMs: number, random: () => number = Math.random): number {
+  const backoff = Math.min(maxDelayMs, minDelayMs * Math.pow(2, Math.max(0, attempt - 1)));
+  return Math.round(backoff / 2 + (backoff / 2) * random());
+}
+
 export class MqttService {
   private client: mqtt.MqttClient | null = null;
   private config: MqttConfig;
-  private messageHandlers: Map<string, (message: string) => void> = new Map();
+  private messageHandlers: Map<string, Array<(message: string) => void>> = new Map();
+  private messageListeners: Array<(topic: string, message: string) => void> = [];
+  private connectListeners: Array<() => void> = [];
   private connectionPromise: Promise<void> | null = null;
   private isConnected = false;
+  private connectionState: MqttConnectionState = "connecting";
   private reconnectAttempts = 0;
-  private maxReconnectAttempts = 10;
-  private reconnectDelay = 5000; // 5 seconds
+  private reconnectTimer?: ReturnType<typeof setTimeout>;
+  private nextReconnectAt?: number;
+  private lastConnectedAt?: number;
+  private lastError?: string;
+  private stopped = false;
   private logger: Logger;
-  private messageQueue: Array<{ topic: string; message: string; resolve: () => void; reject: (error: Error) => void }> = [];
-
-  // MQTT Topics
-  private readonly TOPICS = {
-    // State topics (subscribe)
-    BATTERY_CHARGE_RATE_STATE: "solar_assistant/inverter_1/battery_first_charge_rate/state",
-    WORK_MODE_STATE: "solar_assistant/inverter_1/work_mode_priority/state",
-    LOAD_POWER_STATE: "solar_assistant/inverter_1/load_power/state",
-    GRID_POWER_STATE: "solar_assistant/inverter_1/grid_power/state",
-    BATTERY_POWER_STATE: "solar_assistant/total/battery_power/state",
-    BATTERY_CURRENT_STATE: "solar_assistant/battery_1/current/state",
-    BATTERY_CHARGE_STATE: "solar_assistant/battery_1/state_of_charge/state",
-    BATTERY_CAPACITY_STATE: "solar_assistant/battery_1/capacity/state",
-    RESPONSE_MESSAGE_STATE: "solar_assistant/set/response_message/state",
-    
-    // Control topics (publish)
-    BATTERY_CHARGE_RATE_SET: "solar_assistant/inverter_1/battery_first_charge_rate/set",
-    WORK_MODE_SET: "solar_assistant/inverter_1/work_mode_priority/set"
-  };
-
-  constructor(config: MqttConfig) {
+  private outboundQueue: OutboundQueue;
+  private will: { topic: string; payload: string } | null = null;
+
+  constructor(config: MqttConfig, databaseService: DatabaseService) {
     this.config = config;
     this.logger = new Logger();
+    this.outboundQueue = new OutboundQueue(databaseService, config.commandMaxAgeSeconds ?? 300);
+    if (this.outboundQueue.size() > 0) {
+      this.logger.log(`Restored ${this.outboundQueue.size()} queued MQTT commands`);
+    }
   }
 
   async connect(): Promise<void> {
@@ -54,18 +61,9 @@ export class MqttService {
 
   private async doConnect(): Promise<void> {
     return new Promise((resolve, reject) => {
-      const brokerUrl = `mqtt://${this.config.host}:${this.config.port}`;
-      
-      const options: mqtt.IClientOptions = {
-        clientId: this.config.clientId,
-        clean: true,
-        connectTimeout: 30000,
-        reconnectPeriod: 0, // We'll handle reconnection manually
-      };
-
-      if (this.config.username && this.config.password) {
-        options.username = this.config.username;
-        options.password = this.config.password;
+      const { url: brokerUrl, options } = buildMqttConnection(this.config);
+      if (this.will) {
+        options.will = { ...this.will, qos: 1, retain: true };
       }
 
       this.logger.log(`Connecting to MQTT broker at ${brokerUrl}...`);
@@ -76,20 +74,28 @@ export class MqttService {
         this.logger.log('Connected to MQTT broker');
         this.logger.logSignificant('MQTT_CONNECTED');
         this.isConnected = true;
+        this.connectionState = "connected";
         this.reconnectAttempts = 0;
+        this.nextReconnectAt = undefined;
+        this.lastConnectedAt = Temporal.Now.instant().epochMilliseconds;
         this.subscribeToTopics();
         this.processMessageQueue();
+        this.connectListeners.forEach(listener => listener());
         resolve();
       });
 
       this.client.on('error', (error) => {
+        const diagnostic = describeMqttError(error, this.config);
+        this.logger.log(`❌ ${diagnostic}`);
         this.logger.logException(error as Error);
         this.logger.logSignificant('MQTT_CONNECTION_ERROR', {
-          error: error.message
+          error: error.message,
+          diagnostic
         });
         this.isConnected = false;
+        this.lastError = diagnostic;
         if (this.reconnectAttempts === 0) {
-          reject(error);
+          reject(new Error(diagnostic));
         } else {
           this.scheduleReconnect();
         }
@@ -113,10 +119,9 @@ export class MqttService {
         const messageStr = message.toString();
         //this.logger.log(`MQTT message received - Topic: ${topic}, Message: ${messageStr}`);
         
-        const handler = this.messageHandlers.get(topic);
-        if (handler) {
-          handler(messageStr);
-        }
+        const handlers = this.messageHandlers.get(topic) ?? [];
+        handlers.forEach(handler => handler(messageStr));
+        this.messageListeners.forEach(listener => listener(topic, messageStr));
       });
     });
   }
@@ -124,135 +129,205 @@ export class MqttService {
   private subscribeToTopics(): void {
     if (!this.client || !this.isConnected) return;
 
-    const stateTopics = [
-      this.TOPICS.BATTERY_CHARGE_RATE_STATE,
-      this.TOPICS.WORK_MODE_STATE,
-      this.TOPICS.LOAD_POWER_STATE,
-      this.TOPICS.GRID_POWER_STATE,
-      this.TOPICS.BATTERY_POWER_STATE,
-      this.TOPICS.BATTERY_CURRENT_STATE,
-      this.TOPICS.BATTERY_CHARGE_STATE,
-      this.TOPICS.BATTERY_CAPACITY_STATE,
-      this.TOPICS.RESPONSE_MESSAGE_STATE
-    ];
-
-    stateTopics.forEach(topic => {
-      this.client!.subscribe(topic, (error) => {
-        if (error) {
-          this.logger.logException(error as Error);
-        } else {
-          this.logger.log(`Subscribed to ${topic}`);
-        }
-      });
+    this.messageHandlers.forEach((_handlers, topic) => this.subscribe(topic));
+  }
+
+  private subscribe(topic: string): void {
+    this.client!.subscribe(topic, (error) => {
+      if (error) {
+        this.logger.logException(error as Error);
+      } else {
+        this.logger.log(`Subscribed to ${topic}`);
+      }
     });
   }
 
   private scheduleReconnect(): void {
-    if (this.reconnectAttempts >= this.maxReconnectAttempts) {
-      this.logger.log('Max reconnection attempts reached. Giving up.');
+    // close, offline and error can all fire for the same drop, so only schedule once
+    if (this.stopped || this.reconnectTimer !== undefined) {
       return;
     }
 
     this.reconnectAttempts++;
-    const delay = this.reconnectDelay * Math.pow(2, this.reconnectAttempts - 1); // Exponential backoff
-    
+    const delay = getReconnectDelayMs(
+      this.reconnectAttempts,
+      (this.config.reconnectMinDelaySeconds ?? 5) * 1000,
+      (this.config.reconnectMaxDelaySeconds ?? 300) * 1000
+    );
+    this.connectionState = "reconnecting";
+    this.nextReconnectAt = Temporal.Now.instant().epochMilliseconds + delay;
+
     this.logger.log(`Scheduling reconnection attempt ${this.reconnectAttempts} in ${delay}ms`);
-    
-    setTimeout(() => {
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = undefined;
+      this.nextReconnectAt = undefined;
+      this.discardClient();
       this.connectionPromise = null;
       this.connect().catch(error => {
         this.logger.logException(error as Error);
+        this.scheduleReconnect();
       });
     }, delay);
   }
 
+  private discardClient(): void {
+    if (this.client) {
+      this.client.removeAllListeners();
+      this.client.end(true);
+      this.client = null;
+    }
+  }
+
   private processMessageQueue(): void {
-    if (!this.isConnected || this.messageQueue.length === 0) return;
-
-    this.logger.log(`Processing ${this.messageQueue.length} queued messages`);
-    
-    const queue = [...this.messageQueue];
-    this.messageQueue = [];
-
-    queue.forEach(({ topic, message, resolve, reject }) => {
-      if (this.client && this.isConnected) {
-        this.client.publish(topic, message, (error) => {
-          if (error) {
-            this.logger.logException(error as Error);
-            reject(error);
-          } else {
-            resolve();
-          }
-        });
-      } else {
-        reject(new Error('MQTT client disconnected while processing queue'));
+    if (!this.isConnected || this.outboundQueue.size() === 0) return;
+
+    const { ready, expired } = this.outboundQueue.drain();
+    for (const message of expired) {
+      this.logger.logSignificant('MQTT_COMMAND_EXPIRED', {
+        topic: message.topic,
+        message: message.message,
+        queuedAt: Temporal.Instant.fromEpochMilliseconds(message.queuedAt).toString()
+      });
+    }
+
+    this.logger.log(`Processing ${ready.length} queued messages`);
+    for (const message of ready) {
+      this.sendNow(message).catch(() => {
+        this.outboundQueue.requeue(message);
+      });
+    }
+  }
+
+  private sendNow(message: QueuedMqttMessage): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (!this.client || !this.isConnected) {
+        reject(new Error('MQTT client disconnected'));
+        return;
       }
+
+      this.client.publish(message.topic, message.message, { retain: message.retain }, (error) => {
+        if (error) {
+          this.logger.logException(error as Error);
+          reject(error);
+        } else {
+          resolve();
+        }
+      });
     });
   }
 
-  private async publishWithQueue(topic: string, message: string): Promise<void> {
-    return new Promise((resolve, reject) => {
-      if (this.client && this.isConnected) {
-        this.client.publish(topic, message, (error) => {
-          if (error) {
-            this.logger.logException(error as Error);
-            reject(error);
-          } else {
-            resolve();
-          }
-        });
-      } else {
-        // Queue the message for later delivery
-        this.logger.log(`Queueing message for topic ${topic} (client disconnected)`);
-        this.messageQueue.push({ topic, message, resolve, reject });
-        
-        // Attempt to reconnect if not already trying
-        if (!this.connectionPromise) {
-          this.connect().catch(error => {
-            this.logger.logException(error as Error);
-          });
+  /**
+   * Sends straight away when connected. Otherwise queues the message, replacing anything already
+   * queued for the topic, and returns once it is queued.
+   */
+  private async publishWithQueue(message: QueuedMqttMessage): Promise<void> {
+    if (this.client && this.isConnected) {
+      try {
+        await this.sendNow(message);
+        return;
+      } catch (error) {
+        if (this.isConnected) {
+          throw error;
         }
+        // Dropped mid-publish, so fall through and queue it for the reconnect
       }
-    });
+    }
+
+    const replaced = this.outboundQueue.enqueue(message);
+    this.logger.log(`Queueing message for topic ${message.topic} (client disconnected)`);
+    if (replaced && replaced.message !== message.message) {
+      this.logger.logSignificant('MQTT_COMMAND_SUPERSEDED', {
+        topic: message.topic,
+        replaced: replaced.message,
+        message: message.message
+      });
+    }
   }
 
+  /**
+   * Adds a handler for a topic. Several handlers can share a topic. Topics are subscribed on
+   * connect, or straight away if already connected.
+   */
   onMessage(topic: string, handler: (message: string) => void): void {
-    this.messageHandlers.set(topic, handler);
-  }
+    const handlers = this.messageHandlers.get(topic);
+    if (handlers) {
+      handlers.push(handler);
+      return;
+    }
 
-  async publishWorkMode(mode: "Battery first" | "Load first"): Promise<void> {
-    try {
-      await this.publishWithQueue(this.TOPICS.WORK_MODE_SET, mode);
-      this.logger.log(`Published work mode: ${mode}`);
-    } catch (error) {
-      this.logger.logException(error as Error);
-      throw error;
+    this.messageHandlers.set(topic, [handler]);
+    if (this.client && this.isConnected) {
+      this.subscribe(topic);
     }
   }
 
-  async publishChargeRate(rate: number): Promise<void> {
-    if (rate < 0 || rate > 100) {
-      throw new Error('Charge rate must be between 0 and 100');
-    }
+  /**
+   * Adds a listener for every message received on any subscribed topic
+   */
+  onAnyMessage(listener: (topic: string, message: string) => void): void {
+    this.messageListeners.push(listener);
+  }
 
+  /**
+   * Adds a listener called on every connect, including each reconnect
+   */
+  onConnect(listener: () => void): void {
+    this.connectListeners.push(listener);
+  }
+
+  async publish(topic: string, message: string, retain = false): Promise<void> {
+    await this.publishMessage({ topic, message, retain, durable: false, queuedAt: Temporal.Now.instant().epochMilliseconds });
+  }
+
+  /**
+   * Publishes an inverter command. While disconnected only the latest command per topic is kept,
+   * it is saved so it survives a restart, and it is dropped if the connection doesn't come back
+   * within commandMaxAgeSeconds.
+   */
+  async publishCommand(topic: string, message: string): Promise<void> {
+    await this.publishMessage({ topic, message, retain: false, durable: true, queuedAt: Temporal.Now.instant().epochMilliseconds });
+  }
+
+  private async publishMessage(message: QueuedMqttMessage): Promise<void> {
     try {
-      await this.publishWithQueue(this.TOPICS.BATTERY_CHARGE_RATE_SET, rate.toString());
-      this.logger.log(`Published charge rate: ${rate}%`);
+      await this.publishWithQueue(message);
     } catch (error) {
       this.logger.logException(error as Error);
       throw error;
     }
   }
 
+  /**
+   * Sets a retained message for the broker to publish if this client drops off without
+   * disconnecting. Takes effect on the next connect.
+   */
+  setWill(topic: string, payload: string): void {
+    this.will = { topic, payload };
+  }
+
   isClientConnected(): boolean {
     return this.isConnected;
   }
 
-  getTopics() {
-    return this.TOPICS;
+  getStatus(): MqttStatus {
+    return {
+      state: this.connectionState,
+      reconnectAttempts: this.reconnectAttempts,
+      nextReconnectAt: this.nextReconnectAt,
+      lastConnectedAt: this.lastConnectedAt,
+      lastError: this.lastError,
+      queuedMessages: this.outboundQueue.size()
+    };
   }
 
   disconnect(): void {
+    this.stopped = true;
+    this.connectionState = "stopped";
+    if (this.reconnectTimer !== undefined) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = undefined;
+    }
     if (this.client) {
       this.client.end();
       this.client = null;
@@ -0,0 +1,74 @@
+import {assertEquals} from "@std/assert";
+import {OutboundQueue} from "./outbound-queue.ts";
+import {DatabaseService} from "./database.ts";
+import {QueuedMqttMessage} from "../types/queuedMqttMessage.ts";
+import {getReconnectDelayMs} from "./mqtt.ts";
+
+const WORK_MODE_TOPIC = "solar_assistant/inverter_1/work_mode_priority/set";
+const CHARGE_RATE_TOPIC = "solar_assistant/inverter_1/battery_first_charge_rate/set";
+
+function command(topic: string, message: string, queuedAt: number): QueuedMqttMessage {
+  return { topic, message, retain: false, durable: true, queuedAt };
+}
+
+Deno.test("keeps only the latest command per topic", () => {
+  const database = new DatabaseService(":memory:");
+  const queue = new OutboundQueue(database, 300);
+
+  queue.enqueue(command(WORK_MODE_TOPIC, "Load first", 1000));
+  queue.enqueue(command(CHARGE_RATE_TOPIC, "50", 2000));
+  const replaced = queue.enqueue(command(WORK_MODE_TOPIC, "Battery first", 3000));
+
+  assertEquals(replaced?.message, "Load first");
+  assertEquals(queue.drain(4000).ready.map(message => message.message), ["50", "Battery first"]);
+  assertEquals(queue.size(), 0);
+  database.close();
+});
+
+Deno.test("restores queued commands after a restart", () => {
+  const database = new DatabaseService(":memory:");
+  const before = new OutboundQueue(database, 300);
+  before.enqueue(command(WORK_MODE_TOPIC, "Load first", 1000));
+  before.enqueue(command(WORK_MODE_TOPIC, "Battery first", 2000));
+  before.enqueue({ topic: "solar_executor/state", message: "{}", retain: true, durable: false, queuedAt: 2000 });
+
+  const after = new OutboundQueue(database, 300);
+  assertEquals(after.drain(3000).ready, [command(WORK_MODE_TOPIC, "Battery first", 2000)]);
+  assertEquals(database.getQueuedCommands(), []);
+  database.close();
+});
+
+Deno.test("drops commands older than the maximum age", () => {
+  const database = new DatabaseService(":memory:");
+  const queue = new OutboundQueue(database, 60);
+  queue.enqueue(command(WORK_MODE_TOPIC, "Load first", 0));
+  queue.enqueue(command(CHARGE_RATE_TOPIC, "50", 30_000));
+  queue.enqueue({ topic: "solar_executor/state", message: "{}", retain: true, durable: false, queuedAt: 0 });
+
+  const { ready, expired } = queue.drain(61_000);
+  assertEquals(expired.map(message => message.topic), [WORK_MODE_TOPIC]);
+  assertEquals(ready.map(message => message.topic), [CHARGE_RATE_TOPIC, "solar_executor/state"]);
+  database.close();
+});
+
+Deno.test("a failed send doesn't overwrite a newer command", () => {
+  const database = new DatabaseService(":memory:");
+  const queue = new OutboundQueue(database, 300);
+  const stale = command(WORK_MODE_TOPIC, "Load first", 1000);
+  queue.enqueue(command(WORK_MODE_TOPIC, "Battery first", 2000));
+
+  queue.requeue(stale);
+  assertEquals(queue.drain(3000).ready.map(message => message.message), ["Battery first"]);
+
+  queue.requeue(stale);
+  assertEquals(queue.drain(3000).ready.map(message => message.message), ["Load first"]);
+  database.close();
+});
+
+Deno.test("backs off exponentially up to the maximum with jitter", () => {
+  assertEquals(getReconnectDelayMs(1, 5000, 300_000, () => 1), 5000);
+  assertEquals(getReconnectDelayMs(1, 5000, 300_000, () => 0), 2500);
+  assertEquals(getReconnectDelayMs(4, 5000, 300_000, () => 1), 40_000);
+  assertEquals(getReconnectDelayMs(50, 5000, 300_000, () => 1), 300_000);
+  assertEquals(getReconnectDelayMs(50, 5000, 300_000, () => 0.5), 225_000);
+});
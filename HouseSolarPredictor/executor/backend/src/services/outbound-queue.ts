@@ -0,0 +1,73 @@
+import {DatabaseService} from "./database.ts";
+import {QueuedMqttMessage} from "../types/queuedMqttMessage.ts";
+
+export interface DrainResult {
+  ready: QueuedMqttMessage[];
+  expired: QueuedMqttMessage[];
+}
+
+/**
+ * Messages waiting for the broker, keeping only the latest per topic so a reconnect never replays
+ * a stale command after a newer one. Durable messages (inverter commands) are saved to the
+ * database so they survive a restart, and are dropped once older than the maximum age.
+ */
+export class OutboundQueue {
+  private readonly databaseService: DatabaseService;
+  private readonly maxAgeMs: number;
+  private messages: Map<string, QueuedMqttMessage> = new Map();
+
+  constructor(databaseService: DatabaseService, maxAgeSeconds: number) {
+    this.databaseService = databaseService;
+    this.maxAgeMs = maxAgeSeconds * 1000;
+
+    for (const message of databaseService.getQueuedCommands()) {
+      this.messages.set(message.topic, message);
+    }
+  }
+
+  /**
+   * Queues a message, returning the one it replaced on the same topic, if any
+   */
+  enqueue(message: QueuedMqttMessage): QueuedMqttMessage | undefined {
+    const replaced = this.messages.get(message.topic);
+    // Re-inserting moves the topic to the back, so messages go out in the order they were last queued
+    this.messages.delete(message.topic);
+    this.messages.set(message.topic, message);
+
+    if (message.durable) {
+      this.databaseService.saveQueuedCommand(message);
+    } else if (replaced?.durable) {
+      this.databaseService.deleteQueuedCommand(message.topic);
+    }
+    return replaced;
+  }
+
+  /**
+   * Puts back a message that failed to send, unless something newer has been queued for its topic
+   */
+  requeue(message: QueuedMqttMessage): void {
+    if (!this.messages.has(message.topic)) {
+      this.enqueue(message);
+    }
+  }
+
+  /**
+   * Empties the queue, splitting out durable messages that are too old to send
+   */
+  drain(now: number = Temporal.Now.instant().epochMilliseconds): DrainResult {
+    const result: DrainResult = { ready: [], expired: [] };
+    for (const message of this.messages.values()) {
+      const isExpired = message.durable && now - message.queuedAt > this.maxAgeMs;
+      (isExpired ? result.expired : result.ready).push(message);
+      if (message.durable) {
+        this.databaseService.deleteQueuedCommand(message.topic);
+      }
+    }
+    this.messages.clear();
+    return result;
+  }
+
+  size(): number {
+    return this.messages.size;
+  }
+}
@@ -0,0 +1,19 @@
+import {BackendTimeSegment} from "../../time/backend-time-segment.ts";
+
+/**
+ * How far through the segment the given instant is, from 0 at the start to 1 at the end
+ */
+export function getSegmentProgress(segment: BackendTimeSegment, at: Temporal.Instant): number {
+  const segmentDurationMs = segment.time.segmentEnd.epochMilliseconds - segment.time.segmentStart.epochMilliseconds;
+  const elapsedMs = at.epochMilliseconds - segment.time.segmentStart.epochMilliseconds;
+  return Math.max(0, Math.min(1, elapsedMs / segmentDurationMs));
+}
+
+/**
+ * Battery charge the plan expects at the given instant, interpolated along the segment's
+ * start to end charge line
+ */
+export function getExpectedBatteryKwh(segment: BackendTimeSegment, at: Temporal.Instant): number {
+  const progress = getSegmentProgress(segment, at);
+  return segment.startBatteryChargeKwh + (segment.endBatteryChargeKwh - segment.startBatteryChargeKwh) * progress;
+}
@@ -1,22 +1,26 @@
-import {InverterMode, MetricInstance} from "@shared";
+import {InverterMode, MetricInstance, ProtectionAction, ProtectionCategory} from "@shared";
 import {ProtectionOverride} from "./protection-interface.ts";
 import {ScheduleService} from "../schedule.ts";
+import {BatteryOverchargeProtectionConfig} from "../../types/protectionsConfig.ts";
+import {getExpectedBatteryKwh} from "../planned-battery-trajectory.ts";
 
 export class BatteryOverchargeProtection implements ProtectionOverride {
-  private readonly activationThresholdPercent = 10; // 10% over expected level to activate
-  private readonly deactivationThresholdPercent = 5; // 5% over expected level to deactivate
+  readonly priority = 60;
+  readonly category: ProtectionCategory = "economic";
+  private readonly config: BatteryOverchargeProtectionConfig;
   private scheduleService: ScheduleService;
   private isActive = false; // Track whether protection is currently active
 
-  constructor(scheduleService: ScheduleService) {
+  constructor(scheduleService: ScheduleService, config: BatteryOverchargeProtectionConfig) {
     this.scheduleService = scheduleService;
+    this.config = config;
   }
 
   checkOverride(
     plannedMode: InverterMode, 
     plannedChargeRate: number, 
     currentMetrics: MetricInstance
-  ): { workMode: InverterMode; chargeRate: number } | null {
+  ): ProtectionAction | null {
     
     // Don't intervene if already planning to discharge (Load first with negative charge rate)
     if (plannedMode === "Load first") {
@@ -46,19 +50,8 @@ export class BatteryOverchargeProtection implements ProtectionOverride {
       return null; // Can't calculate without battery capacity
     }
 
-    // Calculate expected battery percentage based on current time within the segment
-    const now = Temporal.Now.instant();
-    const segmentStart = currentSegment.time.segmentStart;
-    const segmentEnd = currentSegment.time.segmentEnd;
-    
-    // Calculate how far through the segment we are (0 to 1)
-    const segmentDurationMs = segmentEnd.epochMilliseconds - segmentStart.epochMilliseconds;
-    const elapsedMs = now.epochMilliseconds - segmentStart.epochMilliseconds;
-    const segmentProgress = Math.max(0, Math.min(1, elapsedMs / segmentDurationMs));
-    
     // Interpolate expected battery charge based on progress through segment
-    const expectedBatteryKwh = currentSegment.startBatteryChargeKwh + 
-      (currentSegment.endBatteryChargeKwh - currentSegment.startBatteryChargeKwh) * segmentProgress;
+    const expectedBatteryKwh = getExpectedBatteryKwh(currentSegment, Temporal.Now.instant());
     
     const expectedBatteryPercent = (expectedBatteryKwh / batteryCapacityKwh) * 100;
     const currentBatteryPercent = currentMetrics.batteryChargePercent;
@@ -66,19 +59,19 @@ export class BatteryOverchargeProtection implements ProtectionOverride {
     // Check if current battery level is above expected level
     const overchargeAmount = currentBatteryPercent - expectedBatteryPercent;
     
-    // Implement hysteresis: activate at 10% over, deactivate at 5% over
-    if (!this.isActive && overchargeAmount > this.activationThresholdPercent) {
+    // Implement hysteresis: activate above the activation threshold, deactivate at the deactivation threshold
+    if (!this.isActive && overchargeAmount > this.config.activationThresholdPercent) {
       this.isActive = true;
-    } else if (this.isActive && overchargeAmount <= this.deactivationThresholdPercent) {
+    } else if (this.isActive && overchargeAmount <= this.config.deactivationThresholdPercent) {
       this.isActive = false;
     }
 
     // Only return override if protection is active
     if (this.isActive) {
-      // Battery is overcharged, switch to Battery first with 0% charge rate (solar only)
+      // Battery is overcharged, cap grid charging at 0% so it only charges from solar
       return {
         workMode: "Battery first",
-        chargeRate: 0
+        maxChargeRate: 0
       };
     }
 
@@ -88,4 +81,15 @@ export class BatteryOverchargeProtection implements ProtectionOverride {
   getName(): string {
     return "Battery Unnecessary Charge Prevention";
   }
+
+  isEnabled(): boolean {
+    return this.config.enabled;
+  }
+
+  getSettings(): Record<string, number> {
+    return {
+      activationThresholdPercent: this.config.activationThresholdPercent,
+      deactivationThresholdPercent: this.config.deactivationThresholdPercent
+    };
+  }
 }
\ No newline at end of file
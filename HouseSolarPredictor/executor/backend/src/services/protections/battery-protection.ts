@@ -1,30 +1,31 @@
-import {InverterMode, MetricInstance} from "@shared";
+import {InverterMode, MetricInstance, ProtectionAction, ProtectionCategory} from "@shared";
 import {ProtectionOverride} from "./protection-interface.ts";
-
-const DISCHARGE_THRESHOLD = 4;
-const CRITICAL_THRESHOLD = 2;
-const RECOVERY_THRESHOLD = 4;
-const MIN_CHARGE_RATE = 1;
+import {BatteryProtectionConfig} from "../../types/protectionsConfig.ts";
 
 export class BatteryProtection implements ProtectionOverride {
+  readonly priority = 10;
+  readonly category: ProtectionCategory = "safety";
   private isProtectionActive = false;
-  private readonly activationThreshold = CRITICAL_THRESHOLD;
-  private readonly deactivationThreshold = CRITICAL_THRESHOLD + 1;
+  private readonly config: BatteryProtectionConfig;
+
+  constructor(config: BatteryProtectionConfig) {
+    this.config = config;
+  }
 
   checkOverride(
-    plannedMode: InverterMode,
-    plannedChargeRate: number,
+    _plannedMode: InverterMode,
+    _plannedChargeRate: number,
     currentMetrics: MetricInstance
-  ): { workMode: InverterMode; chargeRate: number } | null {
+  ): ProtectionAction | null {
     const batteryCharge = currentMetrics.batteryChargePercent;
 
     // Check if we should activate protection (battery drops to or below activation threshold)
-    if (!this.isProtectionActive && batteryCharge <= this.activationThreshold) {
+    if (!this.isProtectionActive && batteryCharge <= this.config.activationPercent) {
       this.isProtectionActive = true;
     }
 
     // Check if we should deactivate protection (battery rises above deactivation threshold)
-    if (this.isProtectionActive && batteryCharge > this.deactivationThreshold) {
+    if (this.isProtectionActive && batteryCharge > this.config.deactivationPercent) {
       this.isProtectionActive = false;
     }
 
@@ -33,19 +34,27 @@ export class BatteryProtection implements ProtectionOverride {
       return null;
     }
 
-    // If we are already in Battery first mode and charge rate is above minimum, no override needed
-    if (plannedMode === "Battery first" && plannedChargeRate > MIN_CHARGE_RATE) {
-      return null;
-    }
-
-    // Force charge mode and ensure minimum charge rate
+    // Force charge mode and ensure minimum charge rate; the pipeline leaves a higher planned rate alone,
+    // and the floor still holds when another protection caps the rate
     return {
       workMode: "Battery first",
-      chargeRate: MIN_CHARGE_RATE
+      minChargeRate: this.config.minChargeRate
     };
   }
 
   getName(): string {
     return "Battery Protection";
   }
+
+  isEnabled(): boolean {
+    return this.config.enabled;
+  }
+
+  getSettings(): Record<string, number> {
+    return {
+      activationPercent: this.config.activationPercent,
+      deactivationPercent: this.config.deactivationPercent,
+      minChargeRate: this.config.minChargeRate
+    };
+  }
 }
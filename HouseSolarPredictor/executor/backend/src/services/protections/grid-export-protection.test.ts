@@ -0,0 +1,86 @@
+import {assertEquals} from "@std/assert";
+import {MetricInstance} from "@shared";
+import {GridExportProtection} from "./grid-export-protection.ts";
+import {GridExportProtectionConfig} from "../../types/protectionsConfig.ts";
+
+const CONFIG: GridExportProtectionConfig = {
+  enabled: true,
+  exportLimitKw: 3.68,
+  releaseKw: 3.0,
+  sustainSeconds: 60
+};
+
+function metric(timestampSeconds: number, gridPower: number): MetricInstance {
+  return {
+    timestamp: timestampSeconds * 1000,
+    batteryChargeRate: 0,
+    workModePriority: "Load first",
+    loadPower: 500,
+    gridPower,
+    batteryPower: 0,
+    batteryCurrent: 0,
+    batteryChargePercent: 60,
+    batteryCapacity: 10,
+    solarPower: 0
+  };
+}
+
+/** Feeds readings taken every `intervalSeconds` and returns whether the protection fired after each one */
+function feed(protection: GridExportProtection, gridPowers: number[], intervalSeconds = 30): boolean[] {
+  return gridPowers.map((gridPower, i) =>
+    protection.checkOverride("Load first", 0, metric(i * intervalSeconds, gridPower)) !== null
+  );
+}
+
+Deno.test("stays idle while export is under the limit", () => {
+  const protection = new GridExportProtection(CONFIG, -1);
+  assertEquals(feed(protection, [-1000, -3000, -3600, -3680, -2000]), [false, false, false, false, false]);
+});
+
+Deno.test("activates only once export has exceeded the limit for the sustain period", () => {
+  const protection = new GridExportProtection(CONFIG, -1);
+  // over the limit at 0s, 30s and 60s
+  assertEquals(feed(protection, [-4000, -4200, -4100]), [false, false, true]);
+});
+
+Deno.test("a brief export spike does not activate", () => {
+  const protection = new GridExportProtection(CONFIG, -1);
+  assertEquals(feed(protection, [-4500, -4500, -2000, -4500, -4500, -1000]), [false, false, false, false, false, false]);
+});
+
+Deno.test("switches to Battery first and leaves the charge rate alone", () => {
+  const protection = new GridExportProtection({ ...CONFIG, sustainSeconds: 0 }, -1);
+  const action = protection.checkOverride("Load first", 0, metric(0, -5000));
+  assertEquals(action, { workMode: "Battery first" });
+});
+
+Deno.test("holds inside the hysteresis band and releases after sustained low export", () => {
+  const protection = new GridExportProtection(CONFIG, -1);
+  const fired = feed(protection, [
+    -4000, -4000, -4000, // activates at 60s
+    -3500, -3200, -3500, -3300, // between release and limit: stays active
+    -2500, -2500, -2500 // below release for 60s: releases
+  ]);
+  assertEquals(fired, [false, false, true, true, true, true, true, true, true, false]);
+});
+
+Deno.test("a brief dip below the release level does not release", () => {
+  const protection = new GridExportProtection(CONFIG, -1);
+  assertEquals(feed(protection, [-4000, -4000, -4000, -2000, -3500, -2000, -3500]), [false, false, true, true, true, true, true]);
+});
+
+Deno.test("ignores import regardless of size", () => {
+  const protection = new GridExportProtection(CONFIG, -1);
+  assertEquals(feed(protection, [8000, 8000, 8000, 8000]), [false, false, false, false]);
+});
+
+Deno.test("honours a positive export sign", () => {
+  const protection = new GridExportProtection(CONFIG, 1);
+  assertEquals(feed(protection, [4000, 4000, 4000, -9000]), [false, false, true, true]);
+});
+
+Deno.test("uses metric timestamps rather than the number of checks", () => {
+  const protection = new GridExportProtection(CONFIG, -1);
+  // readings every 10 seconds need seven checks to cover 60 seconds
+  assertEquals(feed(protection, [-4000, -4000, -4000, -4000, -4000, -4000, -4000], 10), [false, false, false, false, false, false, true]);
+});
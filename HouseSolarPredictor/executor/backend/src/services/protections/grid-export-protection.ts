@@ -0,0 +1,78 @@
+import {InverterMode, MetricInstance, ProtectionAction, ProtectionCategory} from "@shared";
+import {ProtectionOverride} from "./protection-interface.ts";
+import {GridExportProtectionConfig} from "../../types/protectionsConfig.ts";
+
+/**
+ * Keeps export under the DNO export limit by sending surplus solar into the battery.
+ *
+ * Activates once export has stayed above the limit for the sustain period and releases once it has
+ * stayed below the release level for the same period. Time is taken from the metric timestamps so
+ * the protection behaves the same however often it is checked.
+ */
+export class GridExportProtection implements ProtectionOverride {
+  readonly priority = 20;
+  readonly category: ProtectionCategory = "safety";
+  private readonly config: GridExportProtectionConfig;
+  private readonly exportSign: number;
+  private isActive = false;
+  private pendingSince: number | null = null; // when the reading first crossed the threshold for a state change
+
+  constructor(config: GridExportProtectionConfig, exportSign: number) {
+    this.config = config;
+    this.exportSign = exportSign;
+  }
+
+  checkOverride(
+    _plannedMode: InverterMode,
+    _plannedChargeRate: number,
+    currentMetrics: MetricInstance
+  ): ProtectionAction | null {
+    const exportKw = this.getExportKw(currentMetrics);
+
+    // Only a reading on the far side of the hysteresis band counts towards a state change
+    const crossing = this.isActive
+      ? exportKw < this.config.releaseKw
+      : exportKw > this.config.exportLimitKw;
+
+    if (!crossing) {
+      this.pendingSince = null;
+    } else {
+      this.pendingSince ??= currentMetrics.timestamp;
+      const sustainedMs = currentMetrics.timestamp - this.pendingSince;
+      if (sustainedMs >= this.config.sustainSeconds * 1000) {
+        this.isActive = !this.isActive;
+        this.pendingSince = null;
+      }
+    }
+
+    if (!this.isActive) {
+      return null;
+    }
+
+    // Battery first puts solar into the battery before the grid
+    return {
+      workMode: "Battery first"
+    };
+  }
+
+  getName(): string {
+    return "Grid Export Protection";
+  }
+
+  isEnabled(): boolean {
+    return this.config.enabled;
+  }
+
+  getSettings(): Record<string, number> {
+    return {
+      exportLimitKw: this.config.exportLimitKw,
+      releaseKw: this.config.releaseKw,
+      sustainSeconds: this.config.sustainSeconds
+    };
+  }
+
+  private getExportKw(metrics: MetricInstance): number {
+    // gridPower is in watts; exportSign says which direction counts as export
+    return Math.max(0, metrics.gridPower * this.exportSign) / 1000;
+  }
+}
@@ -0,0 +1,130 @@
+import {assertEquals} from "@std/assert";
+import {MetricInstance, ProtectionAction} from "@shared";
+import {GridImportProtection} from "./grid-import-protection.ts";
+import {MetricHistory} from "../metric-history.ts";
+import {GridImportProtectionConfig} from "../../types/protectionsConfig.ts";
+
+const CONFIG: GridImportProtectionConfig = {
+  enabled: true,
+  importLimitKw: 15,
+  headroomKw: 1,
+  stepPercent: 10,
+  averagingSeconds: 60
+};
+
+interface Reading {
+  gridPower: number;
+  loadPower: number;
+}
+
+function metric(timestampSeconds: number, reading: Reading): MetricInstance {
+  return {
+    timestamp: timestampSeconds * 1000,
+    batteryChargeRate: 100,
+    workModePriority: "Battery first",
+    loadPower: reading.loadPower,
+    gridPower: reading.gridPower,
+    batteryPower: 0,
+    batteryCurrent: 0,
+    batteryChargePercent: 40,
+    batteryCapacity: 10,
+    solarPower: 0
+  };
+}
+
+/**
+ * Runs one control check per averaging period, with the history holding only that period's readings.
+ * Returns the charge rate cap after each check, or null when the protection is not capping.
+ */
+function feed(
+  readings: Reading[],
+  plannedChargeRate = 100,
+  plannedMode: "Battery first" | "Load first" = "Battery first"
+): (number | null)[] {
+  const history = new MetricHistory(10);
+  const protection = new GridImportProtection(CONFIG, history, -1);
+
+  return readings.map((reading, i) => {
+    history.clear();
+    history.add("gridPower", reading.gridPower);
+    history.add("loadPower", reading.loadPower);
+    const action: ProtectionAction | null = protection.checkOverride(plannedMode, plannedChargeRate, metric((i + 1) * 60, reading));
+    return action?.maxChargeRate ?? null;
+  });
+}
+
+Deno.test("does nothing while import is under the limit", () => {
+  assertEquals(feed([
+    { gridPower: 9000, loadPower: 2000 },
+    { gridPower: 14000, loadPower: 7000 }
+  ]), [null, null]);
+});
+
+Deno.test("steps the charge rate down while import stays over the limit", () => {
+  assertEquals(feed([
+    { gridPower: 17000, loadPower: 9000 },
+    { gridPower: 16000, loadPower: 9000 },
+    { gridPower: 15500, loadPower: 9000 }
+  ]), [90, 80, 70]);
+});
+
+Deno.test("holds the cap while import is between the limit and the headroom", () => {
+  assertEquals(feed([
+    { gridPower: 16000, loadPower: 9000 },
+    { gridPower: 14500, loadPower: 9000 },
+    { gridPower: 14200, loadPower: 9000 }
+  ]), [90, 90, 90]);
+});
+
+Deno.test("steps back up and releases once headroom returns", () => {
+  assertEquals(feed([
+    { gridPower: 17000, loadPower: 9000 },
+    { gridPower: 16000, loadPower: 9000 },
+    { gridPower: 12000, loadPower: 4000 },
+    { gridPower: 12500, loadPower: 4000 },
+    { gridPower: 13000, loadPower: 4000 }
+  ]), [90, 80, 90, null, null]);
+});
+
+Deno.test("stops grid charging outright when the house load alone is over the limit", () => {
+  assertEquals(feed([
+    { gridPower: 22000, loadPower: 16000 }
+  ]), [0]);
+});
+
+Deno.test("never caps below zero", () => {
+  const readings = Array.from({ length: 12 }, () => ({ gridPower: 16000, loadPower: 9000 }));
+  const caps = feed(readings);
+  assertEquals(caps[caps.length - 1], 0);
+});
+
+Deno.test("only steps once per averaging period", () => {
+  const history = new MetricHistory(10);
+  const protection = new GridImportProtection(CONFIG, history, -1);
+  history.add("gridPower", 17000);
+  history.add("loadPower", 9000);
+  const reading = { gridPower: 17000, loadPower: 9000 };
+
+  assertEquals(protection.checkOverride("Battery first", 100, metric(60, reading)), { maxChargeRate: 90 });
+  assertEquals(protection.checkOverride("Battery first", 100, metric(90, reading)), { maxChargeRate: 90 });
+  assertEquals(protection.checkOverride("Battery first", 100, metric(120, reading)), { maxChargeRate: 80 });
+});
+
+Deno.test("is idle when not grid charging", () => {
+  assertEquals(feed([{ gridPower: 17000, loadPower: 17000 }], 0), [null]);
+  assertEquals(feed([{ gridPower: 17000, loadPower: 17000 }], 100, "Load first"), [null]);
+});
+
+Deno.test("reads import as negative grid power when export is reported as positive", () => {
+  const importing = new MetricHistory(10);
+  importing.add("gridPower", -17000);
+  importing.add("loadPower", 9000);
+  const importReading = { gridPower: -17000, loadPower: 9000 };
+  assertEquals(new GridImportProtection(CONFIG, importing, 1).checkOverride("Battery first", 100, metric(60, importReading)), { maxChargeRate: 90 });
+
+  const exporting = new MetricHistory(10);
+  exporting.add("gridPower", 17000);
+  exporting.add("loadPower", 9000);
+  const exportReading = { gridPower: 17000, loadPower: 9000 };
+  assertEquals(new GridImportProtection(CONFIG, exporting, 1).checkOverride("Battery first", 100, metric(60, exportReading)), null);
+});
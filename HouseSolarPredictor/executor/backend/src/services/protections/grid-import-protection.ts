@@ -0,0 +1,100 @@
+import {InverterMode, MetricInstance, ProtectionAction, ProtectionCategory} from "@shared";
+import {ProtectionOverride} from "./protection-interface.ts";
+import {GridImportProtectionConfig} from "../../types/protectionsConfig.ts";
+import {MetricHistory} from "../metric-history.ts";
+
+/**
+ * Keeps grid import under the main fuse rating while grid charging.
+ *
+ * Rather than switching grid charging off, the charge rate is capped and stepped down while the
+ * averaged import is over the limit, then stepped back up once there is headroom again. Only one
+ * step is taken per averaging period so each change shows up in the average before the next.
+ */
+export class GridImportProtection implements ProtectionOverride {
+  readonly priority = 15;
+  readonly category: ProtectionCategory = "safety";
+  private readonly config: GridImportProtectionConfig;
+  private readonly metricHistory: MetricHistory;
+  private readonly exportSign: number;
+  private chargeRateCap: number | null = null; // null while the planned rate is allowed through
+  private lastStepTime = 0;
+
+  constructor(config: GridImportProtectionConfig, metricHistory: MetricHistory, exportSign: number) {
+    this.config = config;
+    this.metricHistory = metricHistory;
+    this.exportSign = exportSign;
+  }
+
+  checkOverride(
+    plannedMode: InverterMode,
+    plannedChargeRate: number,
+    currentMetrics: MetricInstance
+  ): ProtectionAction | null {
+    // Only grid charging can be turned down; anything else is the house load itself
+    if (plannedMode !== "Battery first" || plannedChargeRate === 0) {
+      this.chargeRateCap = null;
+      return null;
+    }
+
+    const averagingMs = this.config.averagingSeconds * 1000;
+    if (this.metricHistory.count("gridPower", averagingMs) === 0) {
+      return this.currentAction();
+    }
+
+    if (currentMetrics.timestamp - this.lastStepTime < averagingMs) {
+      return this.currentAction();
+    }
+
+    // gridPower is in watts; import is the opposite direction to export
+    const importKw = Math.max(0, -this.metricHistory.average("gridPower", averagingMs) * this.exportSign) / 1000;
+    const loadKw = this.metricHistory.average("loadPower", averagingMs) / 1000;
+    const currentCap = this.chargeRateCap ?? plannedChargeRate;
+
+    if (importKw > this.config.importLimitKw) {
+      // If the house alone is over the limit there is no point stepping, stop grid charging outright
+      const nextCap = loadKw >= this.config.importLimitKw
+        ? 0
+        : Math.max(0, currentCap - this.config.stepPercent);
+      this.setCap(nextCap, currentMetrics.timestamp);
+    } else if (this.chargeRateCap !== null && importKw < this.config.importLimitKw - this.config.headroomKw) {
+      const nextCap = this.chargeRateCap + this.config.stepPercent;
+      this.setCap(nextCap >= plannedChargeRate ? null : nextCap, currentMetrics.timestamp);
+    }
+
+    return this.currentAction();
+  }
+
+  getName(): string {
+    return "Grid Import Protection";
+  }
+
+  isEnabled(): boolean {
+    return this.config.enabled;
+  }
+
+  getSettings(): Record<string, number> {
+    return {
+      importLimitKw: this.config.importLimitKw,
+      headroomKw: this.config.headroomKw,
+      stepPercent: this.config.stepPercent,
+      averagingSeconds: this.config.averagingSeconds
+    };
+  }
+
+  private setCap(cap: number | null, timestamp: number): void {
+    if (cap !== this.chargeRateCap) {
+      this.chargeRateCap = cap;
+      this.lastStepTime = timestamp;
+    }
+  }
+
+  private currentAction(): ProtectionAction | null {
+    if (this.chargeRateCap === null) {
+      return null;
+    }
+
+    return {
+      maxChargeRate: this.chargeRateCap
+    };
+  }
+}
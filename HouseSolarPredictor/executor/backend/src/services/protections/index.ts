@@ -1,4 +1,8 @@
 export type { ProtectionOverride } from "./protection-interface.ts";
 export { BatteryProtection } from "./battery-protection.ts";
 export { WastedSolarProtection } from "./wasted-solar-protection.ts";
-export { BatteryOverchargeProtection } from "./battery-overcharge-protection.ts";
\ No newline at end of file
+export { BatteryOverchargeProtection } from "./battery-overcharge-protection.ts";
+export { GridExportProtection } from "./grid-export-protection.ts";
+export { GridImportProtection } from "./grid-import-protection.ts";
+export { ProtectionPipeline } from "./protection-pipeline.ts";
+export type { ProtectionPipelineResult } from "./protection-pipeline.ts";
\ No newline at end of file
@@ -1,21 +1,42 @@
-import {InverterMode, MetricInstance} from "@shared";
+import {InverterMode, MetricInstance, ProtectionAction, ProtectionCategory} from "@shared";
 
 export interface ProtectionOverride {
+  /**
+   * Order within the pipeline; lower numbers run first and win conflicts within a category.
+   * Safety-critical protections always run before economic ones.
+   */
+  readonly priority: number;
+
+  /**
+   * Safety-critical protections keep running during a manual override, economic ones do not
+   */
+  readonly category: ProtectionCategory;
+
   /**
    * Checks if this protection should override the planned inverter settings
    * @param plannedMode The planned inverter mode
    * @param plannedChargeRate The planned charge rate
    * @param currentMetrics Current system metrics
-   * @returns Override settings if protection should activate, null otherwise
+   * @returns The adjustment this protection wants if it should activate, null otherwise
    */
   checkOverride(
     plannedMode: InverterMode,
     plannedChargeRate: number,
     currentMetrics: MetricInstance
-  ): { workMode: InverterMode; chargeRate: number } | null;
+  ): ProtectionAction | null;
 
   /**
    * Gets the name of this protection for logging purposes
    */
   getName(): string;
-}
\ No newline at end of file
+
+  /**
+   * Whether this protection has been enabled in config
+   */
+  isEnabled(): boolean;
+
+  /**
+   * Gets the thresholds this protection is currently running with
+   */
+  getSettings(): Record<string, number>;
+}
@@ -0,0 +1,122 @@
+import {assertEquals} from "@std/assert";
+import {InverterMode, MetricInstance, ProtectionAction, ProtectionCategory} from "@shared";
+import {ProtectionOverride} from "./protection-interface.ts";
+import {ProtectionPipeline} from "./protection-pipeline.ts";
+import {BatteryProtection} from "./battery-protection.ts";
+import {GridImportProtection} from "./grid-import-protection.ts";
+import {GridExportProtection} from "./grid-export-protection.ts";
+import {MetricHistory} from "../metric-history.ts";
+
+const METRICS = { batteryChargePercent: 50, batteryCapacity: 10 } as MetricInstance;
+
+/** A protection that always asks for the same action, counting how often it was checked */
+function protection(name: string, category: ProtectionCategory, priority: number, action: ProtectionAction | null) {
+  const fake = {
+    priority,
+    category,
+    checks: 0,
+    checkOverride: (_mode: InverterMode, _rate: number, _metrics: MetricInstance) => {
+      fake.checks++;
+      return action;
+    },
+    getName: () => name,
+    isEnabled: () => true,
+    getSettings: () => ({})
+  };
+  return fake satisfies ProtectionOverride;
+}
+
+Deno.test("takes the work mode from the highest-ranked protection that asks for one", () => {
+  const pipeline = new ProtectionPipeline([
+    protection("Later", "economic", 30, { workMode: "Battery first" }),
+    protection("Earlier", "economic", 20, { workMode: "Load first" })
+  ]);
+
+  const result = pipeline.run("Battery first", 0, METRICS, false);
+  assertEquals(result.workMode, "Load first");
+  assertEquals(result.appliedProtections, ["Earlier"]);
+  assertEquals(result.suppressedProtections, ["Later"]);
+  assertEquals(result.decisions[1].reason, "work mode overruled by Earlier");
+});
+
+Deno.test("applies charge rate caps before floors", () => {
+  const pipeline = new ProtectionPipeline([
+    protection("Exact", "economic", 10, { chargeRate: 80 }),
+    protection("Cap", "economic", 20, { maxChargeRate: 0 }),
+    protection("Floor", "economic", 30, { minChargeRate: 15 })
+  ]);
+
+  const result = pipeline.run("Battery first", 50, METRICS, false);
+  assertEquals(result.chargeRate, 15);
+  assertEquals(result.appliedProtections, ["Floor"]);
+  assertEquals(result.decisions.map(decision => decision.reason), ["charge rate overruled by Floor", "charge rate overruled by Floor", undefined]);
+});
+
+Deno.test("a safety floor beats an economic cap and safety ranks first whatever its priority", () => {
+  const pipeline = new ProtectionPipeline([
+    protection("Overcharge", "economic", 1, { workMode: "Load first", maxChargeRate: 0 }),
+    protection("Battery", "safety", 50, { workMode: "Battery first", minChargeRate: 5 })
+  ]);
+
+  const result = pipeline.run("Load first", 0, METRICS, false);
+  assertEquals([result.workMode, result.chargeRate], ["Battery first", 5]);
+  assertEquals(result.decisions.map(decision => [decision.name, decision.outcome]), [["Battery", "applied"], ["Overcharge", "suppressed"]]);
+  assertEquals(result.decisions[1].reason, "work mode and charge rate overruled by Battery");
+  assertEquals(result.decisions[1].action, { workMode: "Load first", maxChargeRate: 0 });
+});
+
+Deno.test("only runs safety protections during a manual override", () => {
+  const economic = protection("Economic", "economic", 10, { maxChargeRate: 0 });
+  const safety = protection("Safety", "safety", 10, { minChargeRate: 5 });
+  const pipeline = new ProtectionPipeline([economic, safety]);
+
+  const result = pipeline.run("Battery first", 0, METRICS, true);
+  assertEquals(result.chargeRate, 5);
+  assertEquals(economic.checks, 0);
+  assertEquals(result.decisions.map(decision => [decision.outcome, decision.reason]), [["applied", undefined], ["skipped", "Manual override active"]]);
+});
+
+const BATTERY_CONFIG = { enabled: true, activationPercent: 2, deactivationPercent: 3, minChargeRate: 10 };
+
+Deno.test("battery protection leaves a plan that already charges above the minimum rate alone", () => {
+  const pipeline = new ProtectionPipeline([new BatteryProtection(BATTERY_CONFIG)]);
+  const low = { ...METRICS, batteryChargePercent: 2 };
+
+  assertEquals(pipeline.run("Battery first", 100, low, false).chargeRate, 100);
+  assertEquals(pipeline.run("Battery first", 5, low, false).chargeRate, 10);
+  assertEquals(pipeline.run("Load first", 100, low, false).workMode, "Battery first");
+});
+
+Deno.test("the battery floor holds when grid import protection caps the charge rate", () => {
+  const history = new MetricHistory(10);
+  history.add("gridPower", 22000);
+  history.add("loadPower", 16000);
+  const importConfig = { enabled: true, importLimitKw: 15, headroomKw: 1, stepPercent: 10, averagingSeconds: 60 };
+  const pipeline = new ProtectionPipeline([new BatteryProtection(BATTERY_CONFIG), new GridImportProtection(importConfig, history, -1)]);
+
+  const result = pipeline.run("Battery first", 100, { ...METRICS, batteryChargePercent: 1, timestamp: 60_000, gridPower: 22000 }, false);
+  assertEquals([result.workMode, result.chargeRate], ["Battery first", 10]);
+  assertEquals(result.decisions.map(decision => [decision.name, decision.outcome]), [
+    ["Battery Protection", "applied"],
+    ["Grid Import Protection", "suppressed"]
+  ]);
+});
+
+Deno.test("export protection switches to Battery first and keeps the charge rate other protections settle on", () => {
+  const exportConfig = { enabled: true, exportLimitKw: 3.68, releaseKw: 3, sustainSeconds: 0 };
+  const exporting = { ...METRICS, timestamp: 0, gridPower: -5000 };
+
+  const capped = new ProtectionPipeline([
+    new GridExportProtection(exportConfig, -1),
+    protection("Cap", "economic", 30, { maxChargeRate: 30 })
+  ]).run("Load first", 80, exporting, false);
+  assertEquals([capped.workMode, capped.chargeRate], ["Battery first", 30]);
+  assertEquals(capped.appliedProtections, ["Grid Export Protection", "Cap"]);
+
+  const floored = new ProtectionPipeline([
+    new GridExportProtection(exportConfig, -1),
+    protection("Floor", "economic", 30, { minChargeRate: 20 })
+  ]).run("Load first", 0, exporting, false);
+  assertEquals([floored.workMode, floored.chargeRate], ["Battery first", 20]);
+  assertEquals(floored.appliedProtections, ["Grid Export Protection", "Floor"]);
+});
@@ -0,0 +1,140 @@
+import {InverterMode, MetricInstance, ProtectionAction, ProtectionDecision} from "@shared";
+import {ProtectionOverride} from "./protection-interface.ts";
+
+export interface ProtectionPipelineResult {
+  workMode: InverterMode;
+  chargeRate: number;
+  decisions: ProtectionDecision[];
+  appliedProtections: string[];
+  suppressedProtections: string[];
+}
+
+interface FiredProtection {
+  protection: ProtectionOverride;
+  action: ProtectionAction;
+}
+
+/**
+ * Runs every protection against the planned settings and combines the adjustments they ask for.
+ *
+ * Work mode and exact charge rates are taken from the first protection that asks for them.
+ * Charge rate caps are then applied, followed by charge rate floors, so a safety minimum always
+ * beats an economic cap.
+ */
+export class ProtectionPipeline {
+  private readonly protections: ProtectionOverride[];
+
+  constructor(protections: ProtectionOverride[]) {
+    this.protections = [...protections].sort((a, b) => this.compareProtections(a, b));
+  }
+
+  run(
+    plannedMode: InverterMode,
+    plannedChargeRate: number,
+    currentMetrics: MetricInstance,
+    safetyOnly: boolean
+  ): ProtectionPipelineResult {
+    const decisions = new Map<ProtectionOverride, ProtectionDecision>();
+    const fired: FiredProtection[] = [];
+
+    for (const protection of this.protections) {
+      const decision: ProtectionDecision = {
+        name: protection.getName(),
+        category: protection.category,
+        priority: protection.priority,
+        outcome: "idle"
+      };
+      decisions.set(protection, decision);
+
+      if (!protection.isEnabled()) {
+        decision.outcome = "disabled";
+        continue;
+      }
+
+      if (safetyOnly && protection.category !== "safety") {
+        decision.outcome = "skipped";
+        decision.reason = "Manual override active";
+        continue;
+      }
+
+      const action = protection.checkOverride(plannedMode, plannedChargeRate, currentMetrics);
+      if (action) {
+        decision.action = action;
+        fired.push({ protection, action });
+      }
+    }
+
+    const workModeSource = fired.find(f => f.action.workMode !== undefined);
+    const workMode = workModeSource?.action.workMode ?? plannedMode;
+
+    const rateSource = fired.find(f => f.action.chargeRate !== undefined);
+    let chargeRate = rateSource?.action.chargeRate ?? plannedChargeRate;
+    let chargeRateSource = rateSource?.protection;
+
+    for (const { protection, action } of fired) {
+      if (action.maxChargeRate !== undefined && chargeRate > action.maxChargeRate) {
+        chargeRate = action.maxChargeRate;
+        chargeRateSource = protection;
+      }
+    }
+
+    for (const { protection, action } of fired) {
+      if (action.minChargeRate !== undefined && chargeRate < action.minChargeRate) {
+        chargeRate = action.minChargeRate;
+        chargeRateSource = protection;
+      }
+    }
+
+    for (const { protection, action } of fired) {
+      const decision = decisions.get(protection)!;
+      const conflicts = this.findConflicts(action, workMode, chargeRate);
+      if (conflicts.length === 0) {
+        decision.outcome = "applied";
+        continue;
+      }
+
+      const winners = [
+        conflicts.includes("work mode") ? workModeSource?.protection.getName() : undefined,
+        conflicts.includes("charge rate") ? chargeRateSource?.getName() : undefined
+      ].filter((name): name is string => name !== undefined);
+      decision.outcome = "suppressed";
+      decision.reason = `${conflicts.join(" and ")} overruled by ${[...new Set(winners)].join(", ")}`;
+    }
+
+    const orderedDecisions = this.protections.map(protection => decisions.get(protection)!);
+    return {
+      workMode,
+      chargeRate,
+      decisions: orderedDecisions,
+      appliedProtections: orderedDecisions.filter(d => d.outcome === "applied").map(d => d.name),
+      suppressedProtections: orderedDecisions.filter(d => d.outcome === "suppressed").map(d => d.name)
+    };
+  }
+
+  getProtections(): ProtectionOverride[] {
+    return [...this.protections];
+  }
+
+  private findConflicts(action: ProtectionAction, workMode: InverterMode, chargeRate: number): string[] {
+    const conflicts: string[] = [];
+    if (action.workMode !== undefined && action.workMode !== workMode) {
+      conflicts.push("work mode");
+    }
+
+    const exactRateLost = action.chargeRate !== undefined && action.chargeRate !== chargeRate;
+    const capLost = action.maxChargeRate !== undefined && chargeRate > action.maxChargeRate;
+    const floorLost = action.minChargeRate !== undefined && chargeRate < action.minChargeRate;
+    if (exactRateLost || capLost || floorLost) {
+      conflicts.push("charge rate");
+    }
+
+    return conflicts;
+  }
+
+  private compareProtections(a: ProtectionOverride, b: ProtectionOverride): number {
+    if (a.category !== b.category) {
+      return a.category === "safety" ? -1 : 1;
+    }
+    return a.priority - b.priority;
+  }
+}
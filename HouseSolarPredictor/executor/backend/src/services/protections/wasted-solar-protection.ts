@@ -1,31 +1,35 @@
-import {InverterMode, MetricInstance} from "@shared";
+import {InverterMode, MetricInstance, ProtectionAction, ProtectionCategory} from "@shared";
 import {ProtectionOverride} from "./protection-interface.ts";
+import {WastedSolarProtectionConfig} from "../../types/protectionsConfig.ts";
 
 export class WastedSolarProtection implements ProtectionOverride {
-  private readonly batteryActivationThreshold = 97; // Battery charge percentage to turn on protection
-  private readonly batteryDeactivationThreshold = 95; // Battery charge percentage to turn off protection
-  private readonly startHour = 8; // Start of solar generation window
-  private readonly endHour = 18; // End of solar generation window
+  readonly priority = 50;
+  readonly category: ProtectionCategory = "economic";
+  private readonly config: WastedSolarProtectionConfig;
   private isActive = false; // Track whether protection is currently active
 
+  constructor(config: WastedSolarProtectionConfig) {
+    this.config = config;
+  }
+
   checkOverride(
     plannedMode: InverterMode, 
     plannedChargeRate: number, 
     currentMetrics: MetricInstance
-  ): { workMode: InverterMode; chargeRate: number } | null {
+  ): ProtectionAction | null {
     const batteryCharge = currentMetrics.batteryChargePercent;
 
     // Check time is within solar generation window first
     const now = Temporal.Now.instant().toZonedDateTimeISO('Europe/London');
-    if (now.hour < this.startHour || now.hour > this.endHour) {
+    if (now.hour < this.config.startHour || now.hour > this.config.endHour) {
       this.isActive = false; // Deactivate outside solar hours
       return null;
     }
 
-    // Implement hysteresis: turn on at 97%, turn off at 95%
-    if (!this.isActive && batteryCharge >= this.batteryActivationThreshold) {
+    // Implement hysteresis: turn on at the activation level, turn off below the deactivation level
+    if (!this.isActive && batteryCharge >= this.config.activationPercent) {
       this.isActive = true;
-    } else if (this.isActive && batteryCharge < this.batteryDeactivationThreshold) {
+    } else if (this.isActive && batteryCharge < this.config.deactivationPercent) {
       this.isActive = false;
     }
 
@@ -44,4 +48,17 @@ export class WastedSolarProtection implements ProtectionOverride {
   getName(): string {
     return "Wasted Solar Protection";
   }
+
+  isEnabled(): boolean {
+    return this.config.enabled;
+  }
+
+  getSettings(): Record<string, number> {
+    return {
+      activationPercent: this.config.activationPercent,
+      deactivationPercent: this.config.deactivationPercent,
+      startHour: this.config.startHour,
+      endHour: this.config.endHour
+    };
+  }
 }
@@ -0,0 +1,96 @@
+import {assertAlmostEquals, assertEquals} from "@std/assert";
+import {MetricInstance, OutputsMode} from "@shared";
+import {replanSegments, simulateSegment} from "./replan.ts";
+import {Replanner} from "./replanner.ts";
+import {ScheduleService} from "./schedule.ts";
+import type {BackendTimeSegment} from "../../time/backend-time-segment.ts";
+
+const START = Temporal.Instant.from("2025-06-02T00:00:00Z").epochMilliseconds;
+const MINUTE = 60_000;
+const LIMITS = { capacityKwh: 5, reserveKwh: 0.5, maxChargeKw: 4, maxDischargeKw: 4 };
+
+function segment(index: number, mode: OutputsMode, gridPrice: number, expectedConsumption: number, startBatteryChargeKwh = 4, endBatteryChargeKwh = 4): BackendTimeSegment {
+  return {
+    time: {
+      segmentStart: Temporal.Instant.fromEpochMilliseconds(START + index * 30 * MINUTE),
+      segmentEnd: Temporal.Instant.fromEpochMilliseconds(START + (index + 1) * 30 * MINUTE)
+    },
+    expectedSolarGeneration: 0,
+    gridPrice,
+    exportPrice: 0,
+    expectedConsumption,
+    startBatteryChargeKwh,
+    endBatteryChargeKwh,
+    mode,
+    wastedSolarGeneration: 0,
+    actualGridUsage: 0,
+    cost: 0
+  };
+}
+
+// A cheap half hour the plan didn't need to charge in, then two expensive ones it meant to cover from the battery
+const PLAN = [
+  segment(0, OutputsMode.ChargeSolarOnly, 0.05, 0.5),
+  segment(1, OutputsMode.Discharge, 0.35, 1, 4, 3),
+  segment(2, OutputsMode.Discharge, 0.35, 1, 3, 2)
+];
+
+Deno.test("simulates each mode's charge, discharge and grid use", () => {
+  const sunny = { ...PLAN[0], expectedSolarGeneration: 1.5 };
+
+  assertEquals(simulateSegment(PLAN[0], OutputsMode.ChargeFromGridAndSolar, 4, LIMITS).endBatteryKwh, 5);
+  assertAlmostEquals(simulateSegment(PLAN[0], OutputsMode.ChargeFromGridAndSolar, 1, LIMITS).importKwh, 2.5);
+  assertEquals(simulateSegment(sunny, OutputsMode.ChargeSolarOnly, 1, LIMITS).endBatteryKwh, 2);
+  assertEquals(simulateSegment(sunny, OutputsMode.ChargeSolarOnly, 4.5, LIMITS).exportKwh, 0.5);
+  // Discharge stops at the reserve and the grid covers the rest
+  const discharge = simulateSegment(PLAN[1], OutputsMode.Discharge, 1, LIMITS);
+  assertEquals([discharge.endBatteryKwh, discharge.importKwh], [0.5, 0.5]);
+});
+
+Deno.test("charges in the cheap half hour when the battery is lower than planned", () => {
+  const result = replanSegments(PLAN, 0.5, LIMITS);
+
+  assertEquals(result.segments.map(revised => revised.mode), [OutputsMode.ChargeFromGridAndSolar, OutputsMode.Discharge, OutputsMode.Discharge]);
+  assertEquals(result.segments.map(revised => revised.endBatteryChargeKwh), [2.5, 1.5, 0.5]);
+  assertEquals(result.segments[1].startBatteryChargeKwh, 2.5);
+  // Both end at the reserve, which is valued at the cheapest price
+  assertAlmostEquals(result.originalCost, 0.7);
+  assertAlmostEquals(result.revisedCost, 0.1);
+
+  // With the battery where the plan expected it, nothing is worth changing
+  assertEquals(replanSegments(PLAN, 4, LIMITS).segments.map(revised => revised.mode), PLAN.map(planned => planned.mode));
+});
+
+Deno.test("re-plans the rest of the day once a segment when the battery drifts past the threshold", () => {
+  const current = segment(-1, OutputsMode.ChargeSolarOnly, 0.2, 0.5, 4, 4);
+  const tomorrow = segment(48, OutputsMode.Discharge, 0.35, 1);
+  const applied: BackendTimeSegment[][] = [];
+  const schedule = {
+    getTimeSegmentAt: (instant: Temporal.Instant) => [current, ...PLAN].find(planned =>
+      instant.epochMilliseconds >= planned.time.segmentStart.epochMilliseconds && instant.epochMilliseconds < planned.time.segmentEnd.epochMilliseconds) ?? null,
+    getOriginalSegments: () => [tomorrow, ...PLAN, current],
+    applyReplan: (segments: BackendTimeSegment[]) => applied.push(segments),
+    getActiveRevision: () => ({ id: 7 })
+  } as unknown as ScheduleService;
+  const config = { enabled: true, driftThresholdPercent: 15, maxChargePowerKw: 4, maxDischargePowerKw: 4, reservePercent: 10 };
+  const metrics = (batteryChargePercent: number) => ({ batteryChargePercent, batteryCapacity: 5 }) as MetricInstance;
+  const midway = START - 15 * MINUTE;
+
+  const replanner = new Replanner(schedule, config);
+  assertEquals(replanner.check(metrics(76), midway), null);
+  assertEquals(replanner.getReplan(), null);
+
+  const replan = replanner.check(metrics(10), midway)!;
+  assertEquals([replan.scheduleRevision, replan.driftKwh, replan.startBatteryKwh], [7, -3.5, 0.5]);
+  assertEquals(replan.segments.map(revised => [revised.originalMode, revised.mode]), [
+    [OutputsMode.ChargeSolarOnly, OutputsMode.ChargeFromGridAndSolar],
+    [OutputsMode.Discharge, OutputsMode.Discharge],
+    [OutputsMode.Discharge, OutputsMode.Discharge]
+  ]);
+  assertEquals(applied.length, 1);
+  assertEquals(replanner.getReplan(), replan);
+
+  // The current segment keeps its plan, so it isn't re-planned again until the next one
+  assertEquals(replanner.check(metrics(10), midway + 5 * MINUTE), null);
+  assertEquals(new Replanner(schedule, { ...config, enabled: false }).check(metrics(10), midway), null);
+});
@@ -0,0 +1,125 @@
+import {OutputsMode} from "@shared";
+import type {BackendTimeSegment} from "../../time/backend-time-segment.ts";
+
+const BATTERY_STEP_KWH = 0.05; // battery levels are rounded to this between segments while searching
+const MODES = Object.values(OutputsMode);
+
+export interface BatteryLimits {
+  capacityKwh: number;
+  reserveKwh: number; // Discharge stops here
+  maxChargeKw: number;
+  maxDischargeKw: number;
+}
+
+export interface SegmentOutcome {
+  endBatteryKwh: number;
+  importKwh: number;
+  exportKwh: number;
+  cost: number; // import less export revenue, at the segment's prices
+}
+
+export interface ReplanResult {
+  segments: BackendTimeSegment[];
+  originalCost: number;
+  revisedCost: number;
+}
+
+/**
+ * What a mode does over a segment with its forecast solar and load. ChargeFromGridAndSolar charges
+ * at full power from solar and the grid, ChargeSolarOnly charges from surplus solar only, and
+ * Discharge also covers any shortfall from the battery down to the reserve. Surplus solar the
+ * battery can't take is exported.
+ */
+export function simulateSegment(segment: BackendTimeSegment, mode: OutputsMode, batteryKwh: number, limits: BatteryLimits): SegmentOutcome {
+  const hours = (segment.time.segmentEnd.epochMilliseconds - segment.time.segmentStart.epochMilliseconds) / 3_600_000;
+  const headroomKwh = Math.max(0, limits.capacityKwh - batteryKwh);
+  const surplusKwh = segment.expectedSolarGeneration - segment.expectedConsumption;
+
+  let chargeKwh = Math.min(Math.max(0, surplusKwh), limits.maxChargeKw * hours, headroomKwh);
+  let dischargeKwh = 0;
+  if (mode === OutputsMode.ChargeFromGridAndSolar) {
+    chargeKwh = Math.min(limits.maxChargeKw * hours, headroomKwh);
+  } else if (mode === OutputsMode.Discharge) {
+    dischargeKwh = Math.min(Math.max(0, -surplusKwh), limits.maxDischargeKw * hours, Math.max(0, batteryKwh - limits.reserveKwh));
+  }
+
+  const gridKwh = segment.expectedConsumption + chargeKwh - dischargeKwh - segment.expectedSolarGeneration;
+  const importKwh = Math.max(0, gridKwh);
+  const exportKwh = Math.max(0, -gridKwh);
+  return {
+    endBatteryKwh: batteryKwh + chargeKwh - dischargeKwh,
+    importKwh,
+    exportKwh,
+    cost: importKwh * segment.gridPrice - exportKwh * segment.exportPrice
+  };
+}
+
+/**
+ * Chooses the cheapest mode for each of the given consecutive segments from a starting battery
+ * level, by dynamic programming over battery levels. Energy left in the battery at the end is
+ * valued at the cheapest import price among the segments, so it isn't sold off or hoarded for
+ * nothing. Where a different mode would save nothing, the segment keeps its original one.
+ */
+export function replanSegments(segments: BackendTimeSegment[], startBatteryKwh: number, limits: BatteryLimits): ReplanResult {
+  if (segments.length === 0) {
+    return { segments: [], originalCost: 0, revisedCost: 0 };
+  }
+
+  const endValue = Math.min(...segments.map(segment => segment.gridPrice));
+  const levels = Math.floor(limits.capacityKwh / BATTERY_STEP_KWH) + 1;
+  const levelOf = (kwh: number) => Math.min(levels - 1, Math.max(0, Math.round(kwh / BATTERY_STEP_KWH)));
+
+  // costToGo[index][level]: the cheapest cost from the start of segment `index` at that battery level
+  const costToGo: number[][] = new Array(segments.length + 1);
+  costToGo[segments.length] = Array.from({ length: levels }, (_, level) => -level * BATTERY_STEP_KWH * endValue);
+  for (let index = segments.length - 1; index >= 0; index--) {
+    const next = costToGo[index + 1];
+    costToGo[index] = Array.from({ length: levels }, (_, level) => Math.min(...MODES.map(mode => {
+      const outcome = simulateSegment(segments[index], mode, level * BATTERY_STEP_KWH, limits);
+      return outcome.cost + next[levelOf(outcome.endBatteryKwh)];
+    })));
+  }
+
+  // Follow the cheapest choices forward from the actual starting level, without rounding it
+  let batteryKwh = startBatteryKwh;
+  const revised = segments.map((segment, index) => {
+    const totalCost = (outcome: SegmentOutcome) => outcome.cost + costToGo[index + 1][levelOf(outcome.endBatteryKwh)];
+    let mode = segment.mode;
+    let outcome = simulateSegment(segment, mode, batteryKwh, limits);
+    for (const candidate of MODES) {
+      const candidateOutcome = simulateSegment(segment, candidate, batteryKwh, limits);
+      if (totalCost(candidateOutcome) < totalCost(outcome) - 1e-9) {
+        mode = candidate;
+        outcome = candidateOutcome;
+      }
+    }
+
+    const revisedSegment: BackendTimeSegment = {
+      ...segment,
+      mode,
+      startBatteryChargeKwh: batteryKwh,
+      endBatteryChargeKwh: outcome.endBatteryKwh,
+      actualGridUsage: outcome.importKwh - outcome.exportKwh,
+      cost: outcome.cost
+    };
+    batteryKwh = outcome.endBatteryKwh;
+    return revisedSegment;
+  });
+
+  return {
+    segments: revised,
+    originalCost: planCost(segments, startBatteryKwh, limits, endValue),
+    revisedCost: planCost(revised, startBatteryKwh, limits, endValue)
+  };
+}
+
+function planCost(segments: BackendTimeSegment[], startBatteryKwh: number, limits: BatteryLimits, endValue: number): number {
+  let batteryKwh = startBatteryKwh;
+  let cost = 0;
+  for (const segment of segments) {
+    const outcome = simulateSegment(segment, segment.mode, batteryKwh, limits);
+    cost += outcome.cost;
+    batteryKwh = outcome.endBatteryKwh;
+  }
+  return cost - batteryKwh * endValue;
+}
@@ -0,0 +1,111 @@
+import {MetricInstance, Replan} from "@shared";
+import {ScheduleService} from "./schedule.ts";
+import {Logger} from "../logger.ts";
+import {ReplanningConfig} from "../types/replanningConfig.ts";
+import {getExpectedBatteryKwh} from "./planned-battery-trajectory.ts";
+import {replanSegments} from "./replan.ts";
+import {TIME_ZONE} from "../time-zone.ts";
+
+/**
+ * Re-plans the rest of the day when the battery drifts too far from the schedule's planned line,
+ * so the executor doesn't keep following a plan made for a battery level it no longer has
+ */
+export class Replanner {
+  private readonly scheduleService: ScheduleService;
+  private readonly config: ReplanningConfig;
+  private readonly logger: Logger;
+  private lastReplannedSegmentStart: number | null = null; // epoch ms
+  private replan: Replan | null = null;
+
+  constructor(scheduleService: ScheduleService, config: ReplanningConfig) {
+    this.scheduleService = scheduleService;
+    this.config = config;
+    this.logger = new Logger();
+  }
+
+  /**
+   * Checks the battery against the current segment's planned line and, if it has drifted past the
+   * threshold, re-plans from the next segment to the end of the day. Runs at most once a segment,
+   * since the current segment keeps its plan until it ends.
+   */
+  check(metrics: MetricInstance, now: number = Temporal.Now.instant().epochMilliseconds): Replan | null {
+    const capacityKwh = metrics.batteryCapacity;
+    const instant = Temporal.Instant.fromEpochMilliseconds(now);
+    const current = this.scheduleService.getTimeSegmentAt(instant);
+    if (!this.config.enabled || !current || capacityKwh <= 0) {
+      return null;
+    }
+    const currentStart = current.time.segmentStart.epochMilliseconds;
+    if (currentStart === this.lastReplannedSegmentStart) {
+      return null;
+    }
+
+    const actualBatteryKwh = (metrics.batteryChargePercent / 100) * capacityKwh;
+    const expectedBatteryKwh = getExpectedBatteryKwh(current, instant);
+    const driftKwh = actualBatteryKwh - expectedBatteryKwh;
+    if ((Math.abs(driftKwh) / capacityKwh) * 100 < this.config.driftThresholdPercent) {
+      return null;
+    }
+
+    const currentEnd = current.time.segmentEnd.epochMilliseconds;
+    const dayEnd = instant.toZonedDateTimeISO(TIME_ZONE).toPlainDate().add({ days: 1 })
+      .toZonedDateTime({ timeZone: TIME_ZONE }).epochMilliseconds;
+    const remaining = this.scheduleService.getOriginalSegments()
+      .filter(segment => segment.time.segmentStart.epochMilliseconds >= currentEnd && segment.time.segmentStart.epochMilliseconds < dayEnd)
+      .sort((a, b) => a.time.segmentStart.epochMilliseconds - b.time.segmentStart.epochMilliseconds);
+    if (remaining.length === 0) {
+      return null;
+    }
+
+    // The rest of the current segment is assumed to go as planned, from where the battery actually is
+    const startBatteryKwh = Math.min(capacityKwh, Math.max(0, actualBatteryKwh + current.endBatteryChargeKwh - expectedBatteryKwh));
+    const result = replanSegments(remaining, startBatteryKwh, {
+      capacityKwh,
+      reserveKwh: (this.config.reservePercent / 100) * capacityKwh,
+      maxChargeKw: this.config.maxChargePowerKw,
+      maxDischargeKw: this.config.maxDischargePowerKw
+    });
+    this.scheduleService.applyReplan(result.segments);
+    this.lastReplannedSegmentStart = currentStart;
+
+    this.replan = {
+      createdAt: now,
+      scheduleRevision: this.scheduleService.getActiveRevision()?.id ?? null,
+      actualBatteryKwh,
+      expectedBatteryKwh,
+      driftKwh,
+      startBatteryKwh,
+      originalCost: result.originalCost,
+      revisedCost: result.revisedCost,
+      segments: remaining.map((segment, index) => ({
+        segmentStart: segment.time.segmentStart.epochMilliseconds,
+        segmentEnd: segment.time.segmentEnd.epochMilliseconds,
+        gridPrice: segment.gridPrice,
+        exportPrice: segment.exportPrice,
+        expectedSolarGeneration: segment.expectedSolarGeneration,
+        expectedConsumption: segment.expectedConsumption,
+        originalMode: segment.mode,
+        mode: result.segments[index].mode,
+        originalEndBatteryChargeKwh: segment.endBatteryChargeKwh,
+        endBatteryChargeKwh: result.segments[index].endBatteryChargeKwh
+      }))
+    };
+    this.logger.logSignificant("SCHEDULE_REPLANNED", {
+      actualBatteryKwh: Number(actualBatteryKwh.toFixed(2)),
+      expectedBatteryKwh: Number(expectedBatteryKwh.toFixed(2)),
+      segmentCount: remaining.length,
+      changedModes: this.replan.segments.filter(segment => segment.mode !== segment.originalMode).length,
+      originalCost: Number(result.originalCost.toFixed(2)),
+      revisedCost: Number(result.revisedCost.toFixed(2))
+    });
+    return this.replan;
+  }
+
+  /**
+   * The latest re-plan, or null if there hasn't been one since the schedule last changed
+   */
+  getReplan(): Replan | null {
+    const revision = this.scheduleService.getActiveRevision()?.id ?? null;
+    return this.replan?.scheduleRevision === revision ? this.replan : null;
+  }
+}
@@ -0,0 +1,81 @@
+import {assertEquals} from "@std/assert";
+import {OutputsMode, ScheduleValidationReport} from "@shared";
+import {validateSchedule, validateScheduleText} from "./schedule-validator.ts";
+import {ScheduleValidationConfig} from "../types/scheduleValidationConfig.ts";
+
+const CONFIG: ScheduleValidationConfig = { batteryCapacityKwh: 10, minPrice: -1, maxPrice: 1 };
+
+function segment(start: string, end: string, startKwh: number, endKwh: number, overrides: Record<string, unknown> = {}) {
+  return {
+    time: { segmentStart: start, segmentEnd: end },
+    mode: OutputsMode.ChargeSolarOnly,
+    gridPrice: 0.25,
+    exportPrice: 0.15,
+    expectedSolarGeneration: 0,
+    expectedConsumption: 0,
+    startBatteryChargeKwh: startKwh,
+    endBatteryChargeKwh: endKwh,
+    wastedSolarGeneration: 0,
+    actualGridUsage: 0,
+    ...overrides
+  };
+}
+
+function codesBySegment(report: ScheduleValidationReport): Record<number, string[]> {
+  return Object.fromEntries(report.segments.map(entry => [entry.index, entry.issues.map(issue => issue.code)]));
+}
+
+Deno.test("accepts a contiguous schedule with London offsets", () => {
+  // The clocks go forward at 01:00 UTC on 2025-03-30
+  const report = validateSchedule([
+    segment("2025-03-30T00:30:00+00:00", "2025-03-30T02:00:00+01:00", 5, 6),
+    segment("2025-03-30T02:00:00+01:00", "2025-03-30T02:30:00+01:00", 6, 7)
+  ], CONFIG);
+
+  assertEquals(report, { valid: true, segmentCount: 2, errorCount: 0, warningCount: 0, scheduleIssues: [], segments: [] });
+});
+
+Deno.test("rejects overlaps, duplicates, missing offsets and impossible battery levels", () => {
+  const report = validateSchedule([
+    segment("2025-06-01T00:00:00Z", "2025-06-01T01:00:00Z", 5, 6),
+    segment("2025-06-01T00:30:00Z", "2025-06-01T01:00:00Z", 6, 7),
+    segment("2025-06-01T00:30:00Z", "2025-06-01T01:00:00Z", 6, 7),
+    segment("2025-06-01T01:00:00", "2025-06-01T01:30:00", 7, 8),
+    segment("2025-06-01T02:00:00Z", "2025-06-01T02:30:00Z", 7, 12, { mode: "Idle" })
+  ], CONFIG);
+
+  assertEquals(report.valid, false);
+  assertEquals(codesBySegment(report), {
+    1: ["overlap"],
+    2: ["duplicate"],
+    3: ["missingOffset", "missingOffset"],
+    4: ["invalidMode", "batteryOutOfRange", "gap"]
+  });
+  assertEquals(report.errorCount, 6);
+  assertEquals(report.warningCount, 1);
+});
+
+Deno.test("warns about battery breaks, odd prices, wrong offsets and defaulted fields", () => {
+  const report = validateSchedule([
+    segment("2025-06-01T00:00:00Z", "2025-06-01T00:30:00Z", 5, 6, { gridPrice: 24.5 }),
+    segment("2025-06-01T01:30:00+01:00", "2025-06-01T02:00:00+01:00", 4, 5),
+    { time: { segmentStart: "2025-06-01T01:00:00Z", segmentEnd: "2025-06-01T01:30:00Z" }, mode: OutputsMode.ChargeSolarOnly }
+  ], CONFIG);
+
+  assertEquals(report.valid, true);
+  assertEquals(codesBySegment(report), {
+    0: ["implausiblePrice"],
+    1: ["batteryDiscontinuity"],
+    2: ["defaulted"]
+  });
+
+  // Half past midnight in winter is written +01:00, an hour out from London
+  const winter = validateSchedule([segment("2025-01-01T00:30:00+01:00", "2025-01-01T00:30:00Z", 5, 5)], CONFIG);
+  assertEquals(codesBySegment(winter), { 0: ["offsetMismatch"] });
+});
+
+Deno.test("reports unreadable schedules as a whole", () => {
+  assertEquals(validateScheduleText("[{", CONFIG).scheduleIssues.map(issue => issue.code), ["invalidJson"]);
+  assertEquals(validateScheduleText("{}", CONFIG).scheduleIssues.map(issue => issue.code), ["notAList"]);
+  assertEquals(validateScheduleText("[]", CONFIG).errorCount, 1);
+});
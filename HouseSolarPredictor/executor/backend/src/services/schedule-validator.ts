@@ -0,0 +1,214 @@
+import {OutputsMode, ScheduleIssue, ScheduleIssueCode, ScheduleIssueSeverity, ScheduleSegmentIssues, ScheduleValidationReport} from "@shared";
+import {ScheduleValidationConfig} from "../types/scheduleValidationConfig.ts";
+import {TIME_ZONE} from "../time-zone.ts";
+
+const BATTERY_TOLERANCE_KWH = 0.01;
+// Fields the schedule service fills in with 0 when they are missing
+const DEFAULTED_FIELDS = [
+  "expectedSolarGeneration",
+  "expectedConsumption",
+  "startBatteryChargeKwh",
+  "endBatteryChargeKwh",
+  "wastedSolarGeneration",
+  "actualGridUsage"
+] as const;
+// Missing prices come from the tariff instead
+const PRICE_FIELDS = ["gridPrice", "exportPrice"] as const;
+const OFFSET_PATTERN = /(Z|[+-]\d{2}(:?\d{2})?)(\[[^\]]*\])?$/i;
+
+interface TimedSegment {
+  index: number;
+  start: number; // epoch ms
+  end: number; // epoch ms
+  startKwh?: number;
+  endKwh?: number;
+}
+
+type AddIssue = (severity: ScheduleIssueSeverity, code: ScheduleIssueCode, message: string) => void;
+
+export function validateScheduleText(text: string, config: ScheduleValidationConfig): ScheduleValidationReport {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (error) {
+    return reportOf([{ severity: "error", code: "invalidJson", message: `Schedule is not valid JSON: ${(error as Error).message}` }], [], 0);
+  }
+  return validateSchedule(raw, config);
+}
+
+/**
+ * Checks every segment rather than stopping at the first problem. Errors are what would make the
+ * schedule unsafe to run: unreadable or ambiguous times, unknown modes, overlapping or duplicate
+ * segments and impossible battery levels. Gaps, breaks in the planned battery level, implausible
+ * prices and fields defaulted to 0 are warnings.
+ */
+export function validateSchedule(raw: unknown, config: ScheduleValidationConfig): ScheduleValidationReport {
+  if (!Array.isArray(raw)) {
+    return reportOf([{ severity: "error", code: "notAList", message: "Schedule must be a list of segments" }], [], 0);
+  }
+
+  const scheduleIssues: ScheduleIssue[] = [];
+  if (raw.length === 0) {
+    scheduleIssues.push({ severity: "error", code: "empty", message: "Schedule has no segments" });
+  }
+
+  const segments: ScheduleSegmentIssues[] = raw.map((segment: unknown, index) => ({
+    index,
+    segmentStart: isRecord(segment) && isRecord(segment.time) && typeof segment.time.segmentStart === "string" ? segment.time.segmentStart : null,
+    issues: []
+  }));
+  const timed: TimedSegment[] = [];
+  raw.forEach((segment, index) => {
+    const issues = segments[index].issues;
+    const checked = checkSegment(segment, config, (severity, code, message) => issues.push({ severity, code, message }));
+    if (checked) {
+      timed.push({ ...checked, index });
+    }
+  });
+  checkSequence(timed, segments);
+
+  return reportOf(scheduleIssues, segments.filter(segment => segment.issues.length > 0), raw.length);
+}
+
+function checkSegment(segment: unknown, config: ScheduleValidationConfig, add: AddIssue): Omit<TimedSegment, "index"> | null {
+  if (!isRecord(segment)) {
+    add("error", "notAnObject", "Segment must be an object");
+    return null;
+  }
+
+  const time = isRecord(segment.time) ? segment.time : {};
+  const start = parseTime(time.segmentStart, "segmentStart", add);
+  const end = parseTime(time.segmentEnd, "segmentEnd", add);
+  if (start !== null && end !== null && end <= start) {
+    add("error", "endNotAfterStart", "time.segmentEnd must be after time.segmentStart");
+  }
+
+  if (!Object.values<unknown>(OutputsMode).includes(segment.mode)) {
+    add("error", "invalidMode", `mode ${JSON.stringify(segment.mode)} is not one of: ${Object.values(OutputsMode).join(", ")}`);
+  }
+
+  const missing: string[] = [];
+  for (const field of DEFAULTED_FIELDS) {
+    const value = segment[field];
+    if (value === undefined || value === null) {
+      missing.push(field);
+    } else if (!isFiniteNumber(value)) {
+      add("error", "invalidNumber", `${field} must be a number`);
+    }
+  }
+  if (missing.length > 0) {
+    add("warning", "defaulted", `${missing.join(", ")} missing, defaulted to 0`);
+  }
+
+  for (const field of PRICE_FIELDS) {
+    const value = segment[field];
+    if (value === undefined || value === null) continue;
+    if (!isFiniteNumber(value)) {
+      add("error", "invalidNumber", `${field} must be a number`);
+    } else if (value < config.minPrice || value > config.maxPrice) {
+      add("warning", "implausiblePrice", `${field} ${value} is outside ${config.minPrice} to ${config.maxPrice}`);
+    }
+  }
+
+  for (const field of ["startBatteryChargeKwh", "endBatteryChargeKwh"] as const) {
+    const value = segment[field];
+    if (!isFiniteNumber(value)) continue;
+    if (value < 0) {
+      add("error", "batteryOutOfRange", `${field} ${value} kWh is below zero`);
+    } else if (config.batteryCapacityKwh > 0 && value > config.batteryCapacityKwh + BATTERY_TOLERANCE_KWH) {
+      add("error", "batteryOutOfRange", `${field} ${value} kWh is above the battery capacity of ${config.batteryCapacityKwh} kWh`);
+    }
+  }
+
+  if (start === null || end === null || end <= start) {
+    return null;
+  }
+  return {
+    start,
+    end,
+    startKwh: isFiniteNumber(segment.startBatteryChargeKwh) ? segment.startBatteryChargeKwh : undefined,
+    endKwh: isFiniteNumber(segment.endBatteryChargeKwh) ? segment.endBatteryChargeKwh : undefined
+  };
+}
+
+function parseTime(value: unknown, field: string, add: AddIssue): number | null {
+  if (typeof value !== "string" || value === "") {
+    add("error", "missingTime", `time.${field} is missing`);
+    return null;
+  }
+  if (!OFFSET_PATTERN.test(value)) {
+    add("error", "missingOffset", `time.${field} "${value}" has no UTC offset, so its time zone is ambiguous`);
+    return null;
+  }
+
+  let instant: Temporal.Instant;
+  try {
+    instant = Temporal.Instant.from(value);
+  } catch {
+    add("error", "invalidTime", `time.${field} "${value}" is not a valid date and time`);
+    return null;
+  }
+
+  // A fixed offset that isn't London's at that moment usually means local time was written with the wrong offset
+  const offset = value.match(/([+-]\d{2}):?(\d{2})(\[[^\]]*\])?$/);
+  if (offset) {
+    const written = `${offset[1]}:${offset[2]}`;
+    const london = instant.toZonedDateTimeISO(TIME_ZONE).offset;
+    if (written !== london) {
+      add("warning", "offsetMismatch", `time.${field} "${value}" has offset ${written}, but Europe/London is ${london} then`);
+    }
+  }
+  return instant.epochMilliseconds;
+}
+
+function checkSequence(timed: TimedSegment[], segments: ScheduleSegmentIssues[]): void {
+  const add = (index: number, severity: ScheduleIssueSeverity, code: ScheduleIssueCode, message: string) =>
+    segments[index].issues.push({ severity, code, message });
+  const sorted = [...timed].sort((a, b) => a.start - b.start || a.end - b.end);
+
+  // The segment reaching furthest so far, so one long segment is caught overlapping several
+  let furthest: TimedSegment | undefined;
+  let previous: TimedSegment | undefined;
+  for (const segment of sorted) {
+    if (previous && furthest) {
+      if (segment.start === previous.start && segment.end === previous.end) {
+        add(segment.index, "error", "duplicate", `Duplicates segment ${previous.index}`);
+      } else if (segment.start < furthest.end) {
+        add(segment.index, "error", "overlap", `Overlaps segment ${furthest.index} from ${instant(segment.start)} to ${instant(Math.min(segment.end, furthest.end))}`);
+      } else if (segment.start > furthest.end) {
+        add(segment.index, "warning", "gap", `Gap of ${(segment.start - furthest.end) / 60_000} minutes after segment ${furthest.index}, from ${instant(furthest.end)}`);
+      } else if (furthest.endKwh !== undefined && segment.startKwh !== undefined && Math.abs(segment.startKwh - furthest.endKwh) > BATTERY_TOLERANCE_KWH) {
+        add(segment.index, "warning", "batteryDiscontinuity", `startBatteryChargeKwh ${segment.startKwh} doesn't follow on from segment ${furthest.index}'s endBatteryChargeKwh ${furthest.endKwh}`);
+      }
+    }
+    previous = segment;
+    if (!furthest || segment.end > furthest.end) {
+      furthest = segment;
+    }
+  }
+}
+
+function reportOf(scheduleIssues: ScheduleIssue[], segments: ScheduleSegmentIssues[], segmentCount: number): ScheduleValidationReport {
+  const issues = [...scheduleIssues, ...segments.flatMap(segment => segment.issues)];
+  const errorCount = issues.filter(issue => issue.severity === "error").length;
+  return {
+    valid: errorCount === 0,
+    segmentCount,
+    errorCount,
+    warningCount: issues.length - errorCount,
+    scheduleIssues,
+    segments
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function instant(epochMilliseconds: number): string {
+  return Temporal.Instant.fromEpochMilliseconds(epochMilliseconds).toString();
+}
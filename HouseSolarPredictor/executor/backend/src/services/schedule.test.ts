@@ -0,0 +1,116 @@
+import {assertEquals} from "@std/assert";
+import {OutputsMode} from "@shared";
+import {ScheduleService} from "./schedule.ts";
+import {DatabaseService} from "./database.ts";
+import {TariffService} from "./tariff-service.ts";
+
+const TARIFF = { standingChargePerDay: 0, vatPercent: 0, importPrice: 0.25, exportPrice: 0.15, bands: [] };
+const TARIFF_IMPORT = { enabled: false, importDirectory: "", exportDirectory: "", pollIntervalSeconds: 60, priceUnit: "pounds" as const };
+const VALIDATION = { batteryCapacityKwh: 10, minPrice: -1, maxPrice: 1 };
+
+function scheduleJson(mode: OutputsMode): string {
+  return JSON.stringify([{
+    time: { segmentStart: "2025-06-01T00:00:00+01:00", segmentEnd: "2025-06-01T00:30:00+01:00" },
+    mode,
+    expectedSolarGeneration: 0,
+    expectedConsumption: 0,
+    startBatteryChargeKwh: 5,
+    endBatteryChargeKwh: 5,
+    wastedSolarGeneration: 0,
+    actualGridUsage: 0
+  }]);
+}
+
+Deno.test("uploads, versions and rolls back schedules", async () => {
+  const directory = await Deno.makeTempDir();
+  const schedulePath = `${directory}/schedule.json`;
+  await Deno.writeTextFile(schedulePath, scheduleJson(OutputsMode.ChargeSolarOnly));
+  const database = new DatabaseService(":memory:");
+  const service = new ScheduleService(schedulePath, new TariffService(database, TARIFF, TARIFF_IMPORT), VALIDATION, database);
+
+  try {
+    await service.loadSchedule();
+    // Reloading the same file, as after a restart, isn't a new revision
+    await service.loadSchedule();
+    assertEquals(service.getRevisions().map(revision => [revision.id, revision.source, revision.author]), [[1, "file", "file"]]);
+
+    const uploaded = await service.uploadSchedule(scheduleJson(OutputsMode.Discharge), "planner");
+    assertEquals([uploaded.revision?.id, uploaded.revision?.source, uploaded.revision?.author], [2, "upload", "planner"]);
+    assertEquals(service.getAllSegments()[0].mode, OutputsMode.Discharge);
+    assertEquals(await Deno.readTextFile(schedulePath), scheduleJson(OutputsMode.Discharge));
+
+    const rejected = await service.uploadSchedule(scheduleJson("Idle" as OutputsMode), "planner");
+    assertEquals([rejected.revision, rejected.report.valid], [null, false]);
+    assertEquals(service.getAllSegments()[0].mode, OutputsMode.Discharge);
+
+    const restored = service.rollback(1, "operator")!;
+    assertEquals([restored.revision?.id, restored.revision?.source, restored.revision?.restoredFrom], [3, "rollback", 1]);
+    assertEquals(restored.revision?.hash, service.getRevisions()[2].hash);
+    assertEquals(service.getAllSegments()[0].mode, OutputsMode.ChargeSolarOnly);
+    assertEquals(service.rollback(99, "operator"), null);
+
+    assertEquals(service.getRevisionAt(Temporal.Now.instant())?.id, 3);
+    assertEquals(service.getRevisionAt(Temporal.Instant.from("2020-01-01T00:00:00Z")), null);
+  } finally {
+    service.stop();
+    database.close();
+    await Deno.remove(directory, { recursive: true });
+  }
+});
+
+Deno.test("runs re-planned segments until a new schedule is activated", async () => {
+  const directory = await Deno.makeTempDir();
+  const schedulePath = `${directory}/schedule.json`;
+  await Deno.writeTextFile(schedulePath, scheduleJson(OutputsMode.ChargeSolarOnly));
+  const database = new DatabaseService(":memory:");
+  const service = new ScheduleService(schedulePath, new TariffService(database, TARIFF, TARIFF_IMPORT), VALIDATION, database);
+
+  try {
+    await service.loadSchedule();
+    const [segment] = service.getOriginalSegments();
+    service.applyReplan([{ ...segment, mode: OutputsMode.ChargeFromGridAndSolar }]);
+    assertEquals(service.getTimeSegmentAt(segment.time.segmentStart)?.mode, OutputsMode.ChargeFromGridAndSolar);
+    assertEquals(service.getOriginalSegments()[0].mode, OutputsMode.ChargeSolarOnly);
+
+    // Reloading the same file keeps the re-plan; a different schedule drops it
+    await service.loadSchedule();
+    assertEquals(service.getAllSegments()[0].mode, OutputsMode.ChargeFromGridAndSolar);
+    await service.uploadSchedule(scheduleJson(OutputsMode.Discharge), "planner");
+    assertEquals(service.getAllSegments()[0].mode, OutputsMode.Discharge);
+  } finally {
+    service.stop();
+    database.close();
+    await Deno.remove(directory, { recursive: true });
+  }
+});
+
+Deno.test("re-prices segments without their own prices when a price file is imported", async () => {
+  const directory = await Deno.makeTempDir();
+  const schedulePath = `${directory}/schedule.json`;
+  await Deno.writeTextFile(schedulePath, scheduleJson(OutputsMode.ChargeSolarOnly));
+  const database = new DatabaseService(":memory:");
+  const tariffService = new TariffService(database, TARIFF, TARIFF_IMPORT);
+  const service = new ScheduleService(schedulePath, tariffService, VALIDATION, database);
+
+  try {
+    await service.loadSchedule();
+    const [segment] = service.getOriginalSegments();
+    service.applyReplan([{ ...segment, mode: OutputsMode.ChargeFromGridAndSolar }]);
+    assertEquals(service.getAllSegments()[0].gridPrice, 0.25);
+
+    const pricePath = `${directory}/agile.json`;
+    await Deno.writeTextFile(pricePath, JSON.stringify({
+      results: [{ value_exc_vat: 30, value_inc_vat: 30, valid_from: "2025-05-31T23:00:00Z", valid_to: "2025-05-31T23:30:00Z" }]
+    }));
+    await tariffService.importFile("import", pricePath);
+
+    assertEquals(service.getOriginalSegments()[0].gridPrice, 0.3);
+    assertEquals(service.getAllSegments()[0].gridPrice, 0.3);
+    assertEquals(service.getAllSegments()[0].mode, OutputsMode.ChargeFromGridAndSolar);
+    assertEquals(service.getAllSegments()[0].exportPrice, 0.15);
+  } finally {
+    service.stop();
+    database.close();
+    await Deno.remove(directory, { recursive: true });
+  }
+});
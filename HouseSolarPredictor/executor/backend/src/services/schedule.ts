@@ -1,18 +1,45 @@
-import {OutputsMode} from "@shared";
 import type {BackendTimeSegment} from "../../time/backend-time-segment.ts";
-import type {RawTimeSegment} from  "@shared";
+import type {RawTimeSegment, ScheduleActivationResult, ScheduleRevision, ScheduleRevisionSource, ScheduleRevisionWithSchedule, ScheduleValidationReport} from  "@shared";
 import {Logger} from "../logger.ts";
+import {DatabaseService} from "./database.ts";
+import {TariffService} from "./tariff-service.ts";
+import {validateScheduleText} from "./schedule-validator.ts";
+import {ScheduleValidationConfig} from "../types/scheduleValidationConfig.ts";
+
+export interface RejectedScheduleReload {
+  report: ScheduleValidationReport;
+  modifiedDate: string; // modified time of the rejected file
+}
+
+interface ScheduleOrigin {
+  source: ScheduleRevisionSource;
+  author: string;
+  restoredFrom?: number;
+}
 
 export class ScheduleService {
   private schedule: BackendTimeSegment[] = [];
+  private rawSchedule: RawTimeSegment[] = []; // as validated, before default prices were filled in
+  private replannedSegments = new Map<number, BackendTimeSegment>(); // run in place of the schedule's segments, by start epoch ms
   private schedulePath: string;
+  private tariffService: TariffService;
+  private databaseService: DatabaseService;
+  private validationConfig: ScheduleValidationConfig;
+  private validationReport: ScheduleValidationReport | null = null;
+  private rejectedReload: RejectedScheduleReload | null = null;
+  private activeRevision: ScheduleRevision | null = null;
+  private watchTimer?: ReturnType<typeof setInterval>;
   private scheduleModifiedDate: Temporal.Instant | null = null;
   private logger: Logger;
 
-  constructor(schedulePath: string) {
+  constructor(schedulePath: string, tariffService: TariffService, validationConfig: ScheduleValidationConfig, databaseService: DatabaseService) {
     this.schedulePath = schedulePath;
+    this.tariffService = tariffService;
+    this.databaseService = databaseService;
+    this.validationConfig = validationConfig;
     this.logger = new Logger();
-    setInterval(() => {
+    this.tariffService.onPricesChanged(() => this.repriceSegments());
+    this.watchTimer = setInterval(() => {
       const scheduleModified = this.getScheduleModifiedDate();
       if (!(scheduleModified && (!this.scheduleModifiedDate || Temporal.Instant.compare(scheduleModified, this.scheduleModifiedDate) > 0))) {
         return;
@@ -24,52 +51,167 @@ export class ScheduleService {
     }, 1000);
   }
 
+  stop(): void {
+    if (this.watchTimer !== undefined) {
+      clearInterval(this.watchTimer);
+      this.watchTimer = undefined;
+    }
+  }
+
   private getScheduleModifiedDate(): Temporal.Instant {
     const scheduleModified = Temporal.Instant.fromEpochMilliseconds(Deno.statSync(this.schedulePath).mtime!.getTime());
     return scheduleModified;
   }
 
   async loadSchedule(): Promise<void> {
+    const modifiedDate = this.getScheduleModifiedDate();
     const scheduleText = await Deno.readTextFile(this.schedulePath);
-    const rawSchedule = JSON.parse(scheduleText) as RawTimeSegment[];
+    const report = validateScheduleText(scheduleText, this.validationConfig);
+
+    if (!report.valid) {
+      // Keep running the last good schedule; marking the file as seen stops the watcher retrying it every second
+      this.scheduleModifiedDate = modifiedDate;
+      this.rejectedReload = { report, modifiedDate: modifiedDate.toString() };
+      this.logger.logSignificant("SCHEDULE_REJECTED", {
+        errorCount: report.errorCount,
+        warningCount: report.warningCount,
+        keptSegmentCount: this.schedule.length,
+        schedulePath: this.schedulePath,
+        modifiedDate: modifiedDate.toString()
+      });
+      throw new Error(`Schedule has ${report.errorCount} error(s): ${firstErrors(report)}`);
+    }
+
+    const hash = await hashSchedule(scheduleText);
+    if (this.scheduleModifiedDate && Temporal.Instant.compare(this.scheduleModifiedDate, modifiedDate) > 0) {
+      return; // a newer schedule was uploaded while this one was being read
+    }
+    this.scheduleModifiedDate = modifiedDate;
+    this.activate(scheduleText, report, hash, { source: "file", author: "file" });
+  }
+
+  /**
+   * Validates a schedule and, if it has no errors, writes it over the schedule file and makes it
+   * the active schedule as a new revision. A schedule with errors changes nothing.
+   */
+  async uploadSchedule(scheduleText: string, author: string): Promise<ScheduleActivationResult> {
+    const report = validateScheduleText(scheduleText, this.validationConfig);
+    if (!report.valid) {
+      this.logger.logSignificant("SCHEDULE_UPLOAD_REJECTED", { author, errorCount: report.errorCount });
+      return { revision: null, report };
+    }
+
+    const hash = await hashSchedule(scheduleText);
+    this.writeScheduleFile(scheduleText);
+    return { revision: this.activate(scheduleText, report, hash, { source: "upload", author }), report };
+  }
+
+  /**
+   * Makes an earlier revision's schedule active again, as a new revision. It is validated again in
+   * case the validation settings have changed since.
+   */
+  rollback(revisionId: number, author: string): ScheduleActivationResult | null {
+    const target = this.databaseService.getScheduleRevision(revisionId);
+    if (!target) {
+      return null;
+    }
 
-    if (!Array.isArray(rawSchedule)) {
-      throw new Error("Schedule must be an array of TimeSegment objects");
+    const report = validateScheduleText(target.schedule, this.validationConfig);
+    if (!report.valid) {
+      return { revision: null, report };
     }
 
+    this.writeScheduleFile(target.schedule);
+    return { revision: this.activate(target.schedule, report, target.hash, { source: "rollback", author, restoredFrom: target.id }), report };
+  }
+
+  getRevisions(limit?: number): ScheduleRevision[] {
+    return this.databaseService.getScheduleRevisions(limit);
+  }
+
+  /**
+   * The schedule that was in force at a time, or null if it was before the first recorded revision
+   */
+  getRevisionAt(instant: Temporal.Instant): ScheduleRevisionWithSchedule | null {
+    return this.databaseService.getScheduleRevisionAt(instant.epochMilliseconds);
+  }
+
+  getActiveRevision(): ScheduleRevision | null {
+    return this.activeRevision;
+  }
+
+  // Synchronous from the switch to the recorded revision, so the file watcher can't interleave
+  private activate(scheduleText: string, report: ScheduleValidationReport, hash: string, origin: ScheduleOrigin): ScheduleRevision {
     const previousSegmentCount = this.schedule.length;
-    this.schedule = rawSchedule.map(this.validateAndTransformSegment);
-    this.scheduleModifiedDate = this.getScheduleModifiedDate();
-    console.log(`✅ Loaded ${this.schedule.length} time segments from schedule`);
-    
+    const previousRevision = this.activeRevision?.id;
+    this.rawSchedule = JSON.parse(scheduleText) as RawTimeSegment[];
+    this.schedule = this.rawSchedule.map(segment => this.transformSegment(segment));
+    this.validationReport = report;
+    this.rejectedReload = null;
+
+    // A restart reloads the file it was left with; that isn't a new revision
+    const latest = this.databaseService.getScheduleRevisions(1)[0];
+    this.activeRevision = origin.source === "file" && latest?.hash === hash
+      ? latest
+      : this.databaseService.insertScheduleRevision({
+        activatedAt: Temporal.Now.instant().epochMilliseconds,
+        ...origin,
+        hash,
+        segmentCount: this.schedule.length,
+        schedule: scheduleText
+      });
+    // A new plan replaces any re-plan of the old one
+    if (this.activeRevision.id !== previousRevision) {
+      this.replannedSegments.clear();
+    }
+    console.log(`✅ Loaded ${this.schedule.length} time segments from schedule (${report.warningCount} warning(s))`);
+
     this.logger.logSignificant("SCHEDULE_LOADED", {
       segmentCount: this.schedule.length,
       previousSegmentCount,
+      warningCount: report.warningCount,
+      revision: this.activeRevision.id,
+      source: origin.source,
+      author: origin.author,
       schedulePath: this.schedulePath,
       modifiedDate: this.scheduleModifiedDate?.toString()
     });
+    return this.activeRevision;
   }
 
-  private validateAndTransformSegment(segment: RawTimeSegment): BackendTimeSegment {
-    // Validate datetime format - NO backward compatibility
-    if (!segment.time?.segmentStart || !segment.time?.segmentEnd) {
-      throw new Error("TimeSegment must have time with segmentStart and segmentEnd datetime strings");
-    }
+  // Written beside the live file and renamed over it, so neither the watcher nor a restart reads half a schedule
+  private writeScheduleFile(scheduleText: string): void {
+    const temporaryPath = `${this.schedulePath}.tmp`;
+    Deno.writeTextFileSync(temporaryPath, scheduleText);
+    Deno.renameSync(temporaryPath, this.schedulePath);
+    this.scheduleModifiedDate = this.getScheduleModifiedDate();
+  }
 
-    // Validate ISO datetime format using Temporal
-    let startDate: Temporal.Instant;
-    let endDate: Temporal.Instant;
-    
-    startDate = Temporal.Instant.from(segment.time.segmentStart);
-    endDate = Temporal.Instant.from(segment.time.segmentEnd);
+  /**
+   * Validates the schedule file on disk without loading it
+   */
+  async validateFile(): Promise<ScheduleValidationReport> {
+    return validateScheduleText(await Deno.readTextFile(this.schedulePath), this.validationConfig);
+  }
 
-    if (Temporal.Instant.compare(endDate, startDate) <= 0) {
-      throw new Error("Segment end time must be after start time");
-    }
+  /**
+   * Report for the schedule currently running, or null before one has loaded
+   */
+  getValidationReport(): ScheduleValidationReport | null {
+    return this.validationReport;
+  }
 
-    if (!Object.values(OutputsMode).includes(segment.mode)) {
-      throw new Error(`Invalid mode: ${segment.mode}. Must be one of: ${Object.values(OutputsMode).join(", ")}`);
-    }
+  /**
+   * The last reload that failed validation, until a good schedule replaces it
+   */
+  getRejectedReload(): RejectedScheduleReload | null {
+    return this.rejectedReload;
+  }
+
+  // Segments have been through validateSchedule, so only the defaults are filled in here
+  private transformSegment(segment: RawTimeSegment): BackendTimeSegment {
+    const startDate = Temporal.Instant.from(segment.time.segmentStart);
+    const endDate = Temporal.Instant.from(segment.time.segmentEnd);
 
     return {
       time: {
@@ -77,7 +219,9 @@ export class ScheduleService {
         segmentEnd: endDate
       },
       expectedSolarGeneration: segment.expectedSolarGeneration || 0,
-      gridPrice: segment.gridPrice || 0,
+      // Segments without prices fall back to imported price files, then the tariff's bands and flat rates
+      gridPrice: segment.gridPrice ?? this.tariffService.importPriceAt(startDate),
+      exportPrice: segment.exportPrice ?? this.tariffService.exportPriceAt(startDate),
       expectedConsumption: segment.expectedConsumption || 0,
       startBatteryChargeKwh: segment.startBatteryChargeKwh || 0,
       endBatteryChargeKwh: segment.endBatteryChargeKwh || 0,
@@ -88,14 +232,55 @@ export class ScheduleService {
     };
   }
 
+  /**
+   * Prices the segments without prices of their own again, including any re-planned ones, so a
+   * price file imported after the schedule loaded is used
+   */
+  private repriceSegments(): void {
+    this.schedule = this.rawSchedule.map(segment => this.transformSegment(segment));
+    for (const segment of this.schedule) {
+      const start = segment.time.segmentStart.epochMilliseconds;
+      const replanned = this.replannedSegments.get(start);
+      if (replanned) {
+        this.replannedSegments.set(start, { ...replanned, gridPrice: segment.gridPrice, exportPrice: segment.exportPrice });
+      }
+    }
+  }
+
+  /**
+   * Runs revised segments in place of the schedule's segments with the same start, until a new
+   * schedule is activated. Segments revised earlier and not in this re-plan stay revised.
+   */
+  applyReplan(segments: BackendTimeSegment[]): void {
+    for (const segment of segments) {
+      this.replannedSegments.set(segment.time.segmentStart.epochMilliseconds, segment);
+    }
+  }
+
+  /**
+   * The schedule as loaded, without any re-planned segments
+   */
+  getOriginalSegments(): BackendTimeSegment[] {
+    return [...this.schedule];
+  }
+
+  private getActiveSegments(): BackendTimeSegment[] {
+    if (this.replannedSegments.size === 0) {
+      return this.schedule;
+    }
+    return this.schedule.map(segment => this.replannedSegments.get(segment.time.segmentStart.epochMilliseconds) ?? segment);
+  }
+
   getCurrentTimeSegment(): BackendTimeSegment | null {
-    const utcNow = Temporal.Now.instant();
+    return this.getTimeSegmentAt(Temporal.Now.instant());
+  }
 
-    return this.schedule.find(segment => {
+  getTimeSegmentAt(instant: Temporal.Instant): BackendTimeSegment | null {
+    return this.getActiveSegments().find(segment => {
       const startDate = Temporal.Instant.from(segment.time.segmentStart);
       const endDate = Temporal.Instant.from(segment.time.segmentEnd);
 
-      return Temporal.Instant.compare(utcNow, startDate) >= 0 && Temporal.Instant.compare(utcNow, endDate) < 0;
+      return Temporal.Instant.compare(instant, startDate) >= 0 && Temporal.Instant.compare(instant, endDate) < 0;
     }) || null;
   }
 
@@ -103,7 +288,7 @@ export class ScheduleService {
     const utcNow = Temporal.Now.instant();
 
     // Find all future segments and sort by start time
-    const futureSegments = this.schedule
+    const futureSegments = this.getActiveSegments()
       .filter(segment => {
         const startDate = Temporal.Instant.from(segment.time.segmentStart);
         return Temporal.Instant.compare(startDate, utcNow) > 0;
@@ -118,11 +303,11 @@ export class ScheduleService {
   }
 
   getAllSegments(): BackendTimeSegment[] {
-    return [...this.schedule];
+    return [...this.getActiveSegments()];
   }
 
   getScheduleForDateRange(startDate: Temporal.Instant, endDate: Temporal.Instant): BackendTimeSegment[] {
-    return this.schedule.filter(segment => {
+    return this.getActiveSegments().filter(segment => {
       const segmentStart = Temporal.Instant.from(segment.time.segmentStart);
       const segmentEnd = Temporal.Instant.from(segment.time.segmentEnd);
 
@@ -151,3 +336,16 @@ export class ScheduleService {
     return this.schedule.length > 0;
   }
 }
+
+function firstErrors(report: ScheduleValidationReport): string {
+  const errors = [
+    ...report.scheduleIssues,
+    ...report.segments.flatMap(segment => segment.issues.map(issue => ({ ...issue, message: `segment ${segment.index}: ${issue.message}` })))
+  ].filter(issue => issue.severity === "error");
+  return errors.slice(0, 3).map(issue => issue.message).join("; ") + (errors.length > 3 ? "; ..." : "");
+}
+
+async function hashSchedule(scheduleText: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(scheduleText));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, "0")).join("");
+}
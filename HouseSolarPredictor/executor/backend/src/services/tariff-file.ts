@@ -0,0 +1,137 @@
+export interface TariffFileSlot {
+  slotStart: number; // epoch ms
+  slotEnd: number; // epoch ms
+  price: number; // pence per kWh before VAT, as Agile prices are published
+}
+
+export interface TariffFileCheck {
+  gaps: { from: number; to: number }[];
+  overlaps: { from: number; to: number }[];
+}
+
+const SLOT_MS = 30 * 60_000;
+
+/**
+ * Parses an Agile price file, by its extension:
+ *
+ * - `.json`: the Octopus API shape, `{ "results": [{ "valid_from", "valid_to", "value_exc_vat", "value_inc_vat" }] }`,
+ *   or just the results array
+ * - `.csv` with a header row naming `valid_from`, `valid_to` and `value_exc_vat` or `value_inc_vat`
+ * - `.csv` without a header, as the half-hourly Agile downloads: `start,HH:MM,region code,region name,price inc VAT`
+ *
+ * Prices given only with VAT have `vatPercent` taken off. Slots are returned sorted by start.
+ */
+export function parseTariffFile(name: string, text: string, vatPercent: number): TariffFileSlot[] {
+  const extension = name.toLowerCase().split(".").pop();
+  let slots: TariffFileSlot[];
+  if (extension === "json") {
+    slots = parseJson(text, vatPercent);
+  } else if (extension === "csv") {
+    slots = parseCsv(text, vatPercent);
+  } else {
+    throw new Error(`Unsupported tariff file type: ${name}. Must be .csv or .json`);
+  }
+
+  if (slots.length === 0) {
+    throw new Error("Tariff file has no prices");
+  }
+  return slots.sort((a, b) => a.slotStart - b.slotStart);
+}
+
+/**
+ * Finds the gaps between consecutive slots and the slots that overlap the one before
+ */
+export function checkTariffSlots(slots: TariffFileSlot[]): TariffFileCheck {
+  const check: TariffFileCheck = { gaps: [], overlaps: [] };
+  for (let i = 1; i < slots.length; i++) {
+    const previous = slots[i - 1];
+    const slot = slots[i];
+    if (slot.slotStart > previous.slotEnd) {
+      check.gaps.push({ from: previous.slotEnd, to: slot.slotStart });
+    } else if (slot.slotStart < previous.slotEnd) {
+      check.overlaps.push({ from: slot.slotStart, to: Math.min(slot.slotEnd, previous.slotEnd) });
+    }
+  }
+  return check;
+}
+
+function parseJson(text: string, vatPercent: number): TariffFileSlot[] {
+  const data = JSON.parse(text);
+  const results = Array.isArray(data) ? data : data?.results;
+  if (!Array.isArray(results)) {
+    throw new Error('Tariff JSON must be a list of prices or have a "results" list');
+  }
+
+  return results.map((result, index) => slotFrom(
+    result.valid_from,
+    result.valid_to,
+    result.value_exc_vat,
+    result.value_inc_vat,
+    vatPercent,
+    `results[${index}]`
+  ));
+}
+
+function parseCsv(text: string, vatPercent: number): TariffFileSlot[] {
+  const rows = text.split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line !== "")
+    .map(line => line.split(",").map(cell => cell.trim().replace(/^"(.*)"$/, "$1")));
+  if (rows.length === 0) return [];
+
+  const header = rows[0].map(cell => cell.toLowerCase());
+  if (header.includes("valid_from")) {
+    const column = (name: string) => header.indexOf(name);
+    return rows.slice(1).map((row, index) => slotFrom(
+      row[column("valid_from")],
+      row[column("valid_to")],
+      numberOrUndefined(row[column("value_exc_vat")]),
+      numberOrUndefined(row[column("value_inc_vat")]),
+      vatPercent,
+      `line ${index + 2}`
+    ));
+  }
+
+  return rows.map((row, index) => {
+    const start = parseInstant(row[0], `line ${index + 1}`);
+    return slotFrom(start, start + SLOT_MS, undefined, numberOrUndefined(row[row.length - 1]), vatPercent, `line ${index + 1}`);
+  });
+}
+
+function slotFrom(
+  validFrom: string | number,
+  validTo: string | number | null,
+  excVat: number | undefined,
+  incVat: number | undefined,
+  vatPercent: number,
+  where: string
+): TariffFileSlot {
+  const slotStart = typeof validFrom === "number" ? validFrom : parseInstant(validFrom, where);
+  if (validTo === null || validTo === undefined || validTo === "") {
+    throw new Error(`${where}: valid_to is missing`);
+  }
+  const slotEnd = typeof validTo === "number" ? validTo : parseInstant(validTo, where);
+  if (slotEnd <= slotStart) {
+    throw new Error(`${where}: valid_to must be after valid_from`);
+  }
+
+  const price = typeof excVat === "number" && Number.isFinite(excVat)
+    ? excVat
+    : typeof incVat === "number" && Number.isFinite(incVat) ? incVat / (1 + vatPercent / 100) : undefined;
+  if (price === undefined) {
+    throw new Error(`${where}: has no price`);
+  }
+  return { slotStart, slotEnd, price };
+}
+
+function parseInstant(value: string | undefined, where: string): number {
+  try {
+    return Temporal.Instant.from(value ?? "").epochMilliseconds;
+  } catch {
+    throw new Error(`${where}: "${value}" is not a date and time with an offset`);
+  }
+}
+
+function numberOrUndefined(value: string | undefined): number | undefined {
+  return value === undefined || value === "" ? undefined : Number(value);
+}
@@ -0,0 +1,122 @@
+import {assertAlmostEquals, assertEquals, assertThrows} from "@std/assert";
+import {checkTariffSlots, parseTariffFile} from "./tariff-file.ts";
+import {TariffService} from "./tariff-service.ts";
+import {DatabaseService} from "./database.ts";
+import {TariffConfig} from "../types/tariffConfig.ts";
+import {TariffImportConfig} from "../types/tariffImportConfig.ts";
+
+const TARIFF: TariffConfig = { standingChargePerDay: 0, vatPercent: 5, importPrice: 0.25, exportPrice: 0.15, bands: [] };
+const START = Temporal.Instant.from("2025-06-01T00:00:00Z").epochMilliseconds;
+const SLOT = 30 * 60_000;
+
+function agileJson(prices: [string, string, number][]): string {
+  return JSON.stringify({
+    count: prices.length,
+    results: prices.map(([from, to, price]) => ({ value_exc_vat: price, value_inc_vat: price * 1.05, valid_from: from, valid_to: to }))
+  });
+}
+
+async function serviceWithFiles(files: Record<string, string>): Promise<{ service: TariffService; database: DatabaseService; directory: string }> {
+  const directory = await Deno.makeTempDir();
+  await Deno.mkdir(`${directory}/import`);
+  for (const [name, text] of Object.entries(files)) {
+    await Deno.writeTextFile(`${directory}/import/${name}`, text);
+  }
+  const config: TariffImportConfig = {
+    enabled: true,
+    importDirectory: `${directory}/import`,
+    exportDirectory: `${directory}/export`,
+    pollIntervalSeconds: 60,
+    priceUnit: "pounds"
+  };
+  const database = new DatabaseService(":memory:");
+  return { service: new TariffService(database, TARIFF, config), database, directory };
+}
+
+Deno.test("reads the Agile API JSON shape", () => {
+  const slots = parseTariffFile("agile.json", agileJson([
+    ["2025-06-01T00:30:00Z", "2025-06-01T01:00:00Z", 12],
+    ["2025-06-01T00:00:00Z", "2025-06-01T00:30:00Z", 10]
+  ]), 5);
+
+  assertEquals(slots, [
+    { slotStart: START, slotEnd: START + SLOT, price: 10 },
+    { slotStart: START + SLOT, slotEnd: START + 2 * SLOT, price: 12 }
+  ]);
+});
+
+Deno.test("reads CSV with and without a header, taking VAT off inclusive prices", () => {
+  const withHeader = parseTariffFile("agile.csv", [
+    "valid_from,valid_to,value_inc_vat",
+    "2025-06-01T00:00:00Z,2025-06-01T00:30:00Z,21"
+  ].join("\n"), 5);
+  assertAlmostEquals(withHeader[0].price, 20);
+
+  const download = parseTariffFile("csv_agile_A_Eastern_England.csv", [
+    "2025-06-01T00:00:00+00:00,00:00,A,Eastern England,10.5",
+    "2025-06-01T00:30:00+00:00,00:30,A,Eastern England,21"
+  ].join("\r\n"), 5);
+  assertEquals(download.map(slot => [slot.slotStart, slot.slotEnd]), [[START, START + SLOT], [START + SLOT, START + 2 * SLOT]]);
+  assertAlmostEquals(download[1].price, 20);
+
+  assertThrows(() => parseTariffFile("prices.txt", "", 5), Error, "Unsupported tariff file type");
+  assertThrows(() => parseTariffFile("agile.json", agileJson([["2025-06-01T00:00:00Z", "2025-06-01T00:00:00Z", 1]]), 5), Error, "valid_to must be after");
+});
+
+Deno.test("finds gaps and overlaps between slots", () => {
+  const check = checkTariffSlots([
+    { slotStart: 0, slotEnd: SLOT, price: 1 },
+    { slotStart: 2 * SLOT, slotEnd: 3 * SLOT, price: 1 },
+    { slotStart: 2 * SLOT + 60_000, slotEnd: 4 * SLOT, price: 1 }
+  ]);
+
+  assertEquals(check.gaps, [{ from: SLOT, to: 2 * SLOT }]);
+  assertEquals(check.overlaps, [{ from: 2 * SLOT + 60_000, to: 3 * SLOT }]);
+});
+
+Deno.test("stores imported prices in pounds and falls back to the tariff outside them", async () => {
+  const { service, database, directory } = await serviceWithFiles({
+    "agile.json": agileJson([
+      ["2025-06-01T00:00:00Z", "2025-06-01T00:30:00Z", 10],
+      ["2025-06-01T01:00:00Z", "2025-06-01T01:30:00Z", 30]
+    ])
+  });
+
+  await service.scan();
+  const [result] = service.getImports();
+  assertEquals(result.slotCount, 2);
+  assertEquals(result.gaps, ["2025-06-01T00:30:00Z/2025-06-01T01:00:00Z"]);
+
+  assertAlmostEquals(service.importPriceAt(Temporal.Instant.fromEpochMilliseconds(START + 60_000)), 0.1);
+  assertEquals(service.importPriceAt(Temporal.Instant.fromEpochMilliseconds(START + SLOT)), 0.25);
+  assertEquals(service.exportPriceAt(Temporal.Instant.fromEpochMilliseconds(START)), 0.15);
+
+  // 2025-06-01 in London starts at 23:00 UTC the day before
+  const day = service.getDayPrices(Temporal.PlainDate.from("2025-06-01"));
+  assertEquals(day.slots.length, 48);
+  assertEquals(day.slots[2].slotStart, START);
+  assertEquals([day.slots[2].importSource, day.slots[3].importSource, day.slots[2].exportSource], ["file", "flat", "flat"]);
+
+  database.close();
+  await Deno.remove(directory, { recursive: true });
+});
+
+Deno.test("rejects a file with overlapping prices and only re-imports changed files", async () => {
+  const { service, database, directory } = await serviceWithFiles({
+    "overlapping.json": agileJson([
+      ["2025-06-01T00:00:00Z", "2025-06-01T01:00:00Z", 10],
+      ["2025-06-01T00:30:00Z", "2025-06-01T01:00:00Z", 12]
+    ])
+  });
+
+  await service.scan();
+  await service.scan();
+  const imports = service.getImports();
+  assertEquals(imports.length, 1);
+  assertEquals(imports[0].slotCount, 0);
+  assertEquals(imports[0].error, "Overlapping prices at 2025-06-01T00:30:00Z/2025-06-01T01:00:00Z");
+  assertEquals(service.importPriceAt(Temporal.Instant.fromEpochMilliseconds(START)), 0.25);
+
+  database.close();
+  await Deno.remove(directory, { recursive: true });
+});
@@ -0,0 +1,178 @@
+import {TariffDayPrices, TariffDirection, TariffFileImport, TariffPriceSource, TariffSlotPrice} from "@shared";
+import {DatabaseService} from "./database.ts";
+import {Logger} from "../logger.ts";
+import {TariffConfig} from "../types/tariffConfig.ts";
+import {TariffImportConfig} from "../types/tariffImportConfig.ts";
+import {checkTariffSlots, parseTariffFile} from "./tariff-file.ts";
+import {tariffPrice} from "./tariff.ts";
+import {TIME_ZONE} from "../time-zone.ts";
+
+const SLOT_MS = 30 * 60_000;
+
+/**
+ * Prices grid import and export. Half-hour price files dropped into the import and export
+ * directories (Agile CSV or JSON) are checked and stored in SQLite, and their prices win over the
+ * tariff's time-of-use bands and flat rates.
+ */
+export class TariffService {
+  private readonly databaseService: DatabaseService;
+  private readonly tariff: TariffConfig;
+  private readonly importConfig: TariffImportConfig;
+  private readonly logger: Logger;
+  private imports: Map<string, TariffFileImport> = new Map(); // keyed by path
+  private importedVersions: Map<string, number> = new Map(); // modified time of each file when imported
+  private scanTimer?: ReturnType<typeof setInterval>;
+  private pricesChangedHandler: () => void = () => {};
+
+  constructor(databaseService: DatabaseService, tariff: TariffConfig, importConfig: TariffImportConfig) {
+    this.databaseService = databaseService;
+    this.tariff = tariff;
+    this.importConfig = importConfig;
+    this.logger = new Logger();
+  }
+
+  /**
+   * Imports the files already in the directories, then watches them for new and changed files
+   */
+  /**
+   * Sets a handler called whenever an imported price file changes the stored prices
+   */
+  onPricesChanged(handler: () => void): void {
+    this.pricesChangedHandler = handler;
+  }
+
+  async start(): Promise<void> {
+    await this.scan();
+    this.scanTimer = setInterval(() => {
+      this.scan().catch(error => this.logger.logException(error as Error));
+    }, this.importConfig.pollIntervalSeconds * 1000);
+  }
+
+  stop(): void {
+    if (this.scanTimer !== undefined) {
+      clearInterval(this.scanTimer);
+      this.scanTimer = undefined;
+    }
+  }
+
+  async scan(): Promise<void> {
+    const directories: [TariffDirection, string][] = [
+      ["import", this.importConfig.importDirectory],
+      ["export", this.importConfig.exportDirectory]
+    ];
+    for (const [direction, directory] of directories) {
+      for (const path of await this.listPriceFiles(directory)) {
+        const modified = (await Deno.stat(path)).mtime?.getTime() ?? 0;
+        if (this.importedVersions.get(path) === modified) continue;
+
+        this.importedVersions.set(path, modified);
+        await this.importFile(direction, path);
+      }
+    }
+  }
+
+  /**
+   * Imports one price file. A file with overlapping slots is rejected whole; gaps are reported but
+   * the prices either side are still stored.
+   */
+  async importFile(direction: TariffDirection, path: string): Promise<TariffFileImport> {
+    const file = path.split("/").pop()!;
+    const result: TariffFileImport = {
+      file,
+      direction,
+      importedAt: Temporal.Now.instant().epochMilliseconds,
+      slotCount: 0,
+      gaps: []
+    };
+
+    try {
+      const slots = parseTariffFile(file, await Deno.readTextFile(path), this.tariff.vatPercent);
+      const check = checkTariffSlots(slots);
+      result.gaps = check.gaps.map(formatInterval);
+      if (check.overlaps.length > 0) {
+        throw new Error(`Overlapping prices at ${check.overlaps.map(formatInterval).join(", ")}`);
+      }
+
+      // Agile prices are in pence
+      const scale = this.importConfig.priceUnit === "pounds" ? 0.01 : 1;
+      this.databaseService.saveTariffPrices(direction, slots.map(slot => ({ ...slot, price: slot.price * scale })), file);
+      result.slotCount = slots.length;
+      this.logger.logSignificant("TARIFF_FILE_IMPORTED", { file, direction, slots: slots.length, gaps: result.gaps });
+      this.pricesChangedHandler();
+    } catch (error) {
+      result.error = (error as Error).message;
+      this.logger.logSignificant("TARIFF_FILE_REJECTED", { file, direction, error: result.error });
+    }
+
+    this.imports.set(path, result);
+    return result;
+  }
+
+  getImports(): TariffFileImport[] {
+    return [...this.imports.values()].sort((a, b) => b.importedAt - a.importedAt);
+  }
+
+  getTariffConfig(): TariffConfig {
+    return this.tariff;
+  }
+
+  importPriceAt(instant: Temporal.Instant): number {
+    return this.priceAt(instant, "import").price;
+  }
+
+  exportPriceAt(instant: Temporal.Instant): number {
+    return this.priceAt(instant, "export").price;
+  }
+
+  /**
+   * Import and export prices for every half hour of a day, whether or not it has a schedule
+   */
+  getDayPrices(date: Temporal.PlainDate): TariffDayPrices {
+    const start = date.toZonedDateTime({ timeZone: TIME_ZONE }).epochMilliseconds;
+    const end = date.add({ days: 1 }).toZonedDateTime({ timeZone: TIME_ZONE }).epochMilliseconds;
+
+    const slots: TariffSlotPrice[] = [];
+    for (let slotStart = start; slotStart < end; slotStart += SLOT_MS) {
+      const instant = Temporal.Instant.fromEpochMilliseconds(slotStart);
+      const importPrice = this.priceAt(instant, "import");
+      const exportPrice = this.priceAt(instant, "export");
+      slots.push({
+        slotStart,
+        slotEnd: slotStart + SLOT_MS,
+        importPrice: importPrice.price,
+        exportPrice: exportPrice.price,
+        importSource: importPrice.source,
+        exportSource: exportPrice.source
+      });
+    }
+    return { date: date.toString(), slots };
+  }
+
+  private priceAt(instant: Temporal.Instant, direction: TariffDirection): { price: number; source: TariffPriceSource } {
+    const imported = this.databaseService.getTariffPriceAt(direction, instant.epochMilliseconds);
+    if (imported !== null) {
+      return { price: imported, source: "file" };
+    }
+    return tariffPrice(this.tariff, instant, direction);
+  }
+
+  private async listPriceFiles(directory: string): Promise<string[]> {
+    const paths: string[] = [];
+    try {
+      for await (const entry of Deno.readDir(directory)) {
+        if (entry.isFile && /\.(csv|json)$/i.test(entry.name)) {
+          paths.push(`${directory}/${entry.name}`);
+        }
+      }
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) return [];
+      throw error;
+    }
+    // Later names win where files cover the same slots
+    return paths.sort();
+  }
+}
+
+function formatInterval(interval: { from: number; to: number }): string {
+  return `${Temporal.Instant.fromEpochMilliseconds(interval.from)}/${Temporal.Instant.fromEpochMilliseconds(interval.to)}`;
+}
@@ -0,0 +1,55 @@
+import {assertAlmostEquals, assertEquals} from "@std/assert";
+import {billFor, exportPriceAt, importPriceAt} from "./tariff.ts";
+import {TariffConfig} from "../types/tariffConfig.ts";
+import {EnergyTotals} from "@shared";
+
+const TARIFF: TariffConfig = {
+  standingChargePerDay: 0.6,
+  vatPercent: 5,
+  importPrice: 0.25,
+  exportPrice: 0.15,
+  bands: [
+    { start: "23:30", end: "05:30", importPrice: 0.07 },
+    { start: "16:00", end: "19:00", importPrice: 0.4, exportPrice: 0.2 }
+  ]
+};
+
+// Local (BST) time on 2025-06-01
+function at(time: string): Temporal.Instant {
+  return Temporal.PlainDateTime.from(`2025-06-01T${time}`).toZonedDateTime("Europe/London").toInstant();
+}
+
+function energy(importKwh: number, exportKwh: number): EnergyTotals {
+  return { importKwh, exportKwh, solarKwh: 0, loadKwh: 0, batteryChargeKwh: 0, batteryDischargeKwh: 0, coveredSeconds: 0 };
+}
+
+Deno.test("prices from the band covering the local time", () => {
+  assertEquals(importPriceAt(TARIFF, at("17:30")), 0.4);
+  assertEquals(exportPriceAt(TARIFF, at("17:30")), 0.2);
+  // The end of a band is the start of the next price
+  assertEquals(importPriceAt(TARIFF, at("19:00")), 0.25);
+});
+
+Deno.test("runs bands that end before they start past midnight", () => {
+  assertEquals(importPriceAt(TARIFF, at("23:45")), 0.07);
+  assertEquals(importPriceAt(TARIFF, at("02:00")), 0.07);
+  assertEquals(importPriceAt(TARIFF, at("05:30")), 0.25);
+  // The band has no export price of its own
+  assertEquals(exportPriceAt(TARIFF, at("02:00")), 0.15);
+});
+
+Deno.test("charges VAT on the import and standing charge but not on exports", () => {
+  const bill = billFor(energy(10, 4), { importCost: 2, exportRevenue: 0.6, netCost: 1.4 }, 2, TARIFF);
+
+  assertEquals(bill.lineItems.map(item => [item.kind, item.quantity, item.unit]), [
+    ["import", 10, "kWh"],
+    ["export", 4, "kWh"],
+    ["standingCharge", 2, "day"],
+    ["vat", undefined, undefined]
+  ]);
+  assertAlmostEquals(bill.lineItems[0].rate!, 0.2);
+  assertAlmostEquals(bill.lineItems[1].amount, -0.6);
+  assertAlmostEquals(bill.lineItems[2].amount, 1.2);
+  assertAlmostEquals(bill.lineItems[3].amount, (2 + 1.2) * 0.05);
+  assertAlmostEquals(bill.total, 2 - 0.6 + 1.2 + 0.16);
+});
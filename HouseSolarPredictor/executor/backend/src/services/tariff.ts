@@ -0,0 +1,90 @@
+import {Bill, CostBreakdown, CostLineItem, EnergyTotals, TariffDirection} from "@shared";
+import {TariffBand, TariffConfig} from "../types/tariffConfig.ts";
+import {TIME_ZONE} from "../time-zone.ts";
+
+/**
+ * Import price from the tariff at a time, for when the schedule has none
+ */
+export function importPriceAt(tariff: TariffConfig, instant: Temporal.Instant): number {
+  return tariffPrice(tariff, instant, "import").price;
+}
+
+/**
+ * Export price from the tariff at a time, for when the schedule has none
+ */
+export function exportPriceAt(tariff: TariffConfig, instant: Temporal.Instant): number {
+  return tariffPrice(tariff, instant, "export").price;
+}
+
+/**
+ * Price from the band covering a time, or the flat rate, and which of the two it came from
+ */
+export function tariffPrice(tariff: TariffConfig, instant: Temporal.Instant, direction: TariffDirection): { price: number; source: "band" | "flat" } {
+  const band = bandAt(tariff, instant);
+  const bandPrice = direction === "import" ? band?.importPrice : band?.exportPrice;
+  if (bandPrice !== undefined) {
+    return { price: bandPrice, source: "band" };
+  }
+  return { price: direction === "import" ? tariff.importPrice : tariff.exportPrice, source: "flat" };
+}
+
+/**
+ * Itemises the cost of a period of `days` days: import and export at the unit rates they were
+ * priced at, the standing charge, and VAT on the import and standing charge
+ */
+export function billFor(energy: EnergyTotals, cost: CostBreakdown, days: number, tariff: TariffConfig): Bill {
+  const standingCharge = days * tariff.standingChargePerDay;
+  const vat = (cost.importCost + standingCharge) * tariff.vatPercent / 100;
+
+  const lineItems: CostLineItem[] = [
+    {
+      kind: "import",
+      description: "Grid import",
+      quantity: energy.importKwh,
+      unit: "kWh",
+      rate: averageRate(cost.importCost, energy.importKwh),
+      amount: cost.importCost
+    },
+    {
+      kind: "export",
+      description: "Grid export",
+      quantity: energy.exportKwh,
+      unit: "kWh",
+      rate: averageRate(cost.exportRevenue, energy.exportKwh),
+      amount: -cost.exportRevenue
+    },
+    {
+      kind: "standingCharge",
+      description: "Standing charge",
+      quantity: days,
+      unit: "day",
+      rate: tariff.standingChargePerDay,
+      amount: standingCharge
+    },
+    {
+      kind: "vat",
+      description: `VAT at ${tariff.vatPercent}%`,
+      amount: vat
+    }
+  ];
+
+  return { lineItems, total: lineItems.reduce((total, item) => total + item.amount, 0) };
+}
+
+function averageRate(amount: number, kwh: number): number {
+  return kwh > 0 ? amount / kwh : 0;
+}
+
+function bandAt(tariff: TariffConfig, instant: Temporal.Instant): TariffBand | undefined {
+  const time = instant.toZonedDateTimeISO(TIME_ZONE).toPlainTime();
+  return tariff.bands.find(band => inBand(band, time));
+}
+
+function inBand(band: TariffBand, time: Temporal.PlainTime): boolean {
+  const afterStart = Temporal.PlainTime.compare(time, Temporal.PlainTime.from(band.start)) >= 0;
+  const beforeEnd = Temporal.PlainTime.compare(time, Temporal.PlainTime.from(band.end)) < 0;
+  // A band ending before (or at) its start runs past midnight
+  return Temporal.PlainTime.compare(Temporal.PlainTime.from(band.start), Temporal.PlainTime.from(band.end)) < 0
+    ? afterStart && beforeEnd
+    : afterStart || beforeEnd;
+}
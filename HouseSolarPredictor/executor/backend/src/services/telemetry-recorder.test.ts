@@ -0,0 +1,126 @@
+import {assertAlmostEquals, assertEquals} from "@std/assert";
+import {TelemetrySample} from "@shared";
+import {TelemetryRecorder} from "./telemetry-recorder.ts";
+import {DatabaseService} from "./database.ts";
+import {parseTelemetrySample, rollUpRollups, rollUpSamples} from "./telemetry-rollup.ts";
+import {TelemetryRecordingConfig} from "../types/telemetryRecordingConfig.ts";
+
+const TOPIC = "solar_assistant/inverter_1/load_power/state";
+const MINUTE = 60_000;
+const HOUR = 60 * MINUTE;
+
+const CONFIG: TelemetryRecordingConfig = {
+  enabled: true,
+  flushIntervalSeconds: 10,
+  rollupIntervalMinutes: 5,
+  maxHoldSeconds: 300,
+  rawRetentionHours: 1,
+  oneMinuteRetentionDays: 1,
+  fiveMinuteRetentionDays: 7,
+  thirtyMinuteRetentionDays: 30
+};
+
+function sample(timestamp: number, value: number): TelemetrySample {
+  return { topic: TOPIC, timestamp, value };
+}
+
+Deno.test("holds each reading until the next when integrating", () => {
+  // 1000 W for the first 30 s, then 3000 W for the rest of the minute
+  const rollups = rollUpSamples(TOPIC, [sample(0, 1000), sample(30_000, 3000)], 0, MINUTE, MINUTE, 300_000);
+
+  assertEquals(rollups.length, 1);
+  assertEquals(rollups[0].sampleCount, 2);
+  assertEquals(rollups[0].coveredMs, MINUTE);
+  assertEquals(rollups[0].min, 1000);
+  assertEquals(rollups[0].max, 3000);
+  assertEquals(rollups[0].avg, 2000);
+  assertAlmostEquals(rollups[0].integral, 2000 / 60);
+});
+
+Deno.test("carries a reading from before the range into buckets without readings", () => {
+  const rollups = rollUpSamples(TOPIC, [sample(-30_000, 600)], 0, 3 * MINUTE, MINUTE, 150_000);
+
+  // Held for the remaining 2 minutes of its 150 s, covering the first two buckets but not the third
+  assertEquals(rollups.map(rollup => [rollup.bucketStart, rollup.sampleCount, rollup.coveredMs]), [
+    [0, 0, MINUTE],
+    [MINUTE, 0, MINUTE]
+  ]);
+  assertAlmostEquals(rollups[0].integral, 10);
+});
+
+Deno.test("stops holding a reading after the maximum hold", () => {
+  const rollups = rollUpSamples(TOPIC, [sample(0, 100), sample(10 * MINUTE, 200)], 0, 11 * MINUTE, 5 * MINUTE, MINUTE);
+
+  assertEquals(rollups.map(rollup => [rollup.bucketStart, rollup.coveredMs]), [[0, MINUTE], [10 * MINUTE, MINUTE]]);
+});
+
+Deno.test("combines finer rollups by time-weighting the average", () => {
+  const fine = rollUpSamples(TOPIC, [sample(0, 100), sample(MINUTE, 400), sample(2 * MINUTE - 15_000, 400)], 0, 2 * MINUTE, MINUTE, MINUTE);
+  const [coarse] = rollUpRollups(fine, 5 * MINUTE);
+
+  assertEquals(coarse.bucketStart, 0);
+  assertEquals(coarse.sampleCount, 3);
+  assertEquals(coarse.coveredMs, 2 * MINUTE);
+  assertEquals(coarse.min, 100);
+  assertEquals(coarse.max, 400);
+  assertEquals(coarse.avg, 250);
+  assertAlmostEquals(coarse.integral, fine[0].integral + fine[1].integral);
+});
+
+Deno.test("keeps non-numeric payloads as text", () => {
+  assertEquals(parseTelemetrySample(TOPIC, " 12.5 ", 0), { topic: TOPIC, timestamp: 0, value: 12.5 });
+  assertEquals(parseTelemetrySample(TOPIC, "Battery first", 0), { topic: TOPIC, timestamp: 0, value: null, text: "Battery first" });
+  assertEquals(parseTelemetrySample(TOPIC, "", 0).value, null);
+});
+
+Deno.test("rolls recorded readings up through every resolution", () => {
+  const database = new DatabaseService(":memory:");
+  const recorder = new TelemetryRecorder(database, CONFIG);
+  for (let time = 0; time < HOUR; time += 10_000) {
+    recorder.record(TOPIC, "1200", time);
+  }
+  recorder.record("solar_assistant/inverter_1/work_mode_priority/state", "Load first", 0);
+
+  recorder.rollUp(HOUR);
+
+  assertEquals(database.getTelemetryRollups("1m", 0, HOUR, TOPIC).length, 60);
+  assertEquals(database.getTelemetryRollups("5m", 0, HOUR, TOPIC).length, 12);
+  const halfHours = database.getTelemetryRollups("30m", 0, HOUR, TOPIC);
+  assertEquals(halfHours.map(rollup => rollup.sampleCount), [180, 180]);
+  assertAlmostEquals(halfHours[0].integral, 600);
+  assertEquals(database.getTelemetryRollups("1m", 0, HOUR, "solar_assistant/inverter_1/work_mode_priority/state"), []);
+  database.close();
+});
+
+Deno.test("removes old data only once the next resolution has it", () => {
+  const database = new DatabaseService(":memory:");
+  const recorder = new TelemetryRecorder(database, CONFIG);
+  recorder.record(TOPIC, "500", 0);
+  recorder.rollUp(10 * MINUTE);
+
+  // Past raw retention and rolled up, so the reading goes but its minute buckets stay
+  recorder.rollUp(2 * HOUR);
+  assertEquals(database.getTelemetrySamples(0, 3 * HOUR).length, 0);
+  assertEquals(database.getTelemetryRollups("1m", 0, 3 * HOUR).length, 5);
+
+  recorder.rollUp(2 * 24 * HOUR);
+  assertEquals(database.getTelemetryRollups("1m", 0, 3 * HOUR).length, 0);
+  assertEquals(database.getTelemetryRollups("30m", 0, 3 * HOUR).length, 1);
+  assertAlmostEquals(database.getTelemetryRollups("30m", 0, 3 * HOUR)[0].integral, 500 * 5 / 60);
+  database.close();
+});
+
+Deno.test("picks the finest resolution still kept for the range", () => {
+  const database = new DatabaseService(":memory:");
+  const recorder = new TelemetryRecorder(database, CONFIG);
+  recorder.record(TOPIC, "42", HOUR - MINUTE);
+
+  assertEquals(recorder.getHistory(TOPIC, 1, undefined, HOUR).resolution, "raw");
+  assertEquals(recorder.getHistory(TOPIC, 1, undefined, HOUR).samples.map(sample => sample.value), [42]);
+  assertEquals(recorder.getHistory(TOPIC, 12, undefined, HOUR).resolution, "1m");
+  assertEquals(recorder.getHistory(TOPIC, 72, undefined, HOUR).resolution, "5m");
+  assertEquals(recorder.getHistory(TOPIC, 24 * 30, undefined, HOUR).resolution, "30m");
+  assertEquals(recorder.getHistory(TOPIC, Number.MAX_VALUE, undefined, HOUR), { topic: TOPIC, resolution: "30m", samples: [], rollups: [] });
+  assertEquals(recorder.getTopics(), [TOPIC]);
+  database.close();
+});
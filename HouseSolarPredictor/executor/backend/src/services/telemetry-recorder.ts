@@ -0,0 +1,190 @@
+import {TelemetryHistory, TelemetryResolution, TelemetryRollup, TelemetryRollupResolution, TelemetrySample} from "@shared";
+import {DatabaseService} from "./database.ts";
+import {Logger} from "../logger.ts";
+import {TelemetryRecordingConfig} from "../types/telemetryRecordingConfig.ts";
+import {floorTo, parseTelemetrySample, ROLLUP_LEVELS, RollupLevel, rollUpRollups, rollUpSamples} from "./telemetry-rollup.ts";
+
+const MS_PER_HOUR = 3_600_000;
+const MS_PER_DAY = 24 * MS_PER_HOUR;
+
+/**
+ * Records every MQTT reading at full resolution and rolls them up into 1-minute, 5-minute and
+ * 30-minute buckets (min, max, time-weighted average and integral), removing each resolution once
+ * it is past its retention and has been rolled up into the next.
+ */
+export class TelemetryRecorder {
+  private readonly databaseService: DatabaseService;
+  private readonly config: TelemetryRecordingConfig;
+  private readonly logger: Logger;
+  private buffer: TelemetrySample[] = [];
+  private flushTimer?: ReturnType<typeof setInterval>;
+  private rollupTimer?: ReturnType<typeof setInterval>;
+
+  constructor(databaseService: DatabaseService, config: TelemetryRecordingConfig) {
+    this.databaseService = databaseService;
+    this.config = config;
+    this.logger = new Logger();
+  }
+
+  start(): void {
+    this.flushTimer = setInterval(() => {
+      this.runSafely(() => this.flush());
+    }, this.config.flushIntervalSeconds * 1000);
+
+    this.rollupTimer = setInterval(() => {
+      this.runSafely(() => this.rollUp());
+    }, this.config.rollupIntervalMinutes * 60_000);
+  }
+
+  stop(): void {
+    if (this.flushTimer !== undefined) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+    if (this.rollupTimer !== undefined) {
+      clearInterval(this.rollupTimer);
+      this.rollupTimer = undefined;
+    }
+    this.runSafely(() => this.flush());
+  }
+
+  record(topic: string, message: string, timestamp: number = Temporal.Now.instant().epochMilliseconds): void {
+    this.buffer.push(parseTelemetrySample(topic, message, timestamp));
+  }
+
+  flush(): void {
+    if (this.buffer.length === 0) return;
+
+    const samples = this.buffer;
+    this.buffer = [];
+    this.databaseService.insertTelemetrySamples(samples);
+  }
+
+  /**
+   * Rolls up every bucket that has finished, then applies the retention policy
+   */
+  rollUp(now: number = Temporal.Now.instant().epochMilliseconds): void {
+    this.flush();
+    for (const level of ROLLUP_LEVELS) {
+      this.rollUpLevel(level, now);
+    }
+    this.applyRetention(now);
+  }
+
+  /**
+   * History for one topic, going back no further than the longest retention. Without a resolution
+   * the finest one still kept for the whole range is used.
+   */
+  getHistory(topic: string, hours: number, resolution?: TelemetryResolution, now: number = Temporal.Now.instant().epochMilliseconds): TelemetryHistory {
+    const rangeHours = Math.min(hours, this.config.thirtyMinuteRetentionDays * 24);
+    const chosen = resolution ?? this.chooseResolution(rangeHours);
+    const from = now - rangeHours * MS_PER_HOUR;
+
+    if (chosen === "raw") {
+      this.flush();
+      return { topic, resolution: chosen, samples: this.databaseService.getTelemetrySamples(from, now, topic), rollups: [] };
+    }
+    return { topic, resolution: chosen, samples: [], rollups: this.databaseService.getTelemetryRollups(chosen, from, now, topic) };
+  }
+
+  getTopics(): string[] {
+    this.flush();
+    return this.databaseService.getTelemetryTopics();
+  }
+
+  private chooseResolution(hours: number): TelemetryResolution {
+    if (hours <= Math.min(6, this.config.rawRetentionHours)) return "raw";
+    if (hours <= Math.min(48, this.config.oneMinuteRetentionDays * 24)) return "1m";
+    if (hours <= Math.min(14 * 24, this.config.fiveMinuteRetentionDays * 24)) return "5m";
+    return "30m";
+  }
+
+  private rollUpLevel(level: RollupLevel, now: number): void {
+    // Only whole buckets, and only once the finer level has finished covering them
+    const sourceEnd = level.source === "raw" ? now : this.databaseService.getTelemetryRollupProgress(level.source);
+    if (sourceEnd === null) return;
+    const end = floorTo(sourceEnd, level.bucketMs);
+
+    const progress = this.databaseService.getTelemetryRollupProgress(level.resolution);
+    const earliest = level.source === "raw"
+      ? this.databaseService.getEarliestTelemetrySampleTime()
+      : this.databaseService.getEarliestTelemetryRollupTime(level.source);
+    if (progress === null && earliest === null) return;
+
+    let start = progress ?? floorTo(earliest as number, level.bucketMs);
+    // Raw readings are fetched an hour at a time, finer rollups a day at a time
+    const chunkMs = level.source === "raw" ? MS_PER_HOUR : MS_PER_DAY;
+    let written = 0;
+
+    while (start < end) {
+      const chunkEnd = Math.min(end, start + chunkMs);
+      const rollups = level.source === "raw"
+        ? this.rollUpRawChunk(start, chunkEnd, level.bucketMs)
+        : rollUpRollups(this.databaseService.getTelemetryRollups(level.source, start, chunkEnd), level.bucketMs);
+
+      this.databaseService.saveTelemetryRollups(level.resolution, rollups);
+      this.databaseService.setTelemetryRollupProgress(level.resolution, chunkEnd);
+      written += rollups.length;
+      start = chunkEnd;
+    }
+
+    if (written > 0) {
+      this.logger.log(`Rolled up ${written} ${level.resolution} telemetry buckets`);
+    }
+  }
+
+  private rollUpRawChunk(from: number, to: number, bucketMs: number): TelemetryRollup[] {
+    const maxHoldMs = this.config.maxHoldSeconds * 1000;
+    // Start early enough to pick up the reading still holding at the start of the chunk
+    const samples = this.databaseService.getTelemetrySamples(from - maxHoldMs, to);
+
+    const byTopic = new Map<string, TelemetrySample[]>();
+    for (const sample of samples) {
+      const topicSamples = byTopic.get(sample.topic);
+      if (topicSamples) {
+        topicSamples.push(sample);
+      } else {
+        byTopic.set(sample.topic, [sample]);
+      }
+    }
+    return [...byTopic.entries()].flatMap(([topic, topicSamples]) =>
+      rollUpSamples(topic, topicSamples, from, to, bucketMs, maxHoldMs)
+    );
+  }
+
+  /**
+   * Removes data past its retention, keeping anything the next resolution hasn't rolled up yet
+   */
+  private applyRetention(now: number): void {
+    const rawCutoff = now - this.config.rawRetentionHours * MS_PER_HOUR;
+    const rawRolledUp = this.databaseService.getTelemetryRollupProgress("1m");
+    if (rawRolledUp !== null) {
+      // The reading holding at the start of the next chunk is still needed
+      this.databaseService.deleteTelemetrySamplesBefore(Math.min(rawCutoff, rawRolledUp - this.config.maxHoldSeconds * 1000));
+    }
+
+    const retentionDays: Record<TelemetryRollupResolution, number> = {
+      "1m": this.config.oneMinuteRetentionDays,
+      "5m": this.config.fiveMinuteRetentionDays,
+      "30m": this.config.thirtyMinuteRetentionDays
+    };
+    ROLLUP_LEVELS.forEach((level, index) => {
+      let cutoff = now - retentionDays[level.resolution] * MS_PER_DAY;
+      const next = ROLLUP_LEVELS[index + 1];
+      if (next) {
+        cutoff = Math.min(cutoff, this.databaseService.getTelemetryRollupProgress(next.resolution) ?? -Infinity);
+      }
+      if (Number.isFinite(cutoff)) {
+        this.databaseService.deleteTelemetryRollupsBefore(level.resolution, cutoff);
+      }
+    });
+  }
+
+  private runSafely(work: () => void): void {
+    try {
+      work();
+    } catch (error) {
+      this.logger.logException(error as Error);
+    }
+  }
+}
@@ -0,0 +1,130 @@
+import {TelemetryRollup, TelemetryRollupResolution, TelemetrySample} from "@shared";
+
+export interface RollupLevel {
+  resolution: TelemetryRollupResolution;
+  bucketMs: number;
+  source: "raw" | TelemetryRollupResolution; // what the buckets are built from
+}
+
+/**
+ * Each level is built from the one before it, so raw readings only need keeping until the
+ * 1-minute buckets covering them are written
+ */
+export const ROLLUP_LEVELS: RollupLevel[] = [
+  { resolution: "1m", bucketMs: 60_000, source: "raw" },
+  { resolution: "5m", bucketMs: 5 * 60_000, source: "1m" },
+  { resolution: "30m", bucketMs: 30 * 60_000, source: "5m" }
+];
+
+const MS_PER_HOUR = 3_600_000;
+
+interface Accumulator {
+  rollup: TelemetryRollup;
+  weightedSum: number; // value × ms, turned into avg and integral at the end
+}
+
+/**
+ * Rolls one topic's numeric readings up into buckets from `from` to `to`. Each reading holds until
+ * the next one or for at most maxHoldMs, so a bucket with no readings of its own is still covered
+ * by the one before it. Readings must be sorted by timestamp and may start before `from`.
+ */
+export function rollUpSamples(
+  topic: string,
+  samples: TelemetrySample[],
+  from: number,
+  to: number,
+  bucketMs: number,
+  maxHoldMs: number
+): TelemetryRollup[] {
+  const buckets = new Map<number, Accumulator>();
+  const bucketFor = (bucketStart: number): Accumulator => {
+    let accumulator = buckets.get(bucketStart);
+    if (!accumulator) {
+      accumulator = {
+        rollup: { topic, bucketStart, sampleCount: 0, coveredMs: 0, min: Infinity, max: -Infinity, avg: 0, integral: 0 },
+        weightedSum: 0
+      };
+      buckets.set(bucketStart, accumulator);
+    }
+    return accumulator;
+  };
+
+  const readings = samples.filter(sample => sample.value !== null);
+  readings.forEach((sample, index) => {
+    const value = sample.value as number;
+    if (sample.timestamp >= from && sample.timestamp < to) {
+      const { rollup } = bucketFor(floorTo(sample.timestamp, bucketMs));
+      rollup.sampleCount++;
+      rollup.min = Math.min(rollup.min, value);
+      rollup.max = Math.max(rollup.max, value);
+    }
+
+    const holdUntil = Math.min(sample.timestamp + maxHoldMs, readings[index + 1]?.timestamp ?? Infinity, to);
+    let start = Math.max(sample.timestamp, from);
+    while (start < holdUntil) {
+      const bucketStart = floorTo(start, bucketMs);
+      const end = Math.min(holdUntil, bucketStart + bucketMs);
+      const accumulator = bucketFor(bucketStart);
+      accumulator.rollup.coveredMs += end - start;
+      accumulator.rollup.min = Math.min(accumulator.rollup.min, value);
+      accumulator.rollup.max = Math.max(accumulator.rollup.max, value);
+      accumulator.weightedSum += value * (end - start);
+      start = end;
+    }
+  });
+
+  return [...buckets.values()]
+    .filter(({ rollup }) => rollup.coveredMs > 0)
+    .map(({ rollup, weightedSum }) => ({
+      ...rollup,
+      avg: weightedSum / rollup.coveredMs,
+      integral: weightedSum / MS_PER_HOUR
+    }))
+    .sort((a, b) => a.bucketStart - b.bucketStart);
+}
+
+/**
+ * Combines finer rollups into buckets of bucketMs, per topic
+ */
+export function rollUpRollups(rollups: TelemetryRollup[], bucketMs: number): TelemetryRollup[] {
+  const groups = new Map<string, TelemetryRollup[]>();
+  for (const rollup of rollups) {
+    const key = `${rollup.topic}|${floorTo(rollup.bucketStart, bucketMs)}`;
+    const group = groups.get(key);
+    if (group) {
+      group.push(rollup);
+    } else {
+      groups.set(key, [rollup]);
+    }
+  }
+
+  return [...groups.values()].map(group => {
+    const coveredMs = group.reduce((sum, rollup) => sum + rollup.coveredMs, 0);
+    return {
+      topic: group[0].topic,
+      bucketStart: floorTo(group[0].bucketStart, bucketMs),
+      sampleCount: group.reduce((sum, rollup) => sum + rollup.sampleCount, 0),
+      coveredMs,
+      min: Math.min(...group.map(rollup => rollup.min)),
+      max: Math.max(...group.map(rollup => rollup.max)),
+      avg: coveredMs > 0 ? group.reduce((sum, rollup) => sum + rollup.avg * rollup.coveredMs, 0) / coveredMs : 0,
+      integral: group.reduce((sum, rollup) => sum + rollup.integral, 0)
+    };
+  });
+}
+
+/**
+ * Parses an MQTT payload into a sample, keeping the text when it isn't a number
+ */
+export function parseTelemetrySample(topic: string, message: string, timestamp: number): TelemetrySample {
+  const trimmed = message.trim();
+  const value = Number(trimmed);
+  if (trimmed !== "" && Number.isFinite(value)) {
+    return { topic, timestamp, value };
+  }
+  return { topic, timestamp, value: null, text: message };
+}
+
+export function floorTo(timestamp: number, bucketMs: number): number {
+  return Math.floor(timestamp / bucketMs) * bucketMs;
+}
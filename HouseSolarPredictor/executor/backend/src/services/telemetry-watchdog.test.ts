@@ -0,0 +1,68 @@
+import {assertEquals} from "@std/assert";
+import {TelemetryWatchdog} from "./telemetry-watchdog.ts";
+import {DatabaseService} from "./database.ts";
+import {TelemetryWatchdogConfig} from "../types/telemetryWatchdogConfig.ts";
+
+// 2025-06-01 12:00 in London
+const START = Temporal.Instant.from("2025-06-01T11:00:00Z").epochMilliseconds;
+const SECOND = 1000;
+
+const CONFIG: TelemetryWatchdogConfig = {
+  enabled: true,
+  maxAgeSeconds: 120,
+  metricMaxAgeSeconds: { batteryCapacity: 900 },
+  action: "hold",
+  safeWorkMode: "Battery first",
+  safeChargeRate: 0
+};
+
+Deno.test("declares a metric stale after its maximum age and records the outage until it recovers", () => {
+  const database = new DatabaseService(":memory:");
+  const watchdog = new TelemetryWatchdog(CONFIG, database);
+  watchdog.recordUpdate("gridPower", START);
+  watchdog.recordUpdate("batteryCapacity", START);
+
+  assertEquals(watchdog.check(START + 120 * SECOND), []);
+  // A metric with its own, longer limit isn't stale yet
+  assertEquals(watchdog.check(START + 121 * SECOND), [{ metric: "gridPower", ageSeconds: 121 }]);
+  assertEquals(watchdog.check(START + 200 * SECOND).map(stale => stale.metric), ["gridPower"]);
+  assertEquals(watchdog.check(START + 901 * SECOND).map(stale => stale.metric), ["gridPower", "batteryCapacity"]);
+
+  watchdog.recordUpdate("gridPower", START + 950 * SECOND);
+  watchdog.recordUpdate("batteryCapacity", START + 950 * SECOND);
+  assertEquals(watchdog.check(START + 960 * SECOND), []);
+
+  // One outage per metric, however many checks saw it stale, closed when readings resumed
+  const outages = database.getTelemetryOutages(Temporal.PlainDate.from("2025-06-01"));
+  assertEquals(outages.map(outage => [outage.metric, outage.lastSeenAt, outage.startedAt, outage.endedAt]), [
+    ["gridPower", START, START + 121 * SECOND, START + 950 * SECOND],
+    ["batteryCapacity", START, START + 901 * SECOND, START + 950 * SECOND]
+  ]);
+  database.close();
+});
+
+Deno.test("never reports stale metrics while disabled", () => {
+  const database = new DatabaseService(":memory:");
+  const watchdog = new TelemetryWatchdog({ ...CONFIG, enabled: false }, database);
+  watchdog.recordUpdate("gridPower", START);
+
+  assertEquals(watchdog.check(START + 3600 * SECOND), []);
+  database.close();
+});
+
+Deno.test("holds with a red status or drives the inverter to the safe settings", () => {
+  const database = new DatabaseService(":memory:");
+  const stale = [{ metric: "batteryChargePercent" as const, ageSeconds: 150 }];
+
+  assertEquals(new TelemetryWatchdog(CONFIG, database).respondTo(stale), {
+    status: "red",
+    message: "Stale telemetry: batteryChargePercent (150s). Control paused",
+    safeSettings: null
+  });
+  assertEquals(new TelemetryWatchdog({ ...CONFIG, action: "safeMode", safeChargeRate: 10 }, database).respondTo(stale), {
+    status: "amber",
+    message: "Stale telemetry: batteryChargePercent (150s). Holding safe mode",
+    safeSettings: { workMode: "Battery first", chargeRate: 10 }
+  });
+  database.close();
+});
@@ -0,0 +1,103 @@
+import {ControllerStatus, InverterMode} from "@shared";
+import {DatabaseService} from "./database.ts";
+import {Logger} from "../logger.ts";
+import {TelemetryWatchdogConfig} from "../types/telemetryWatchdogConfig.ts";
+import {TelemetryField} from "./drivers/index.ts";
+
+export interface StaleMetric {
+  metric: TelemetryField;
+  ageSeconds: number;
+}
+
+export interface StaleTelemetryResponse {
+  status: ControllerStatus;
+  message: string;
+  safeSettings: { workMode: InverterMode; chargeRate: number } | null; // null holds, sending nothing
+}
+
+/**
+ * Tracks when each MQTT metric last arrived and records an outage whenever one goes quiet for
+ * longer than its configured maximum age.
+ */
+export class TelemetryWatchdog {
+  private readonly config: TelemetryWatchdogConfig;
+  private readonly databaseService: DatabaseService;
+  private readonly logger: Logger;
+  private lastSeen: Map<TelemetryField, number> = new Map();
+  private openOutages: Map<TelemetryField, number> = new Map(); // metric -> outage id
+
+  constructor(config: TelemetryWatchdogConfig, databaseService: DatabaseService) {
+    this.config = config;
+    this.databaseService = databaseService;
+    this.logger = new Logger();
+
+    // Anything left open by a previous run can't be tracked any more
+    this.databaseService.closeOpenTelemetryOutages(Temporal.Now.instant().epochMilliseconds);
+  }
+
+  recordUpdate(metric: TelemetryField, now: number = Temporal.Now.instant().epochMilliseconds): void {
+    this.lastSeen.set(metric, now);
+
+    const outageId = this.openOutages.get(metric);
+    if (outageId === undefined) {
+      return;
+    }
+
+    this.openOutages.delete(metric);
+    this.databaseService.endTelemetryOutage(outageId, now);
+    this.logger.logSignificant("TELEMETRY_RECOVERED", { metric });
+  }
+
+  /**
+   * Finds metrics that have gone quiet, opening an outage record for any newly stale ones
+   * @returns The stale metrics, empty when all telemetry is fresh or the watchdog is disabled
+   */
+  check(now: number = Temporal.Now.instant().epochMilliseconds): StaleMetric[] {
+    if (!this.config.enabled) {
+      return [];
+    }
+
+    const stale: StaleMetric[] = [];
+
+    for (const [metric, lastSeenAt] of this.lastSeen) {
+      const ageSeconds = Math.round((now - lastSeenAt) / 1000);
+      if (ageSeconds <= this.getMaxAgeSeconds(metric)) {
+        continue;
+      }
+
+      stale.push({ metric, ageSeconds });
+      if (!this.openOutages.has(metric)) {
+        const outageId = this.databaseService.insertTelemetryOutage({ metric, lastSeenAt, startedAt: now });
+        this.openOutages.set(metric, outageId);
+        this.logger.logSignificant("TELEMETRY_STALE", { metric, ageSeconds });
+      }
+    }
+
+    return stale;
+  }
+
+  /**
+   * What the controller should do while metrics are stale, from the configured action
+   */
+  respondTo(staleMetrics: StaleMetric[]): StaleTelemetryResponse {
+    const description = staleMetrics.map(stale => `${stale.metric} (${stale.ageSeconds}s)`).join(", ");
+    if (this.config.action === "safeMode") {
+      return {
+        status: "amber",
+        message: `Stale telemetry: ${description}. Holding safe mode`,
+        safeSettings: { workMode: this.config.safeWorkMode, chargeRate: this.config.safeChargeRate }
+      };
+    }
+
+    // Acting on frozen values could do more harm than leaving the inverter as it is
+    return {
+      status: "red",
+      message: `Stale telemetry: ${description}. Control paused`,
+      safeSettings: null
+    };
+  }
+
+  private getMaxAgeSeconds(metric: TelemetryField): number {
+    return this.config.metricMaxAgeSeconds[metric] ?? this.config.maxAgeSeconds;
+  }
+}
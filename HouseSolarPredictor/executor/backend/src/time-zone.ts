@@ -0,0 +1,2 @@
+// Schedules, days, tariff bands and reports are all in UK local time
+export const TIME_ZONE = "Europe/London";
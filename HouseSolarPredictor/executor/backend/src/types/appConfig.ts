@@ -1,13 +1,39 @@
 import { MqttConfig } from "./mqttConfig.ts";
 import { SmtpConfig } from "./smtpConfig.ts";
+import { ProtectionsConfig } from "./protectionsConfig.ts";
+import { MeteringConfig } from "./meteringConfig.ts";
+import { TelemetryWatchdogConfig } from "./telemetryWatchdogConfig.ts";
+import { ChargeRateControlConfig } from "./chargeRateControlConfig.ts";
+import { InverterDriverConfig } from "./inverterDriverConfig.ts";
+import { StatePublishingConfig } from "./statePublishingConfig.ts";
+import { TelemetryRecordingConfig } from "./telemetryRecordingConfig.ts";
+import { TariffConfig } from "./tariffConfig.ts";
+import { TariffImportConfig } from "./tariffImportConfig.ts";
+import { ScheduleValidationConfig } from "./scheduleValidationConfig.ts";
+import { ForecastActualsConfig } from "./forecastActualsConfig.ts";
+import { ReplanningConfig } from "./replanningConfig.ts";
 
 export interface AppConfig {
   mqtt: MqttConfig;
+  inverter: InverterDriverConfig;
   smtp: SmtpConfig;
   schedulePath: string;
   dbPath: string;
   retryAttempts: number;
   retryDelayMinutes: number;
+  commandTimeoutSeconds: number; // how long to wait for the inverter to confirm a command
   webPort: number;
   logLevel: "DEBUG" | "INFO" | "WARN" | "ERROR";
+  shadowMode: boolean; // compute and record control actions without sending them
+  metering: MeteringConfig;
+  protections: ProtectionsConfig;
+  telemetryWatchdog: TelemetryWatchdogConfig;
+  chargeRateControl: ChargeRateControlConfig;
+  statePublishing: StatePublishingConfig;
+  telemetryRecording: TelemetryRecordingConfig;
+  tariff: TariffConfig;
+  tariffImport: TariffImportConfig;
+  scheduleValidation: ScheduleValidationConfig;
+  forecastActuals: ForecastActualsConfig;
+  replanning: ReplanningConfig;
 }
@@ -0,0 +1,8 @@
+export interface ChargeRateControlConfig {
+  enabled: boolean;
+  maxChargePowerKw: number; // battery charge power at a 100% charge rate
+  gain: number; // charge rate % added per % of state of charge behind plan
+  deadbandPercent: number; // state of charge error (%) ignored either side of the plan
+  minChangePercent: number; // smallest charge rate change worth publishing
+  minPublishIntervalSeconds: number; // minimum time between published charge rate changes
+}
@@ -1,5 +1,5 @@
 import {BackendTimeSegment} from "../../time/backend-time-segment.ts";
-import {ControlAction, ControllerStatus, InverterMode} from "@shared";
+import {ControlAction, ControllerStatus, InverterMode, ManualOverride, ProtectionDecision} from "@shared";
 
 export interface ControllerState {
   status: ControllerStatus;
@@ -10,5 +10,15 @@ export interface ControllerState {
   actualWorkMode?: InverterMode;
   actualChargeRate?: number;
   pendingAction?: ControlAction;
+  manualOverride?: ManualOverride;
+  protectionDecisions?: ProtectionDecision[];
+  shadowMode?: boolean;
 }
 
+
+export interface NextScheduleInfo {
+  startTime: Temporal.Instant;
+  mode: string;
+  expectedStartChargeKwh: number;
+  timeUntil: string;
+}
@@ -0,0 +1,6 @@
+export interface ForecastActualsConfig {
+  enabled: boolean; // write the actuals file for the planner
+  outputPath: string; // .json or .csv, which sets the format
+  days: number; // days the file covers, up to and including today
+  writeIntervalMinutes: number;
+}
@@ -0,0 +1,37 @@
+import { InverterMode } from "@shared";
+import { TelemetryField } from "../services/drivers/inverter-driver.ts";
+
+export interface SolarAssistantDriverConfig {
+  inverters: string[]; // substituted for {inverter} in topics, e.g. ["inverter_1", "inverter_2"]
+  batteries: string[]; // substituted for {battery} in topics
+  topics: Record<TelemetryField, string>; // state topics, one per device when they contain {inverter} or {battery}
+  responseTopic: string;
+  workModeTopic: string; // published to every inverter
+  chargeRateTopic: string; // published to every inverter
+}
+
+export interface GenericMqttTelemetrySource {
+  topic: string;
+  jsonPath?: string; // dot separated path to the value when the payload is JSON, e.g. "battery.soc"
+}
+
+export interface GenericMqttCommand {
+  topic: string;
+  payloadTemplate: string; // "{{value}}" is replaced with the work mode or charge rate
+}
+
+export interface GenericMqttDriverConfig {
+  telemetry: Record<TelemetryField, GenericMqttTelemetrySource>;
+  workMode: GenericMqttCommand;
+  chargeRate?: GenericMqttCommand; // leave out when the inverter's charge rate can't be set
+  workModeValues?: Partial<Record<InverterMode, string>>; // how the bridge names each work mode
+  minChargeRate?: number;
+  maxChargeRate?: number;
+  responseTopic?: string; // success/failure messages after a command, if the bridge sends any
+}
+
+export interface InverterDriverConfig {
+  driver: "solarAssistant" | "genericMqtt";
+  solarAssistant: SolarAssistantDriverConfig;
+  genericMqtt?: GenericMqttDriverConfig;
+}
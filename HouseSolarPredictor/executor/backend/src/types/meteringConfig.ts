@@ -0,0 +1,3 @@
+export interface MeteringConfig {
+  exportSign: number; // -1 when negative gridPower means export, 1 when positive does
+}
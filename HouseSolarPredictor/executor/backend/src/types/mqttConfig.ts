@@ -1,7 +1,25 @@
+export type MqttProtocol = "mqtt" | "mqtts" | "ws" | "wss";
+
+export interface MqttTlsConfig {
+  caPath?: string; // CA that signed the broker's certificate, if it isn't publicly trusted
+  certPath?: string; // client certificate, when the broker requires one
+  keyPath?: string; // client certificate's private key
+  rejectUnauthorized?: boolean; // defaults to true; only turn off for testing
+  servername?: string; // name to check the broker's certificate against, if not the host
+}
+
 export interface MqttConfig {
+  protocol?: MqttProtocol; // defaults to "mqtt"
   host: string;
   port: number;
+  path?: string; // websocket path, defaults to "/mqtt"
   username?: string;
   password?: string;
+  passwordFile?: string; // read the password from this file instead
+  passwordEnv?: string; // read the password from this environment variable instead
   clientId: string;
+  tls?: MqttTlsConfig;
+  commandMaxAgeSeconds?: number; // queued inverter commands older than this are dropped, defaults to 300
+  reconnectMinDelaySeconds?: number; // first reconnect delay, doubling each attempt; defaults to 5
+  reconnectMaxDelaySeconds?: number; // longest reconnect delay, defaults to 300
 }
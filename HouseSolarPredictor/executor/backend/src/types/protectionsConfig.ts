@@ -0,0 +1,43 @@
+export interface BatteryProtectionConfig {
+  enabled: boolean;
+  activationPercent: number; // battery % at or below which protection activates
+  deactivationPercent: number; // battery % above which protection releases
+  minChargeRate: number; // charge rate % forced while active
+}
+
+export interface WastedSolarProtectionConfig {
+  enabled: boolean;
+  activationPercent: number; // battery % at or above which protection activates
+  deactivationPercent: number; // battery % below which protection releases
+  startHour: number; // start of solar generation window (Europe/London)
+  endHour: number; // end of solar generation window (Europe/London)
+}
+
+export interface BatteryOverchargeProtectionConfig {
+  enabled: boolean;
+  activationThresholdPercent: number; // % above expected level to activate
+  deactivationThresholdPercent: number; // % above expected level to deactivate
+}
+
+export interface GridExportProtectionConfig {
+  enabled: boolean;
+  exportLimitKw: number; // export above which protection activates
+  releaseKw: number; // export below which protection releases
+  sustainSeconds: number; // how long export must stay past a threshold before the state changes
+}
+
+export interface GridImportProtectionConfig {
+  enabled: boolean;
+  importLimitKw: number; // averaged import above which the charge rate is stepped down
+  headroomKw: number; // margin below the limit needed before the charge rate is stepped back up
+  stepPercent: number; // charge rate % change per step
+  averagingSeconds: number; // rolling average window, also the minimum time between steps
+}
+
+export interface ProtectionsConfig {
+  battery: BatteryProtectionConfig;
+  wastedSolar: WastedSolarProtectionConfig;
+  batteryOvercharge: BatteryOverchargeProtectionConfig;
+  gridExport: GridExportProtectionConfig;
+  gridImport: GridImportProtectionConfig;
+}
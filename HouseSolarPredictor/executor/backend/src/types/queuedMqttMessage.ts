@@ -0,0 +1,7 @@
+export interface QueuedMqttMessage {
+  topic: string;
+  message: string;
+  retain: boolean;
+  durable: boolean; // commands are kept across restarts and expire by age; other messages are neither
+  queuedAt: number; // epoch ms
+}
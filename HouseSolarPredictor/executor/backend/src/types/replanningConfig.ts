@@ -0,0 +1,7 @@
+export interface ReplanningConfig {
+  enabled: boolean; // re-plan the rest of the day when the battery drifts from the plan
+  driftThresholdPercent: number; // battery drift from the planned line, as % of capacity, that triggers a re-plan
+  maxChargePowerKw: number; // battery charge power at a 100% charge rate
+  maxDischargePowerKw: number;
+  reservePercent: number; // state of charge the re-plan won't discharge below
+}
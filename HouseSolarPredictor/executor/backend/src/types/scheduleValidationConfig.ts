@@ -0,0 +1,5 @@
+export interface ScheduleValidationConfig {
+  batteryCapacityKwh: number; // segments planning more than this are rejected; 0 skips the check
+  minPrice: number; // prices outside minPrice to maxPrice are flagged as implausible
+  maxPrice: number;
+}
@@ -0,0 +1,8 @@
+export interface StatePublishingConfig {
+  enabled: boolean;
+  baseTopic: string; // state is published to <baseTopic>/state and commands read from <baseTopic>/<command>/set
+  discoveryPrefix: string; // Home Assistant MQTT discovery prefix
+  deviceName: string; // device name shown in Home Assistant
+  intervalSeconds: number; // how often the state is republished
+  overrideDurationMinutes: number; // length of an override started from the Home Assistant select
+}
@@ -0,0 +1,18 @@
+export interface TariffBand {
+  start: string; // "HH:MM" local time, on the hour or half hour
+  end: string; // "HH:MM" local time, exclusive; before start to run past midnight
+  importPrice: number;
+  exportPrice?: number; // defaults to the flat exportPrice
+}
+
+/**
+ * Prices are per kWh (per day for the standing charge), in the same units as the schedule's gridPrice
+ * and before VAT
+ */
+export interface TariffConfig {
+  standingChargePerDay: number;
+  vatPercent: number; // charged on imports and the standing charge, not on export revenue
+  importPrice: number; // flat import rate, used when neither the schedule nor a band has a price
+  exportPrice: number; // flat export rate, used when neither the schedule nor a band has a price
+  bands: TariffBand[]; // time-of-use rates, used when the schedule has no price
+}
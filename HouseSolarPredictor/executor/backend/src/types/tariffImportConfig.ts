@@ -0,0 +1,7 @@
+export interface TariffImportConfig {
+  enabled: boolean;
+  importDirectory: string; // Agile price files for grid import
+  exportDirectory: string; // Agile Outgoing price files for grid export
+  pollIntervalSeconds: number;
+  priceUnit: "pounds" | "pence"; // unit of gridPrice and the tariff config; Agile files are in pence
+}
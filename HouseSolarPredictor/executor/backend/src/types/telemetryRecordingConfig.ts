@@ -0,0 +1,10 @@
+export interface TelemetryRecordingConfig {
+  enabled: boolean;
+  flushIntervalSeconds: number; // how often buffered readings are written to the database
+  rollupIntervalMinutes: number; // how often completed buckets are rolled up and old data removed
+  maxHoldSeconds: number; // longest a reading is assumed to hold when integrating between readings
+  rawRetentionHours: number;
+  oneMinuteRetentionDays: number;
+  fiveMinuteRetentionDays: number;
+  thirtyMinuteRetentionDays: number;
+}
@@ -0,0 +1,12 @@
+import {InverterMode} from "@shared";
+
+export type StaleTelemetryAction = "hold" | "safeMode";
+
+export interface TelemetryWatchdogConfig {
+  enabled: boolean;
+  maxAgeSeconds: number; // a metric older than this is stale
+  metricMaxAgeSeconds: Record<string, number>; // per-metric overrides of maxAgeSeconds
+  action: StaleTelemetryAction; // "hold" stops sending commands, "safeMode" drives the inverter to the safe settings
+  safeWorkMode: InverterMode;
+  safeChargeRate: number;
+}
@@ -7,6 +7,7 @@ export interface BackendTimeSegment {
     };
     expectedSolarGeneration: number; // kWh
     gridPrice: number; // pence per kWh
+    exportPrice: number; // pence per kWh exported
     expectedConsumption: number; // kWh
     startBatteryChargeKwh: number; // kWh
     endBatteryChargeKwh: number; // kWh
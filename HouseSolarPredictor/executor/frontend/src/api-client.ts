@@ -1,5 +1,5 @@
 import { Temporal } from '@js-temporal/polyfill';
-import {MetricInstance, RawTimeSegment} from "@shared";
+import {AdherenceReport, EnergyReport, ManualOverride, ManualOverrideRequest, MetricInstance, ProtectionEvent, RawTimeSegment, Replan, TariffDayPrices} from "@shared";
 import {FrontEndTimeSegment} from "./types/front-end-time-segment";
 
 export class ApiClient {
@@ -32,6 +32,34 @@ export class ApiClient {
         }
     }
 
+    async setManualOverride(request: ManualOverrideRequest): Promise<ManualOverride> {
+        console.log(`🔄 Setting manual override to ${request.mode}...`, 'info');
+        const response = await fetch('/api/override', {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json'
+            },
+            body: JSON.stringify(request)
+        });
+
+        const result = await response.json();
+        if (!response.ok) {
+            throw new Error(result.error || `Failed to set override (${response.status})`);
+        }
+
+        console.log('✅ Manual override set', 'info');
+        return result.override as ManualOverride;
+    }
+
+    async clearManualOverride(): Promise<void> {
+        console.log('🔄 Clearing manual override...', 'info');
+        const response = await fetch('/api/override', { method: 'DELETE' });
+        if (!response.ok) {
+            throw new Error(`Failed to clear override (${response.status})`);
+        }
+        console.log('✅ Manual override cleared', 'info');
+    }
+
     async loadScheduleData(selectedDate: Temporal.PlainDate): Promise<FrontEndTimeSegment[]> {
         if (!selectedDate) {
             console.log('❌ No date selected for schedule data', 'error');
@@ -51,6 +79,8 @@ export class ApiClient {
         return scheduleData.map(ts => {
             return {
                 ...ts,
+                gridPrice: ts.gridPrice ?? 0,
+                exportPrice: ts.exportPrice ?? 0,
                 time: {
                     segmentStart: Temporal.Instant.from(ts.time.segmentStart),
                     segmentEnd: Temporal.Instant.from(ts.time.segmentEnd)
@@ -59,6 +89,61 @@ export class ApiClient {
         });
     }
 
+    async loadProtectionHistory(selectedDate: Temporal.PlainDate): Promise<ProtectionEvent[]> {
+        const url = `/api/protections/history?date=${selectedDate.toString()}`;
+        console.log(`🔄 Loading protection history from ${url}...`, 'info');
+        const response = await fetch(url);
+        if (!response.ok) {
+            throw new Error(`Failed to load protection history: ${response.statusText} (${response.status})`);
+        }
+
+        return await response.json() as ProtectionEvent[];
+    }
+
+    async loadEnergy(from: Temporal.PlainDate, to: Temporal.PlainDate = from): Promise<EnergyReport> {
+        const url = `/api/energy?from=${from.toString()}&to=${to.toString()}`;
+        console.log(`🔄 Loading energy from ${url}...`, 'info');
+        const response = await fetch(url);
+        if (!response.ok) {
+            throw new Error(`Failed to load energy: ${response.statusText} (${response.status})`);
+        }
+
+        return await response.json() as EnergyReport;
+    }
+
+    async loadAdherence(selectedDate: Temporal.PlainDate): Promise<AdherenceReport> {
+        const url = `/api/adherence?date=${selectedDate.toString()}`;
+        console.log(`🔄 Loading plan adherence from ${url}...`, 'info');
+        const response = await fetch(url);
+        if (!response.ok) {
+            throw new Error(`Failed to load plan adherence: ${response.statusText} (${response.status})`);
+        }
+
+        return await response.json() as AdherenceReport;
+    }
+
+    async loadReplan(): Promise<Replan | null> {
+        const url = '/api/replan';
+        console.log(`🔄 Loading re-plan from ${url}...`, 'info');
+        const response = await fetch(url);
+        if (!response.ok) {
+            throw new Error(`Failed to load re-plan: ${response.statusText} (${response.status})`);
+        }
+
+        return await response.json() as Replan | null;
+    }
+
+    async loadTariffPrices(selectedDate: Temporal.PlainDate): Promise<TariffDayPrices> {
+        const url = `/api/tariff/prices?date=${selectedDate.toString()}`;
+        console.log(`🔄 Loading tariff prices from ${url}...`, 'info');
+        const response = await fetch(url);
+        if (!response.ok) {
+            throw new Error(`Failed to load tariff prices: ${response.statusText} (${response.status})`);
+        }
+
+        return await response.json() as TariffDayPrices;
+    }
+
     async loadMetricsData(selectedDate: Temporal.PlainDate, hours: number = 24): Promise<MetricInstance[]> {
         let url = `/api/metrics?hours=${hours}`;
         const dateStr = selectedDate.toString();
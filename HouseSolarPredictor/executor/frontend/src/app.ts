@@ -6,14 +6,14 @@ import {DataProcessor} from './data-processor';
 import {UIManager} from './ui-manager';
 import {WebSocketManager} from './websocket-manager';
 import {ScheduleManager} from './schedule-manager';
-import {MetricInstance, MetricList, WebSocketMessage} from "@shared";
-import {Schedule} from "./types/front-end-time-segment";
+import {ManualOverrideRequest, MetricInstance, MetricList, WebSocketMessage} from "@shared";
 import {ChartManager} from "./chart-manager";
 export class SolarInverterApp {
     private historicViewMetricData: MetricList = [];
     private historicMetricsViewingDate: Temporal.PlainDate;
 
     private todaysMetrics: MetricList = [];
+    private lastEnergyLoadTime = 0;
 
     private readonly apiClient: ApiClient;
     private readonly dataProcessor: DataProcessor;
@@ -61,7 +61,9 @@ export class SolarInverterApp {
         this.uiManager.setupEventListeners({
             onRetry: () => this.retryOperations(),
             onDateChange: (newDate: Temporal.PlainDate) => this.handleUserSelectedDateChange(newDate),
-            onPageVisible: () => this.handlePageVisible()
+            onPageVisible: () => this.handlePageVisible(),
+            onSetOverride: (request: ManualOverrideRequest) => this.setManualOverride(request),
+            onClearOverride: () => this.clearManualOverride()
         });
     }
 
@@ -102,12 +104,25 @@ export class SolarInverterApp {
         console.log(`📊 Adding real-time data point to chart buffer`, 'info');
         this.todaysMetrics.push(metrics);
         this.renderCharts(false);
+
+        // Keep today's measured energy current, refreshing at most once a minute
+        const viewingToday = this.historicMetricsViewingDate.equals(this.getToday());
+        if (viewingToday && Date.now() - this.lastEnergyLoadTime > 60_000) {
+            this.loadEnergy().catch(error => console.error('Error loading energy:', error));
+            this.loadReplan().catch(error => console.error('Error loading re-plan:', error));
+        }
     }
 
-    private calculateAndDisplayCost(metrics: MetricInstance[], schedule: Schedule): void {
-        const totalCost = this.dataProcessor.calculateCost(metrics, schedule);
-        this.uiManager.updateCostDisplay(totalCost);
-        this.chartManager.updateCostChart(totalCost);
+    private async loadEnergy(): Promise<void> {
+        this.lastEnergyLoadTime = Date.now();
+        const report = await this.apiClient.loadEnergy(this.historicMetricsViewingDate);
+        this.chartManager.setSegmentEnergy(report.segments);
+        this.uiManager.updateCostDisplay(report.bill);
+        this.chartManager.updateCostChart(report.bill);
+    }
+
+    private async loadReplan(): Promise<void> {
+        this.uiManager.updateReplanDisplay(await this.apiClient.loadReplan());
     }
 
     private async retryOperations(): Promise<void> {
@@ -120,6 +135,26 @@ export class SolarInverterApp {
         }
     }
 
+    private async setManualOverride(request: ManualOverrideRequest): Promise<void> {
+        try {
+            await this.apiClient.setManualOverride(request);
+            this.uiManager.showSuccess(`Manual override set to ${request.mode}`);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            this.uiManager.showError(`Manual override failed: ${errorMessage}`);
+        }
+    }
+
+    private async clearManualOverride(): Promise<void> {
+        try {
+            await this.apiClient.clearManualOverride();
+            this.uiManager.showSuccess('Manual override cleared');
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            this.uiManager.showError(`Clearing manual override failed: ${errorMessage}`);
+        }
+    }
+
     // Cleanup method
     destroy(): void {
         console.log('🛑 Shutting down application...', 'info');
@@ -140,6 +175,27 @@ export class SolarInverterApp {
 
         this.scheduleManager.setSchedule([...historicSchedule, ...currentSchedule]);
         this.renderCharts(true);
+        this.loadPanels(historicMetricsViewingDate);
+    }
+
+    /**
+     * Loads the panels that sit alongside the charts. Each loads on its own, so a slow or failing
+     * endpoint leaves only its own panel empty rather than holding up the rest of the page.
+     */
+    private loadPanels(historicMetricsViewingDate: Temporal.PlainDate): void {
+        this.loadEnergy()
+            .then(() => this.renderCharts(true))
+            .catch(error => console.error('Error loading energy:', error));
+        this.apiClient.loadTariffPrices(historicMetricsViewingDate)
+            .then(tariffPrices => this.chartManager.updateTariffPrices(tariffPrices))
+            .catch(error => console.error('Error loading tariff prices:', error));
+        this.apiClient.loadAdherence(historicMetricsViewingDate)
+            .then(adherence => this.uiManager.updateAdherenceDisplay(adherence))
+            .catch(error => console.error('Error loading adherence:', error));
+        this.loadReplan().catch(error => console.error('Error loading re-plan:', error));
+        this.apiClient.loadProtectionHistory(historicMetricsViewingDate)
+            .then(protectionEvents => this.chartManager.updateProtectionTimeline(protectionEvents, historicMetricsViewingDate))
+            .catch(error => console.error('Error loading protection history:', error));
     }
 
     private renderCharts(force: boolean) {
@@ -178,9 +234,6 @@ export class SolarInverterApp {
         console.time('Current chart update')
         this.chartManager.updateCurrentCharts(limitedCurrentMetrics, currentSchedule);
         console.timeEnd('Current chart update');
-        console.time('Cost Calculation Time');
-        this.calculateAndDisplayCost(currentMetrics, historicSchedule);
-        console.timeEnd('Cost Calculation Time');
         console.log('✅ Chart updates completed', 'info');
         console.timeEnd('Chart Rendering Time');
     }
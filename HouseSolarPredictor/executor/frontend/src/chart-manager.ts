@@ -1,5 +1,6 @@
-import { ChartRegistry, CostChart } from './charts';
-import { MetricInstance } from '@shared';
+import { ChartRegistry, CostChart, EstimatedCostChart, GridPricingChart, ProtectionTimelineChart } from './charts';
+import { Bill, MetricInstance, ProtectionEvent, SegmentEnergy, TariffDayPrices } from '@shared';
+import { Temporal } from '@js-temporal/polyfill';
 import {FrontEndTimeSegment, Schedule} from './types/front-end-time-segment';
 import {DataProcessor} from "./data-processor";
 
@@ -8,6 +9,7 @@ export class ChartManager {
     private previousScheduleData: Schedule | null = null;
     private scheduleRowCache = new Map<string, HTMLTableRowElement>();
     private previousApplianceCostData: string | null = null;
+    private segmentEnergy = new Map<number, SegmentEnergy>(); // keyed by segment start
 
     constructor(private dataProcessor: DataProcessor) {
         this.chartRegistry = new ChartRegistry();
@@ -72,10 +74,35 @@ export class ChartManager {
         });
     }
 
-    updateCostChart(totalCost: number): void {
+    /**
+     * Sets the measured energy shown against each segment's plan in the schedule table and cost chart
+     */
+    setSegmentEnergy(segments: SegmentEnergy[]): void {
+        this.segmentEnergy = new Map(segments.map(segment => [segment.segmentStart, segment]));
+        const estimatedCostChart = this.chartRegistry.getChart('estimated-cost') as EstimatedCostChart;
+        if (estimatedCostChart) {
+            estimatedCostChart.setSegmentEnergy(segments);
+        }
+    }
+
+    updateCostChart(bill: Bill): void {
         const costChart = this.chartRegistry.getChart('cost') as CostChart;
         if (costChart) {
-            costChart.updateCost(totalCost);
+            costChart.updateCost(bill);
+        }
+    }
+
+    updateTariffPrices(prices: TariffDayPrices): void {
+        const pricingChart = this.chartRegistry.getChart('grid-pricing') as GridPricingChart;
+        if (pricingChart) {
+            pricingChart.setTariffPrices(prices);
+        }
+    }
+
+    updateProtectionTimeline(events: ProtectionEvent[], date: Temporal.PlainDate): void {
+        const protectionChart = this.chartRegistry.getChart('protection-timeline') as ProtectionTimelineChart;
+        if (protectionChart) {
+            protectionChart.updateEvents(events, date);
         }
     }
 
@@ -265,11 +292,11 @@ export class ChartManager {
             <td class="time-cell">${timePeriod}</td>
             <td class="mode-cell ${modeClass}">${modeDisplay}</td>
             <td class="number-cell">£${segment.gridPrice.toFixed(3)}</td>
-            <td class="number-cell">${this.formatComparisonValue(segment.expectedSolarGeneration, actualValues.avgSolar, 'solar')}</td>
-            <td class="number-cell">${this.formatComparisonValue(segment.expectedConsumption, actualValues.avgLoad, 'load')}</td>
+            <td class="number-cell">${this.formatComparisonValue(segment.expectedSolarGeneration, actualValues.solarKwh, 'solar')}</td>
+            <td class="number-cell">${this.formatComparisonValue(segment.expectedConsumption, actualValues.loadKwh, 'load')}</td>
             <td class="number-cell">${this.formatComparisonValue(segment.startBatteryChargeKwh, actualValues.startBattery, 'start-battery')}</td>
             <td class="number-cell">${this.formatComparisonValue(segment.endBatteryChargeKwh, actualValues.endBattery, 'end-battery')}</td>
-            <td class="number-cell">${this.formatComparisonValue(segment.actualGridUsage, actualValues.avgGridUsage, 'grid')}</td>
+            <td class="number-cell">${this.formatComparisonValue(segment.actualGridUsage, actualValues.gridImportKwh, 'grid')}</td>
             <td class="number-cell">${segment.wastedSolarGeneration.toFixed(2)}</td>
             <td class="cost-cell">${this.formatComparisonValue(segment.cost, actualValues.actualCost, 'cost')}</td>
         `;
@@ -295,11 +322,11 @@ export class ChartManager {
 
         // Update only the cells that might change (skip time and mode which are structural)
         if (cells[2]) cells[2].textContent = `£${segment.gridPrice.toFixed(3)}`;
-        if (cells[3]) cells[3].innerHTML = this.formatComparisonValue(segment.expectedSolarGeneration, actualValues.avgSolar, 'solar');
-        if (cells[4]) cells[4].innerHTML = this.formatComparisonValue(segment.expectedConsumption, actualValues.avgLoad, 'load');
+        if (cells[3]) cells[3].innerHTML = this.formatComparisonValue(segment.expectedSolarGeneration, actualValues.solarKwh, 'solar');
+        if (cells[4]) cells[4].innerHTML = this.formatComparisonValue(segment.expectedConsumption, actualValues.loadKwh, 'load');
         if (cells[5]) cells[5].innerHTML = this.formatComparisonValue(segment.startBatteryChargeKwh, actualValues.startBattery, 'start-battery');
         if (cells[6]) cells[6].innerHTML = this.formatComparisonValue(segment.endBatteryChargeKwh, actualValues.endBattery, 'end-battery');
-        if (cells[7]) cells[7].innerHTML = this.formatComparisonValue(segment.actualGridUsage, actualValues.avgGridUsage, 'grid');
+        if (cells[7]) cells[7].innerHTML = this.formatComparisonValue(segment.actualGridUsage, actualValues.gridImportKwh, 'grid');
         if (cells[8]) cells[8].textContent = segment.wastedSolarGeneration.toFixed(2);
         if (cells[9]) cells[9].innerHTML = this.formatComparisonValue(segment.cost, actualValues.actualCost, 'cost');
     }
@@ -353,36 +380,23 @@ export class ChartManager {
     }
 
     private getActualValuesForSegment(segment: any, metrics: MetricInstance[]): {
-        avgSolar: number | null;
-        avgGridUsage: number | null;
-        avgLoad: number | null;
+        solarKwh: number | null;
+        gridImportKwh: number | null;
+        loadKwh: number | null;
         startBattery: number | null;
         endBattery: number | null;
         actualCost: number | null;
     } {
         const startMs = segment.time.segmentStart.epochMilliseconds;
         const endMs = segment.time.segmentEnd.epochMilliseconds;
-        
+
+        // Energy is integrated on the backend so every view uses the same numbers
+        const energy = this.segmentEnergy.get(startMs);
+
         // Use optimized binary search to find metrics within the segment time range
         const timeRange = this.dataProcessor.findMetricsInTimeRange(metrics, startMs, endMs);
         const segmentMetrics = timeRange.metrics;
 
-        if (segmentMetrics.length === 0) {
-            return {
-                avgSolar: null,
-                avgGridUsage: null,
-                avgLoad: null,
-                startBattery: null,
-                endBattery: null,
-                actualCost: null
-            };
-        }
-
-        // Calculate averages for solar, grid usage, and load
-        const avgSolar = segmentMetrics.reduce((sum, m) => sum + m.solarPower, 0) / segmentMetrics.length;
-        const avgGridUsage = segmentMetrics.reduce((sum, m) => sum + Math.abs(m.gridPower), 0) / segmentMetrics.length;
-        const avgLoad = segmentMetrics.reduce((sum, m) => sum + m.loadPower, 0) / segmentMetrics.length;
-
         // Find closest metrics to start and end times for battery values
         const startBatteryMetric = this.findClosestMetric(segmentMetrics, startMs);
         const endBatteryMetric = this.findClosestMetric(segmentMetrics, endMs);
@@ -393,17 +407,13 @@ export class ChartManager {
         const endBattery = endBatteryMetric ?
             (endBatteryMetric.batteryChargePercent / 100) * endBatteryMetric.batteryCapacity : null;
 
-        // Calculate actual cost based on actual grid usage and grid price
-        const avgGridUsageKwh = avgGridUsage / 1000; // Convert W to kWh for 30min segments
-        const actualCost = avgGridUsageKwh * segment.gridPrice;
-
         return {
-            avgSolar: avgSolar / 1000, // Convert W to kW, then assume 30min segments for kWh
-            avgGridUsage: avgGridUsageKwh,
-            avgLoad: avgLoad / 1000, // Convert W to kW, then assume 30min segments for kWh
+            solarKwh: energy ? energy.solarKwh : null,
+            gridImportKwh: energy ? energy.importKwh : null,
+            loadKwh: energy ? energy.loadKwh : null,
             startBattery,
             endBattery,
-            actualCost
+            actualCost: energy ? energy.cost.netCost : null
         };
     }
 
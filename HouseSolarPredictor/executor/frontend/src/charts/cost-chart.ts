@@ -1,6 +1,6 @@
 import { Chart, ChartType, ChartOptions } from 'chart.js';
 import { BaseChartProcessor } from './chart-interface';
-import { MetricInstance } from '@shared';
+import { Bill, MetricInstance } from '@shared';
 import { Schedule } from '../types/front-end-time-segment';
 
 export class CostChart extends BaseChartProcessor {
@@ -16,10 +16,10 @@ export class CostChart extends BaseChartProcessor {
             data: {
                 labels: [],
                 datasets: [{
-                    label: 'Grid Usage Cost (£)',
+                    label: 'Amount (£)',
                     data: [],
-                    backgroundColor: 'rgba(255, 159, 64, 0.6)',
-                    borderColor: 'rgba(255, 159, 64, 1)',
+                    backgroundColor: [],
+                    borderColor: [],
                     borderWidth: 1,
                 }]
             },
@@ -28,7 +28,7 @@ export class CostChart extends BaseChartProcessor {
                 maintainAspectRatio: false,
                 scales: {
                     y: {
-                        beginAtZero: true,
+                        beginAtZero: true, // export revenue is a credit, so goes below zero
                         title: {
                             display: true,
                             text: 'Cost (£)'
@@ -56,11 +56,16 @@ export class CostChart extends BaseChartProcessor {
         // This chart is updated directly via updateCost method
     }
     
-    updateCost(totalCost: number): void {
+    updateCost(bill: Bill): void {
         if (!this.chart) return;
 
-        this.chart.data.labels = ['Today'];
-        this.chart.data.datasets[0]!.data = [{ x: Date.now(), y: totalCost }];
+        // One bar per line item, then the total
+        const amounts = [...bill.lineItems.map(item => item.amount), bill.total];
+        const dataset = this.chart.data.datasets[0]!;
+        this.chart.data.labels = [...bill.lineItems.map(item => item.description), 'Total'];
+        dataset.data = amounts;
+        dataset.backgroundColor = amounts.map(amount => amount < 0 ? 'rgba(75, 192, 192, 0.6)' : 'rgba(255, 159, 64, 0.6)');
+        dataset.borderColor = amounts.map(amount => amount < 0 ? 'rgba(75, 192, 192, 1)' : 'rgba(255, 159, 64, 1)');
 
         this.chart.update('none');
     }
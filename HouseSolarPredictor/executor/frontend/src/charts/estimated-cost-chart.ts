@@ -1,10 +1,9 @@
 import { Chart, ChartType, ChartOptions } from 'chart.js';
 import { BaseChartProcessor } from './chart-interface';
 import { ChartDataPoint } from '../types';
-import { MetricInstance } from '@shared';
+import { MetricInstance, SegmentEnergy } from '@shared';
 import { Schedule, FrontEndTimeSegment } from '../types/front-end-time-segment';
 import { createModeAnnotations, createModeLegend } from './mode-overlay-utils';
-import { DataProcessor } from '../data-processor';
 
 interface CostCalculator {
     name: string;
@@ -15,7 +14,7 @@ interface CostCalculator {
 export class EstimatedCostChart extends BaseChartProcessor {
     readonly chartId = 'estimated-cost';
     readonly canvasId = 'estimated-cost-chart';
-    private dataProcessor = new DataProcessor();
+    private segmentEnergy: SegmentEnergy[] = [];
     
     private costCalculators: CostCalculator[] = [
         {
@@ -128,9 +127,16 @@ export class EstimatedCostChart extends BaseChartProcessor {
         createModeLegend('estimated-cost-container');
     }
     
-    processData(metrics: MetricInstance[], schedule: Schedule): void {
+    /**
+     * Sets the measured energy and its cost per segment, as integrated and priced by the backend
+     */
+    setSegmentEnergy(segments: SegmentEnergy[]): void {
+        this.segmentEnergy = segments;
+    }
+
+    processData(_metrics: MetricInstance[], schedule: Schedule): void {
         this.processedData = {
-            actualCostData: this.processActualCostData(metrics, schedule),
+            actualCostData: this.processActualCostData(),
             estimatedCostData: this.processEstimatedCostData(schedule),
             annotations: createModeAnnotations(schedule)
         };
@@ -155,52 +161,26 @@ export class EstimatedCostChart extends BaseChartProcessor {
         }
     }
     
-    private processActualCostData(metrics: MetricInstance[], scheduleData: Schedule): ChartDataPoint[] {
-        if (!Array.isArray(scheduleData) || !Array.isArray(metrics)) return [];
-
+    private processActualCostData(): ChartDataPoint[] {
         const costData: ChartDataPoint[] = [];
         const currentTime = Date.now();
 
-        scheduleData.forEach(segment => {
-            // Use efficient binary search to find metrics within this segment's time range
-            const segmentStartTime = segment.time.segmentStart.epochMilliseconds;
-            const segmentEndTime = segment.time.segmentEnd.epochMilliseconds;
-            
-            // Skip future segments - only process segments that have started
-            if (segmentStartTime > currentTime) {
+        this.segmentEnergy.forEach(energy => {
+            // Skip segments without readings
+            if (energy.coveredSeconds === 0) {
                 return;
             }
-            
-            const { metrics: segmentMetrics } = this.dataProcessor.findMetricsInTimeRange(
-                metrics,
-                segmentStartTime,
-                segmentEndTime
-            );
-
-            // Only add data points if we have metrics for this segment
-            if (segmentMetrics.length > 0) {
-                // Calculate average grid power (watts) for this segment
-                const avgGridPowerWatts = segmentMetrics.reduce((sum, metric) => sum + metric.gridPower, 0) / segmentMetrics.length;
-                
-                // Convert to kWh: segment duration in hours * average power in kW
-                const segmentDurationHours = (segmentEndTime - segmentStartTime) / (1000 * 60 * 60);
-                const energyKwh = (avgGridPowerWatts / 1000) * segmentDurationHours;
-                
-                // Calculate cost: energy * price per kWh
-                const segmentCost = energyKwh * segment.gridPrice;
 
-                costData.push({
-                    x: segmentStartTime,
-                    y: segmentCost
-                });
-                
-                // For current segment, only go up to current time, otherwise use segment end
-                const endTime = segmentEndTime > currentTime ? currentTime : segmentEndTime;
-                costData.push({
-                    x: endTime,
-                    y: segmentCost
-                });
-            }
+            costData.push({
+                x: energy.segmentStart,
+                y: energy.cost.netCost
+            });
+
+            // For current segment, only go up to current time, otherwise use segment end
+            costData.push({
+                x: Math.min(energy.segmentEnd, currentTime),
+                y: energy.cost.netCost
+            });
         });
 
         return costData;
@@ -1,13 +1,14 @@
 import { Chart, ChartType, ChartOptions } from 'chart.js';
 import { BaseChartProcessor } from './chart-interface';
 import { ChartDataPoint } from '../types';
-import { MetricInstance } from '@shared';
+import { MetricInstance, TariffDayPrices } from '@shared';
 import { Schedule } from '../types/front-end-time-segment';
 import { createModeAnnotations, createModeLegend } from './mode-overlay-utils';
 
 export class GridPricingChart extends BaseChartProcessor {
     readonly chartId = 'grid-pricing';
     readonly canvasId = 'grid-pricing-chart';
+    private tariffPrices: TariffDayPrices | null = null;
     
     initialize(): void {
         const canvas = this.getCanvas();
@@ -22,6 +23,20 @@ export class GridPricingChart extends BaseChartProcessor {
                     borderColor: 'rgb(220, 53, 69)',
                     backgroundColor: 'rgba(220, 53, 69, 0.2)',
                     stepped: true
+                }, {
+                    label: 'Import Price (£/kWh)',
+                    data: [] as ChartDataPoint[],
+                    borderColor: 'rgb(255, 159, 64)',
+                    borderDash: [5, 5],
+                    pointRadius: 0,
+                    stepped: true
+                }, {
+                    label: 'Export Price (£/kWh)',
+                    data: [] as ChartDataPoint[],
+                    borderColor: 'rgb(75, 192, 192)',
+                    borderDash: [5, 5],
+                    pointRadius: 0,
+                    stepped: true
                 }]
             },
             options: {
@@ -63,11 +78,25 @@ export class GridPricingChart extends BaseChartProcessor {
             annotations: createModeAnnotations(schedule)
         };
     }
+
+    /**
+     * Sets the day's half-hour prices from the tariff, shown alongside the schedule's prices
+     * and on days without a schedule
+     */
+    setTariffPrices(prices: TariffDayPrices): void {
+        this.tariffPrices = prices;
+        if (!this.processedData) {
+            this.processedData = { pricingData: [], annotations: {} };
+        }
+        this.updateChart();
+    }
     
     protected applyDataToChart(): void {
         if (!this.chart || !this.processedData) return;
         
         this.chart.data.datasets[0]!.data = this.processedData.pricingData;
+        this.chart.data.datasets[1]!.data = this.processTariffPriceData('importPrice');
+        this.chart.data.datasets[2]!.data = this.processTariffPriceData('exportPrice');
         
         if (this.chart.options.plugins) {
             (this.chart.options.plugins as any).annotation = {
@@ -93,5 +122,17 @@ export class GridPricingChart extends BaseChartProcessor {
 
         return data.sort((a, b) => (a.x as number) - (b.x as number));
     }
+
+    private processTariffPriceData(price: 'importPrice' | 'exportPrice'): ChartDataPoint[] {
+        if (!this.tariffPrices) return [];
+
+        const slots = this.tariffPrices.slots;
+        const data: ChartDataPoint[] = slots.map(slot => ({ x: slot.slotStart, y: slot[price] }));
+        const last = slots[slots.length - 1];
+        if (last) {
+            data.push({ x: last.slotEnd, y: last[price] });
+        }
+        return data;
+    }
     
 }
\ No newline at end of file
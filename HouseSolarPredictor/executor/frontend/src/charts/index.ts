@@ -26,6 +26,7 @@ import { EstimatedCostChart } from './estimated-cost-chart';
 import { RealtimeMetricsChart } from './realtime-metrics-chart';
 import { BatteryChargeChart } from './battery-charge-chart';
 import { CostChart } from './cost-chart';
+import { ProtectionTimelineChart } from './protection-timeline-chart';
 
 // Register Chart.js components
 Chart.register(
@@ -54,6 +55,7 @@ export * from './estimated-cost-chart';
 export * from './realtime-metrics-chart';
 export * from './battery-charge-chart';
 export * from './cost-chart';
+export * from './protection-timeline-chart';
 export * from './mode-overlay-utils';
 
 export class ChartRegistry {
@@ -73,7 +75,8 @@ export class ChartRegistry {
             EstimatedCostChart,
             RealtimeMetricsChart,
             BatteryChargeChart,
-            CostChart
+            CostChart,
+            ProtectionTimelineChart
         ];
         
         chartClasses.forEach(ChartClass => {
@@ -3,12 +3,6 @@ import {MetricInstance, MetricList} from "@shared";
 import {Schedule} from "./types/front-end-time-segment";
 
 export class DataProcessor {
-    private lastCostCalculation: {
-        totalCost: number;
-        lastProcessedIndex: number;
-        lastMetricTimestamp: number;
-    } | null = null;
-    
     constructor() {
         // No dependencies needed for data processing
     }
@@ -125,116 +119,6 @@ export class DataProcessor {
         return Temporal.Instant.compare(target, start) >= 0 && Temporal.Instant.compare(target, end) < 0;
     }
 
-    calculateCost(metrics: MetricInstance[], schedule: Schedule): number {
-        if (!Array.isArray(metrics) || metrics.length === 0) return 0;
-        if (!Array.isArray(schedule) || schedule.length === 0) return 0;
-        
-        // Check if we can use incremental calculation
-        if (this.lastCostCalculation && metrics.length > 0) {
-            const lastMetric = metrics[metrics.length - 1];
-            if (lastMetric && lastMetric.timestamp === this.lastCostCalculation.lastMetricTimestamp) {
-                // No new metrics, return cached result
-                return this.lastCostCalculation.totalCost;
-            }
-            
-            // Find where to start incremental calculation
-            const startIndex = this.findIncrementalStartIndex(metrics);
-            if (startIndex !== -1) {
-                return this.calculateIncrementalCost(metrics, schedule, startIndex);
-            }
-        }
-        
-        // Full calculation for first time or when incremental fails
-        return this.calculateFullCost(metrics, schedule);
-    }
-    
-    private findIncrementalStartIndex(metrics: MetricInstance[]): number {
-        if (!this.lastCostCalculation) return -1;
-        
-        // Find the index where we left off
-        for (let i = this.lastCostCalculation.lastProcessedIndex; i < metrics.length; i++) {
-            const metric = metrics[i];
-            if (metric && metric.timestamp > this.lastCostCalculation.lastMetricTimestamp) {
-                return Math.max(0, i - 1); // Start from previous metric to ensure continuity
-            }
-        }
-        
-        return -1;
-    }
-    
-    private calculateIncrementalCost(metrics: MetricInstance[], schedule: Schedule, startIndex: number): number {
-        let totalCost = this.lastCostCalculation!.totalCost;
-        
-        for (let i = startIndex; i < metrics.length - 1; i++) {
-            const current = metrics[i];
-            const next = metrics[i + 1];
-            if (!current || !next) continue;
-            
-            // Skip if we already calculated this pair
-            if (current.timestamp <= this.lastCostCalculation!.lastMetricTimestamp) {
-                continue;
-            }
-            
-            // Use binary search to find the schedule segment
-            const segment = this.findScheduleSegmentByTimestamp(schedule, current.timestamp);
-            
-            if (!segment) {
-                console.warn(`No schedule segment found for metric at ${current.timestamp}`);
-                continue;
-            }
-            
-            const timeDiff = next.timestamp - current.timestamp;
-            const cost = (timeDiff / (1000 * 60 * 60)) * segment.gridPrice;
-            totalCost += cost;
-        }
-        
-        // Update cache
-        const lastMetric = metrics[metrics.length - 1];
-        if (lastMetric) {
-            this.lastCostCalculation = {
-                totalCost,
-                lastProcessedIndex: metrics.length - 1,
-                lastMetricTimestamp: lastMetric.timestamp
-            };
-        }
-        
-        return totalCost;
-    }
-    
-    private calculateFullCost(metrics: MetricInstance[], schedule: Schedule): number {
-        let totalCost = 0;
-        
-        for (let i = 0; i < metrics.length - 1; i++) {
-            const current = metrics[i];
-            const next = metrics[i + 1];
-            if (!current || !next) continue;
-            
-            // Use binary search to find the schedule segment
-            const segment = this.findScheduleSegmentByTimestamp(schedule, current.timestamp);
-            
-            if (!segment) {
-                console.warn(`No schedule segment found for metric at ${current.timestamp}`);
-                continue;
-            }
-            
-            const timeDiff = next.timestamp - current.timestamp;
-            const cost = (timeDiff / (1000 * 60 * 60)) * segment.gridPrice;
-            totalCost += cost;
-        }
-        
-        // Cache the result
-        const lastMetric = metrics[metrics.length - 1];
-        if (lastMetric) {
-            this.lastCostCalculation = {
-                totalCost,
-                lastProcessedIndex: metrics.length - 1,
-                lastMetricTimestamp: lastMetric.timestamp
-            };
-        }
-        
-        return totalCost;
-    }
-
     formatModeName(mode: string): string {
         switch (mode) {
             case 'ChargeSolarOnly':
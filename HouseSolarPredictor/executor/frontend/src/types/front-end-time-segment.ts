@@ -8,6 +8,7 @@ export interface FrontEndTimeSegment {
     };
     expectedSolarGeneration: number; // kWh
     gridPrice: number; // pence per kWh
+    exportPrice: number; // pence per kWh exported
     expectedConsumption: number; // kWh
     startBatteryChargeKwh: number; // kWh
     endBatteryChargeKwh: number; // kWh
@@ -9,6 +9,7 @@ import type {
 } from 'chart.js';
 import {Temporal} from "@js-temporal/polyfill";
 import PlainDate = Temporal.PlainDate;
+import {ManualOverrideRequest} from "@shared";
 
 export type LogLevel = 'info' | 'warn' | 'error' | 'debug';
 
@@ -16,6 +17,8 @@ export interface UICallbacks {
     onRetry: () => void;
     onDateChange: (newDate: PlainDate) => void;
     onPageVisible: () => void;
+    onSetOverride: (request: ManualOverrideRequest) => void;
+    onClearOverride: () => void;
 }
 
 export type ConnectionStatus = 'connected' | 'connecting' | 'disconnected' | 'error';
@@ -1,4 +1,4 @@
-import {MetricInstance, SerializedControllerState} from "@shared";
+import {AdherenceReport, AdherenceSummary, Bill, DeviceMetrics, ManualOverride, ManualOverrideRequest, MetricInstance, OutputsMode, ProtectionDecision, Replan, SerializedControllerState} from "@shared";
 import {UICallbacks} from "./types";
 import { Temporal } from '@js-temporal/polyfill';
 
@@ -68,6 +68,10 @@ export class UIManager {
             }
         }
 
+        this.updateManualOverride(state.manualOverride);
+        this.updateProtectionDecisions(state.protectionDecisions ?? []);
+        this.updateShadowModeBanner(state.shadowMode ?? false);
+
         // Show/hide retry button
         const retrySection = document.getElementById('retry-section');
         if (retrySection) {
@@ -75,6 +79,70 @@ export class UIManager {
         }
     }
 
+    private updateManualOverride(override: ManualOverride | undefined): void {
+        const overrideStatus = document.getElementById('override-status');
+        const clearButton = document.getElementById('override-clear-button') as HTMLButtonElement | null;
+        if (!overrideStatus) return;
+
+        if (clearButton) {
+            clearButton.disabled = !override;
+        }
+
+        if (!override) {
+            overrideStatus.textContent = 'No override active';
+            overrideStatus.classList.remove('active');
+            return;
+        }
+
+        const start = Temporal.Instant.fromEpochMilliseconds(override.startTime).toZonedDateTimeISO('Europe/London');
+        const end = Temporal.Instant.fromEpochMilliseconds(override.endTime).toZonedDateTimeISO('Europe/London');
+        const rate = override.chargeRate !== undefined ? ` @ ${override.chargeRate}%` : '';
+        const window = `${start.toPlainTime().toString().slice(0, 5)} - ${end.toPlainTime().toString().slice(0, 5)}`;
+        overrideStatus.textContent = `${override.mode}${rate} (${window}) - ${override.reason}`;
+        overrideStatus.classList.add('active');
+    }
+
+    private updateShadowModeBanner(shadowMode: boolean): void {
+        const banner = document.getElementById('shadow-mode-banner');
+        if (banner) {
+            banner.style.display = shadowMode ? 'flex' : 'none';
+        }
+    }
+
+    private updateProtectionDecisions(decisions: ProtectionDecision[]): void {
+        const list = document.getElementById('protection-decision-list');
+        if (!list) return;
+
+        list.innerHTML = '';
+        for (const decision of decisions) {
+            const item = document.createElement('li');
+            item.className = decision.outcome;
+            const reason = decision.reason ? ` - ${decision.reason}` : '';
+            item.textContent = `${decision.name} (${decision.category}): ${decision.outcome}${reason}`;
+            list.appendChild(item);
+        }
+    }
+
+    private readOverrideForm(): ManualOverrideRequest | null {
+        const modeInput = document.getElementById('override-mode') as HTMLSelectElement | null;
+        const durationInput = document.getElementById('override-duration') as HTMLInputElement | null;
+        const chargeRateInput = document.getElementById('override-charge-rate') as HTMLInputElement | null;
+        const reasonInput = document.getElementById('override-reason') as HTMLInputElement | null;
+        if (!modeInput || !durationInput || !chargeRateInput || !reasonInput) return null;
+
+        const request: ManualOverrideRequest = {
+            mode: modeInput.value as OutputsMode,
+            durationMinutes: parseInt(durationInput.value),
+            reason: reasonInput.value
+        };
+
+        if (chargeRateInput.value !== '') {
+            request.chargeRate = parseInt(chargeRateInput.value);
+        }
+
+        return request;
+    }
+
     updateCurrentMetrics(metrics: MetricInstance): void {
         const loadKw = ((metrics.loadPower || 0) / 1000).toFixed(2);
         const gridKw = ((metrics.gridPower || 0) / 1000).toFixed(2);
@@ -91,6 +159,7 @@ export class UIManager {
         this.updateElement('battery-power', `${batteryKw} kW`);
         this.updateElement('battery-current', `${batteryCurrent} A`);
         this.updateElement('remaining-battery', `${remainingBatteryKwh} kWh (${remainingBatteryPercentage}%)`);
+        this.updateDeviceBreakdown(metrics.devices ?? []);
 
         // Log significant power events
         if (Math.abs(metrics.gridPower || 0) > 5000) { // > 5kW
@@ -101,8 +170,136 @@ export class UIManager {
         }
     }
 
-    updateCostDisplay(totalCost: number): void {
-        this.updateElement('total-cost', `£${totalCost.toFixed(2)}`);
+    private updateDeviceBreakdown(devices: DeviceMetrics[]): void {
+        const table = document.getElementById('device-breakdown');
+        const rows = document.getElementById('device-breakdown-rows');
+        if (!table || !rows) return;
+
+        table.style.display = devices.length > 0 ? 'table' : 'none';
+        rows.innerHTML = '';
+        for (const device of devices) {
+            const values = device.values;
+            const power = values.batteryPower ?? values.gridPower;
+            const battery = values.batteryChargePercent !== undefined
+                ? `${values.batteryChargePercent.toFixed(1)}%` + (values.batteryCapacity !== undefined ? ` of ${values.batteryCapacity} kWh` : '')
+                : '';
+            const cells = [
+                device.name,
+                power !== undefined ? `${(power / 1000).toFixed(2)} kW` : '',
+                values.batteryCurrent !== undefined ? `${values.batteryCurrent.toFixed(1)} A` : '',
+                battery,
+                values.workModePriority !== undefined ? `${values.workModePriority} (${values.batteryChargeRate ?? '-'}%)` : ''
+            ];
+
+            const row = document.createElement('tr');
+            for (const cell of cells) {
+                const td = document.createElement('td');
+                td.textContent = cell;
+                row.appendChild(td);
+            }
+            rows.appendChild(row);
+        }
+    }
+
+    updateCostDisplay(bill: Bill): void {
+        const lineItems = document.getElementById('cost-line-items');
+        if (lineItems) {
+            lineItems.innerHTML = '';
+            for (const item of bill.lineItems) {
+                const label = document.createElement('span');
+                label.className = 'cost-label';
+                label.textContent = item.quantity !== undefined && item.rate !== undefined
+                    ? `${item.description} (${item.quantity.toFixed(2)} ${item.unit} @ £${item.rate.toFixed(3)})`
+                    : item.description;
+
+                const amount = document.createElement('span');
+                amount.className = 'cost-line-value';
+                amount.textContent = `£${item.amount.toFixed(2)}`;
+
+                const row = document.createElement('div');
+                row.className = 'cost-item';
+                row.append(label, amount);
+                lineItems.appendChild(row);
+            }
+        }
+        this.updateElement('total-cost', `£${bill.total.toFixed(2)}`);
+    }
+
+    updateAdherenceDisplay(report: AdherenceReport): void {
+        const rows = document.getElementById('adherence-rows');
+        if (!rows) return;
+
+        rows.innerHTML = '';
+        for (const day of report.weekDays) {
+            const label = Temporal.PlainDate.from(day.from).toLocaleString('en-GB', { weekday: 'short', day: 'numeric' });
+            const row = this.createAdherenceRow(label, day);
+            if (day.from === report.date) {
+                row.classList.add('adherence-selected');
+            }
+            rows.appendChild(row);
+        }
+        const week = this.createAdherenceRow('Week', report.week);
+        week.classList.add('adherence-week');
+        rows.appendChild(week);
+    }
+
+    private createAdherenceRow(label: string, summary: AdherenceSummary): HTMLTableRowElement {
+        const percent = (value: number | null) => value === null ? '–' : `${value.toFixed(0)}%`;
+        const kwh = (value: number | null) => value === null ? '–' : `${value >= 0 ? '+' : ''}${value.toFixed(2)} kWh`;
+        const cells = summary.segmentCount === 0
+            ? [label, '–', '–', '–', '–', '–', '–']
+            : [
+                label,
+                percent(summary.workModeMatchPercent),
+                percent(summary.chargeRateMatchPercent),
+                summary.meanAbsBatteryErrorKwh === null ? '–' : `±${summary.meanAbsBatteryErrorKwh.toFixed(2)} kWh`,
+                kwh(summary.solarErrorKwh),
+                kwh(summary.loadErrorKwh),
+                `${summary.costDelta >= 0 ? '+' : '−'}£${Math.abs(summary.costDelta).toFixed(2)}`
+            ];
+
+        const row = document.createElement('tr');
+        for (const text of cells) {
+            const cell = document.createElement('td');
+            cell.textContent = text;
+            row.appendChild(cell);
+        }
+        return row;
+    }
+
+    updateReplanDisplay(replan: Replan | null): void {
+        const rows = document.getElementById('replan-rows');
+        if (!rows) return;
+
+        const time = (epochMilliseconds: number) => Temporal.Instant.fromEpochMilliseconds(epochMilliseconds)
+            .toZonedDateTimeISO('Europe/London').toPlainTime().toString({ smallestUnit: 'minute' });
+        const pounds = (value: number) => `£${value.toFixed(2)}`;
+        this.updateElement('replan-summary', replan
+            ? `Re-planned at ${time(replan.createdAt)}: battery ${replan.actualBatteryKwh.toFixed(2)} kWh against ${replan.expectedBatteryKwh.toFixed(2)} kWh planned. `
+                + `Rest of day ${pounds(replan.revisedCost)}, ${pounds(replan.originalCost)} as originally planned.`
+            : 'Running the schedule as planned');
+
+        rows.innerHTML = '';
+        for (const segment of replan?.segments ?? []) {
+            const cells = [
+                time(segment.segmentStart),
+                pounds(segment.gridPrice),
+                segment.originalMode,
+                segment.mode,
+                `${segment.originalEndBatteryChargeKwh.toFixed(2)} kWh`,
+                `${segment.endBatteryChargeKwh.toFixed(2)} kWh`
+            ];
+            const row = document.createElement('tr');
+            if (segment.mode !== segment.originalMode) {
+                row.classList.add('replan-changed');
+            }
+            for (const text of cells) {
+                const cell = document.createElement('td');
+                cell.textContent = text;
+                row.appendChild(cell);
+            }
+            rows.appendChild(row);
+        }
     }
 
     private getStatusTitle(status: string): string {
@@ -128,6 +325,25 @@ export class UIManager {
             });
         }
 
+        // Manual override controls
+        const overrideApplyButton = document.getElementById('override-apply-button');
+        if (overrideApplyButton && callbacks.onSetOverride) {
+            overrideApplyButton.addEventListener('click', () => {
+                const request = this.readOverrideForm();
+                if (!request) return;
+                console.log(`👤 User requested manual override: ${request.mode}`, 'info');
+                callbacks.onSetOverride(request);
+            });
+        }
+
+        const overrideClearButton = document.getElementById('override-clear-button');
+        if (overrideClearButton && callbacks.onClearOverride) {
+            overrideClearButton.addEventListener('click', () => {
+                console.log('👤 User cleared manual override', 'info');
+                callbacks.onClearOverride();
+            });
+        }
+
         // Date picker
         const datePicker = document.getElementById('date-picker') as HTMLInputElement;
         if (datePicker && callbacks.onDateChange) {
@@ -0,0 +1,50 @@
+import {OutputsMode} from "./outputsMode";
+import {InverterMode} from "./inverter-mode";
+
+// How closely a finished schedule segment was followed. Errors are actual minus planned, so a
+// positive costDelta cost more than planned. Actuals are null when nothing was recorded for them.
+export interface SegmentAdherence {
+  segmentStart: number; // epoch ms
+  segmentEnd: number; // epoch ms
+  mode: OutputsMode;
+  plannedWorkMode: InverterMode;
+  plannedChargeRate: number;
+  coveredSeconds: number; // time with inverter readings
+  workModeMatchSeconds: number;
+  chargeRateMatchSeconds: number;
+  plannedEndBatteryKwh: number;
+  actualEndBatteryKwh: number | null;
+  batteryErrorKwh: number | null;
+  forecastSolarKwh: number;
+  actualSolarKwh: number | null;
+  solarErrorKwh: number | null;
+  forecastLoadKwh: number;
+  actualLoadKwh: number | null;
+  loadErrorKwh: number | null;
+  plannedCost: number;
+  actualCost: number | null;
+  costDelta: number | null;
+  scoredAt: number; // epoch ms
+}
+
+export interface AdherenceSummary {
+  from: string; // YYYY-MM-DD
+  to: string; // YYYY-MM-DD, inclusive
+  segmentCount: number;
+  workModeMatchPercent: number | null; // of the time with readings
+  chargeRateMatchPercent: number | null;
+  meanAbsBatteryErrorKwh: number | null;
+  solarErrorKwh: number;
+  loadErrorKwh: number;
+  plannedCost: number;
+  actualCost: number;
+  costDelta: number;
+}
+
+export interface AdherenceReport {
+  date: string; // YYYY-MM-DD
+  segments: SegmentAdherence[]; // the day's scored segments
+  day: AdherenceSummary;
+  week: AdherenceSummary; // Monday to Sunday, containing date
+  weekDays: AdherenceSummary[]; // each day of that week
+}
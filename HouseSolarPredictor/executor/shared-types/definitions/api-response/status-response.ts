@@ -1,3 +1,6 @@
 import {SerializedControllerState} from "../liveUpdate";
+import {MqttStatus} from "../mqtt-status";
 
-export type StatusResponse = SerializedControllerState;
+export type StatusResponse = SerializedControllerState & {
+  mqtt: MqttStatus;
+};
@@ -1,3 +1,9 @@
+/**
+ * sent -> acknowledged -> confirmed on the happy path. A command can be confirmed straight from
+ * sent if the state topic echoes the new value before any response message arrives.
+ */
+export type ControlActionStatus = "sent" | "acknowledged" | "confirmed" | "rejected" | "timed_out";
+
 export interface ControlAction {
   id?: number;
   timestamp: number;
@@ -6,6 +12,7 @@ export interface ControlAction {
   success: boolean;
   responseMessage?: string;
   retryCount: number;
+  status?: ControlActionStatus;
+  acknowledgedAt?: number;
+  completedAt?: number; // when the action was confirmed, rejected or timed out
 }
-
-
@@ -0,0 +1,25 @@
+export interface CostBreakdown {
+  importCost: number; // imported kWh × import price
+  exportRevenue: number; // exported kWh × export price
+  netCost: number; // importCost − exportRevenue
+}
+
+export type CostLineItemKind = "import" | "export" | "standingCharge" | "vat";
+
+export interface CostLineItem {
+  kind: CostLineItemKind;
+  description: string;
+  quantity?: number; // kWh for import and export, days for the standing charge
+  unit?: "kWh" | "day";
+  rate?: number; // price per unit; the average for import and export
+  amount: number; // positive for charges, negative for credits
+}
+
+export interface Bill {
+  lineItems: CostLineItem[];
+  total: number; // sum of the line items
+}
+
+export interface DailyBill extends Bill {
+  date: string; // YYYY-MM-DD in Europe/London
+}
@@ -0,0 +1,12 @@
+import {MetricInstance} from "./metric-instance";
+
+export type DeviceType = "inverter" | "battery";
+
+/**
+ * Latest readings from one inverter or battery pack
+ */
+export interface DeviceMetrics {
+  name: string;
+  type: DeviceType;
+  values: Partial<Omit<MetricInstance, "timestamp" | "solarPower" | "devices">>;
+}
@@ -0,0 +1,33 @@
+import {Bill, CostBreakdown, DailyBill} from "./cost-breakdown";
+
+export interface EnergyTotals {
+  importKwh: number;
+  exportKwh: number;
+  solarKwh: number;
+  loadKwh: number;
+  batteryChargeKwh: number;
+  batteryDischargeKwh: number;
+  coveredSeconds: number; // time with readings to integrate; less than the period's length means gaps
+}
+
+export interface SegmentEnergy extends EnergyTotals {
+  segmentStart: number; // epoch ms
+  segmentEnd: number; // epoch ms
+  cost: CostBreakdown;
+}
+
+export interface DailyEnergy extends EnergyTotals {
+  date: string; // YYYY-MM-DD in Europe/London
+  cost: CostBreakdown;
+}
+
+export interface EnergyReport {
+  from: string; // YYYY-MM-DD
+  to: string; // YYYY-MM-DD, inclusive
+  days: DailyEnergy[];
+  segments: SegmentEnergy[];
+  totals: EnergyTotals;
+  cost: CostBreakdown;
+  bills: DailyBill[]; // one per day in days, with the tariff's standing charge and VAT
+  bill: Bill; // the whole range
+}
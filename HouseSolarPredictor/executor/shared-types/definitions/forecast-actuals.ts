@@ -0,0 +1,24 @@
+// What was measured over one half hour, on the same time grid as the schedule's segments, so the
+// planner can compare its forecasts with what happened
+export interface ForecastActualsSlot {
+  time: {
+    segmentStart: string; // ISO datetime with the Europe/London offset, as in RawTimeSegment
+    segmentEnd: string;
+  };
+  actualSolarGeneration: number; // kWh, compare with expectedSolarGeneration
+  actualConsumption: number; // kWh, compare with expectedConsumption
+  gridImportKwh: number;
+  gridExportKwh: number;
+  startBatteryChargeKwh: number | null; // null without a reading near the boundary
+  endBatteryChargeKwh: number | null;
+  startBatteryChargePercent: number | null;
+  endBatteryChargePercent: number | null;
+  coveredSeconds: number; // time with readings; under 1800 means the kWh figures are partial
+}
+
+export interface ForecastActuals {
+  from: string; // YYYY-MM-DD
+  to: string; // YYYY-MM-DD, inclusive
+  generatedAt: string; // ISO instant
+  slots: ForecastActualsSlot[]; // finished half hours only
+}
@@ -0,0 +1,14 @@
+import {InverterMode} from "./inverter-mode";
+
+export interface InverterCapabilities {
+  workModes: InverterMode[];
+  supportsChargeRate: boolean;
+  minChargeRate: number;
+  maxChargeRate: number;
+  reportsCommandResponses: boolean; // whether the bridge publishes success/failure messages for commands
+}
+
+export interface InverterDriverInfo {
+  name: string;
+  capabilities: InverterCapabilities;
+}
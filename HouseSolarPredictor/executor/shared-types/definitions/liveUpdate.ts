@@ -3,6 +3,8 @@ import {ControllerStatus} from "./controller-status";
 import {InverterMode} from "./inverter-mode";
 import {ControlAction} from "./controlAction";
 import {RawTimeSegment} from "./raw-time-segment";
+import {ManualOverride} from "./manual-override";
+import {ProtectionDecision} from "./protection-decision";
 
 export interface LiveUpdate {
     controller: SerializedControllerState;
@@ -18,4 +20,7 @@ export interface SerializedControllerState {
     actualWorkMode?: InverterMode;
     actualChargeRate?: number;
     pendingAction?: ControlAction;
+    manualOverride?: ManualOverride;
+    protectionDecisions?: ProtectionDecision[];
+    shadowMode?: boolean;
 }
@@ -0,0 +1,20 @@
+import {OutputsMode} from "./outputsMode";
+
+export interface ManualOverride {
+  id?: number;
+  mode: OutputsMode;
+  chargeRate?: number; // optional charge rate replacing the one implied by mode
+  startTime: number; // epoch ms
+  endTime: number; // epoch ms
+  reason: string;
+  createdAt: number;
+}
+
+export interface ManualOverrideRequest {
+  mode: OutputsMode;
+  chargeRate?: number;
+  startTime?: string; // ISO instant, defaults to now
+  endTime?: string; // ISO instant, either this or durationMinutes is required
+  durationMinutes?: number;
+  reason: string;
+}
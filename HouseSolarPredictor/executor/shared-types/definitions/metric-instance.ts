@@ -1,4 +1,5 @@
 import {InverterMode} from "./inverter-mode";
+import {DeviceMetrics} from "./device-metrics";
 
 export type MetricInstance = {
   timestamp: number;
@@ -11,4 +12,5 @@ export type MetricInstance = {
   batteryChargePercent: number;
   batteryCapacity: number;
   solarPower: number;
+  devices?: DeviceMetrics[]; // per inverter/battery breakdown when there is more than one of either
 };
@@ -0,0 +1,10 @@
+export type MqttConnectionState = "connecting" | "connected" | "reconnecting" | "stopped";
+
+export interface MqttStatus {
+  state: MqttConnectionState;
+  reconnectAttempts: number; // attempts since the connection was last up
+  nextReconnectAt?: number; // epoch ms
+  lastConnectedAt?: number; // epoch ms
+  lastError?: string;
+  queuedMessages: number; // messages waiting for the connection to come back
+}
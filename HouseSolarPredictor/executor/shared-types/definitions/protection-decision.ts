@@ -0,0 +1,21 @@
+import {InverterMode} from "./inverter-mode";
+
+export type ProtectionCategory = "safety" | "economic";
+
+export type ProtectionOutcome = "disabled" | "skipped" | "idle" | "applied" | "suppressed";
+
+export interface ProtectionAction {
+  workMode?: InverterMode;
+  chargeRate?: number; // exact charge rate
+  minChargeRate?: number; // floor, wins over any cap
+  maxChargeRate?: number; // cap
+}
+
+export interface ProtectionDecision {
+  name: string;
+  category: ProtectionCategory;
+  priority: number;
+  outcome: ProtectionOutcome;
+  action?: ProtectionAction;
+  reason?: string;
+}
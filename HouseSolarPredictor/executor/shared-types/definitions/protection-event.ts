@@ -0,0 +1,18 @@
+import {InverterMode} from "./inverter-mode";
+import {ProtectionAction} from "./protection-decision";
+
+// "changed" records a protection that is still firing but whose action or outcome has changed
+export type ProtectionEventType = "activated" | "changed" | "deactivated";
+
+export interface ProtectionEvent {
+  id?: number;
+  timestamp: number;
+  protectionName: string;
+  eventType: ProtectionEventType;
+  plannedWorkMode: InverterMode;
+  plannedChargeRate: number;
+  action?: ProtectionAction; // what the protection asked for; not set on deactivation
+  outcome?: "applied" | "suppressed"; // not set on deactivation
+  reason?: string; // why it was suppressed
+  batteryChargePercent: number;
+}
@@ -0,0 +1,9 @@
+import {ProtectionCategory} from "./protection-decision";
+
+export interface ProtectionInfo {
+  name: string;
+  category: ProtectionCategory;
+  priority: number;
+  enabled: boolean;
+  settings: Record<string, number>;
+}
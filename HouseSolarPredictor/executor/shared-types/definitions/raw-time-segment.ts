@@ -6,7 +6,8 @@ export interface RawTimeSegment {
     segmentEnd: string;    // ISO datetime string (YYYY-MM-DDTHH:MM:SS)
   };
   expectedSolarGeneration: number; // kWh
-  gridPrice: number; // pence per kWh
+  gridPrice?: number; // pence per kWh, defaults to the tariff's band or import price
+  exportPrice?: number; // pence per kWh exported, defaults to the tariff's band or export price
   expectedConsumption: number; // kWh
   startBatteryChargeKwh: number; // kWh
   endBatteryChargeKwh: number; // kWh
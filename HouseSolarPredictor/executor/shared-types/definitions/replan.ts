@@ -0,0 +1,30 @@
+import {OutputsMode} from "./outputsMode";
+
+// One half hour of a re-plan, with the original schedule's mode and battery level beside the revised ones
+export interface ReplannedSegment {
+  segmentStart: number; // epoch ms
+  segmentEnd: number; // epoch ms
+  gridPrice: number;
+  exportPrice: number;
+  expectedSolarGeneration: number; // kWh
+  expectedConsumption: number; // kWh
+  originalMode: OutputsMode;
+  mode: OutputsMode;
+  originalEndBatteryChargeKwh: number;
+  endBatteryChargeKwh: number;
+}
+
+// A revision of the rest of the day, made when the battery drifted from the plan. Costs are grid
+// import less export revenue from the same starting level, less the energy left in the battery at
+// the end valued at the day's cheapest import price, so the two compare like for like.
+export interface Replan {
+  createdAt: number; // epoch ms
+  scheduleRevision: number | null; // schedule revision it revises
+  actualBatteryKwh: number;
+  expectedBatteryKwh: number; // where the plan had the battery at the time
+  driftKwh: number; // actual minus expected
+  startBatteryKwh: number; // projected level at the start of the first re-planned segment
+  originalCost: number;
+  revisedCost: number;
+  segments: ReplannedSegment[];
+}
@@ -0,0 +1,23 @@
+import {ScheduleValidationReport} from "./schedule-validation";
+
+// How a revision became the active schedule
+export type ScheduleRevisionSource = "file" | "upload" | "rollback";
+
+export interface ScheduleRevision {
+  id: number;
+  activatedAt: number; // epoch ms; in force until the next revision's activatedAt
+  source: ScheduleRevisionSource;
+  author: string; // who uploaded or rolled back, or "file" when the schedule file changed on disk
+  hash: string; // SHA-256 of the schedule JSON, hex
+  segmentCount: number;
+  restoredFrom?: number; // the revision a rollback brought back
+}
+
+export interface ScheduleRevisionWithSchedule extends ScheduleRevision {
+  schedule: string; // the schedule JSON as it was activated
+}
+
+export interface ScheduleActivationResult {
+  revision: ScheduleRevision | null; // null when the schedule failed validation and nothing changed
+  report: ScheduleValidationReport;
+}
@@ -0,0 +1,45 @@
+export type ScheduleIssueSeverity = "error" | "warning";
+
+export type ScheduleIssueCode =
+  | "invalidJson"
+  | "notAList"
+  | "notAnObject"
+  | "empty"
+  | "missingTime"
+  | "invalidTime"
+  | "missingOffset"
+  | "offsetMismatch"
+  | "endNotAfterStart"
+  | "invalidMode"
+  | "invalidNumber"
+  | "duplicate"
+  | "overlap"
+  | "gap"
+  | "batteryDiscontinuity"
+  | "batteryOutOfRange"
+  | "implausiblePrice"
+  | "defaulted";
+
+export interface ScheduleIssue {
+  severity: ScheduleIssueSeverity;
+  code: ScheduleIssueCode;
+  message: string;
+}
+
+export interface ScheduleSegmentIssues {
+  index: number; // position in the schedule file
+  segmentStart: string | null; // as written in the file
+  issues: ScheduleIssue[];
+}
+
+/**
+ * Result of checking a schedule. Any error rejects the whole schedule; warnings don't.
+ */
+export interface ScheduleValidationReport {
+  valid: boolean;
+  segmentCount: number;
+  errorCount: number;
+  warningCount: number;
+  scheduleIssues: ScheduleIssue[]; // about the schedule as a whole
+  segments: ScheduleSegmentIssues[]; // only the segments with issues
+}
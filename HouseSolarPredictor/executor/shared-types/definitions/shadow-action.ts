@@ -0,0 +1,17 @@
+import {InverterMode} from "./inverter-mode";
+import {ControlAction} from "./controlAction";
+
+export interface ShadowAction {
+  id?: number;
+  timestamp: number;
+  workMode: InverterMode; // what would have been sent
+  chargeRate: number;
+  currentWorkMode: InverterMode; // what the inverter was doing at the time
+  currentChargeRate: number;
+  batteryChargePercent: number;
+}
+
+export interface ShadowModeComparison {
+  shadowActions: ShadowAction[];
+  liveActions: ControlAction[];
+}
@@ -0,0 +1,27 @@
+export type TariffDirection = "import" | "export";
+
+// Where a price came from: an imported price file, a tariff time-of-use band, or the tariff's flat rate
+export type TariffPriceSource = "file" | "band" | "flat";
+
+export interface TariffSlotPrice {
+  slotStart: number; // epoch ms
+  slotEnd: number; // epoch ms
+  importPrice: number;
+  exportPrice: number;
+  importSource: TariffPriceSource;
+  exportSource: TariffPriceSource;
+}
+
+export interface TariffDayPrices {
+  date: string; // YYYY-MM-DD in Europe/London
+  slots: TariffSlotPrice[]; // every half hour of the day
+}
+
+export interface TariffFileImport {
+  file: string;
+  direction: TariffDirection;
+  importedAt: number; // epoch ms
+  slotCount: number;
+  gaps: string[]; // missing periods, as "from/to" ISO intervals
+  error?: string; // why the file was rejected; nothing from it was stored
+}
@@ -0,0 +1,27 @@
+export type TelemetryRollupResolution = "1m" | "5m" | "30m";
+export type TelemetryResolution = "raw" | TelemetryRollupResolution;
+
+export interface TelemetrySample {
+  topic: string;
+  timestamp: number; // epoch ms the message arrived
+  value: number | null; // null when the payload isn't a number
+  text?: string; // the payload when it isn't a number
+}
+
+export interface TelemetryRollup {
+  topic: string;
+  bucketStart: number; // epoch ms
+  sampleCount: number; // readings that arrived during the bucket
+  coveredMs: number; // time in the bucket with a known value, holding each reading until the next
+  min: number;
+  max: number;
+  avg: number; // time-weighted over coveredMs
+  integral: number; // value × hours, so Wh for a topic in W
+}
+
+export interface TelemetryHistory {
+  topic: string;
+  resolution: TelemetryResolution;
+  samples: TelemetrySample[]; // filled for raw resolution
+  rollups: TelemetryRollup[]; // filled for 1m, 5m and 30m
+}
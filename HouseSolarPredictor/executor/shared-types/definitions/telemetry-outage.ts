@@ -0,0 +1,7 @@
+export interface TelemetryOutage {
+  id?: number;
+  metric: string; // MetricInstance field whose topic went silent
+  lastSeenAt: number; // when the last reading arrived
+  startedAt: number; // when the reading was declared stale
+  endedAt?: number; // unset while the outage is ongoing
+}
@@ -5,7 +5,25 @@ export {OutputsMode} from "./definitions/outputsMode";
 export type {RawTimeSegment} from "./definitions/raw-time-segment";
 export type {InitialDataResponse} from "./definitions/initial-data-response";
 export type {WebSocketMessage} from "./definitions/webSocketMessage";
-export type {ControlAction} from "./definitions/controlAction";
+export type {ControlAction, ControlActionStatus} from "./definitions/controlAction";
 export type {InverterMode} from "./definitions/inverter-mode";
 export type {StatusResponse} from "./definitions/api-response/status-response";
 export type {LiveUpdate, SerializedControllerState} from "./definitions/liveUpdate";
+export type {ManualOverride, ManualOverrideRequest} from "./definitions/manual-override";
+export type {ProtectionInfo} from "./definitions/protection-info";
+export type {ProtectionEvent, ProtectionEventType} from "./definitions/protection-event";
+export type {ProtectionAction, ProtectionCategory, ProtectionDecision, ProtectionOutcome} from "./definitions/protection-decision";
+export type {TelemetryOutage} from "./definitions/telemetry-outage";
+export type {ShadowAction, ShadowModeComparison} from "./definitions/shadow-action";
+export type {InverterCapabilities, InverterDriverInfo} from "./definitions/inverter-capabilities";
+export type {DeviceMetrics, DeviceType} from "./definitions/device-metrics";
+export type {MqttConnectionState, MqttStatus} from "./definitions/mqtt-status";
+export type {TelemetryHistory, TelemetryResolution, TelemetryRollup, TelemetryRollupResolution, TelemetrySample} from "./definitions/telemetry-history";
+export type {DailyEnergy, EnergyReport, EnergyTotals, SegmentEnergy} from "./definitions/energy";
+export type {Bill, CostBreakdown, CostLineItem, CostLineItemKind, DailyBill} from "./definitions/cost-breakdown";
+export type {TariffDayPrices, TariffDirection, TariffFileImport, TariffPriceSource, TariffSlotPrice} from "./definitions/tariff-prices";
+export type {ScheduleIssue, ScheduleIssueCode, ScheduleIssueSeverity, ScheduleSegmentIssues, ScheduleValidationReport} from "./definitions/schedule-validation";
+export type {ScheduleActivationResult, ScheduleRevision, ScheduleRevisionSource, ScheduleRevisionWithSchedule} from "./definitions/schedule-revision";
+export type {AdherenceReport, AdherenceSummary, SegmentAdherence} from "./definitions/adherence";
+export type {ForecastActuals, ForecastActualsSlot} from "./definitions/forecast-actuals";
+export type {Replan, ReplannedSegment} from "./definitions/replan";